@@ -93,78 +93,6 @@ if (toggleControlsBtn && controls) {
   });
 }
 
-// Mobile Touch Handling
-let lastTouchX = 0;
-let lastTouchY = 0;
-let initialPinchDistance = 0;
-let isPanning = false;
-let isZooming = false;
-
-canvas.addEventListener('touchstart', (e) => {
-  if (e.touches.length === 1) {
-    isPanning = true;
-    isZooming = false;
-    lastTouchX = e.touches[0].clientX;
-    lastTouchY = e.touches[0].clientY;
-  } else if (e.touches.length === 2) {
-    isPanning = false;
-    isZooming = true;
-    const dx = e.touches[0].clientX - e.touches[1].clientX;
-    const dy = e.touches[0].clientY - e.touches[1].clientY;
-    initialPinchDistance = Math.sqrt(dx * dx + dy * dy);
-  }
-}, { passive: false });
-
-canvas.addEventListener('touchmove', (e) => {
-  if (e.cancelable) e.preventDefault(); // Prevent scrolling
-
-  if (!renderer.viewport) return;
-
-  if (isPanning && e.touches.length === 1) {
-    const touch = e.touches[0];
-    const dx = touch.clientX - lastTouchX;
-    const dy = touch.clientY - lastTouchY;
-
-    lastTouchX = touch.clientX;
-    lastTouchY = touch.clientY;
-
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-
-    const bufferDx = dx * scaleX;
-    const bufferDy = dy * scaleY;
-
-    renderer.viewport.move(-bufferDx / renderer.viewport.zoom, -bufferDy / renderer.viewport.zoom);
-
-  } else if (isZooming && e.touches.length === 2) {
-    const dx = e.touches[0].clientX - e.touches[1].clientX;
-    const dy = e.touches[0].clientY - e.touches[1].clientY;
-    const currentDistance = Math.sqrt(dx * dx + dy * dy);
-
-    if (initialPinchDistance > 0) {
-      const factor = currentDistance / initialPinchDistance;
-
-      const centerX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
-      const centerY = (e.touches[0].clientY + e.touches[1].clientY) / 2;
-
-      const rect = canvas.getBoundingClientRect();
-      const scaleX = canvas.width / rect.width;
-      const scaleY = canvas.height / rect.height;
-
-      const x = (centerX - rect.left) * scaleX;
-      const y = (centerY - rect.top) * scaleY;
-
-      renderer.viewport.zoomAt(factor, x, y);
-      initialPinchDistance = currentDistance;
-    }
-  }
-}, { passive: false });
-
-canvas.addEventListener('touchend', () => {
-  isPanning = false;
-  isZooming = false;
-});
 if (controls) {
   // Band selector container
   const bandContainer = document.createElement('div');
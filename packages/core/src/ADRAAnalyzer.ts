@@ -1,22 +1,39 @@
 import { Viewport } from './Viewport';
 import { ADRAOptions } from './TileManager';
+import { HISTOGRAM_BINS, Histogram, histogramPercentile } from './Histogram';
+import histogramShaderSource from './shaders/histogram.wgsl?raw';
+
+const MIN_SAMPLE_SIZE = 16;
+const MAX_SAMPLE_SIZE = 1024;
+const WORKGROUP_SIZE = 16;
+const RANGE_BYTES = 32;                      // 6 u32, padded
+const BINS_BYTES = 3 * HISTOGRAM_BINS * 4;
+const PARTIAL_BYTES = 32;                    // Two vec4<f32> per workgroup
 
 /**
  * ADRAAnalyzer handles Automatic Dynamic Range Adjustment (ADRA) for COG imagery.
  * 
  * ADRA dynamically calculates optimal display ranges by:
- * 1. Rendering visible tiles to a small analysis texture (128x128)
- * 2. Reading back pixel values to CPU
- * 3. Computing percentile-based min/max with configurable clipping
- * 4. Applying padding to prevent edge artifacts
- * 
- * This GPU-accelerated approach is much faster than CPU-based histogram analysis.
+ * 1. Rendering visible tiles to an analysis texture (options.sampleSize², 128² by default)
+ * 2. Binning the samples into per-channel histograms with compute passes on the GPU
+ * 3. Reading back only the bins, the value range and partial sums
+ * 4. Computing percentile-based min/max with configurable clipping from the bins
+ * 5. Applying padding to prevent edge artifacts
  */
 export class ADRAAnalyzer {
     private device: GPUDevice;
     private analysisPipeline: GPURenderPipeline;
-    private analysisTexture: GPUTexture;
-    private analysisBuffer: GPUBuffer;
+    private pipelineLayout: GPUPipelineLayout;
+    private rangePipeline: GPUComputePipeline;
+    private binPipeline: GPUComputePipeline;
+    private histogramLayout: GPUBindGroupLayout;
+    private rangeBuffer: GPUBuffer;
+    private binsBuffer: GPUBuffer;
+    private analysisTexture: GPUTexture | null = null;
+    private partialsBuffer: GPUBuffer | null = null;
+    private readbackBuffer: GPUBuffer | null = null;
+    private histogramBindGroup: GPUBindGroup | null = null;
+    private sampleSize: number = 0;
     private isAnalyzing: boolean = false;
 
     // Change detection state
@@ -25,12 +42,13 @@ export class ADRAAnalyzer {
     private lastOptionsSignature: string = '';
     private lastCalcTime: number = 0;
 
-    // Current statistics (RGB)
-    public currentStats: { min: number[], max: number[] } = { min: [0, 0, 0], max: [1, 1, 1] };
-
-    // ... (lines 31-200 are acceptable to skip in replacement if I target specific block, but I need to replace calculateStatistics completely and the property definiton is far away)
-    // Actually, I can use multi-replace.
+    // Current statistics (RGB). Mean and standard deviation are over all valid samples, before clipping
+    public currentStats: { min: number[], max: number[], mean: number[], stdDev: number[] } =
+        { min: [0, 0, 0], max: [1, 1, 1], mean: [0.5, 0.5, 0.5], stdDev: [0.25, 0.25, 0.25] };
 
+    // Histogram of the last analysis, e.g. for histogram equalization; the version counts analyses
+    public histogram: Histogram | null = null;
+    public histogramVersion: number = 0;
 
     // Configuration
     public options: ADRAOptions;
@@ -53,23 +71,85 @@ export class ADRAAnalyzer {
     ) {
         this.device = device;
         this.options = options;
+        this.pipelineLayout = pipelineLayout;
+
+        // Create analysis pipeline
+        this.analysisPipeline = this.createPipeline(shaderModule);
+
+        // Histogram compute pipelines share one bind group
+        this.histogramLayout = device.createBindGroupLayout({
+            entries: [
+                { binding: 0, visibility: GPUShaderStage.COMPUTE, texture: { sampleType: 'unfilterable-float' } }, // Analysis texture
+                { binding: 1, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } }, // Range
+                { binding: 2, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } }, // Bins
+                { binding: 3, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } }  // Partial sums
+            ]
+        });
+        const histogramModule = device.createShaderModule({ code: histogramShaderSource });
+        const computeLayout = device.createPipelineLayout({ bindGroupLayouts: [this.histogramLayout] });
+        this.rangePipeline = device.createComputePipeline({
+            layout: computeLayout,
+            compute: { module: histogramModule, entryPoint: 'reduce_range' },
+        });
+        this.binPipeline = device.createComputePipeline({
+            layout: computeLayout,
+            compute: { module: histogramModule, entryPoint: 'bin_values' },
+        });
 
-        // Create analysis texture (128x128 for performance)
-        this.analysisTexture = device.createTexture({
-            size: [128, 128, 1],
+        this.rangeBuffer = device.createBuffer({
+            size: RANGE_BYTES,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+        });
+        this.binsBuffer = device.createBuffer({
+            size: BINS_BYTES,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+        });
+    }
+
+    /**
+     * (Re)creates the analysis texture and the size dependent buffers for options.sampleSize.
+     */
+    private ensureResources(): void {
+        const size = Math.max(MIN_SAMPLE_SIZE, Math.min(MAX_SAMPLE_SIZE, Math.round(this.options.sampleSize) || 128));
+        if (size === this.sampleSize) return;
+        this.sampleSize = size;
+
+        this.analysisTexture?.destroy();
+        this.partialsBuffer?.destroy();
+        this.readbackBuffer?.destroy();
+
+        this.analysisTexture = this.device.createTexture({
+            size: [size, size, 1],
             format: 'rgba32float',
-            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
         });
 
-        // Create readback buffer
-        this.analysisBuffer = device.createBuffer({
-            size: 128 * 128 * 16, // 128x128 pixels * 4 channels * 4 bytes
+        const groups = Math.ceil(size / WORKGROUP_SIZE);
+        this.partialsBuffer = this.device.createBuffer({
+            size: groups * groups * PARTIAL_BYTES,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+        });
+
+        // Range, bins and partial sums are copied side by side
+        this.readbackBuffer = this.device.createBuffer({
+            size: RANGE_BYTES + BINS_BYTES + groups * groups * PARTIAL_BYTES,
             usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
         });
 
-        // Create analysis pipeline
-        this.analysisPipeline = device.createRenderPipeline({
-            layout: pipelineLayout,
+        this.histogramBindGroup = this.device.createBindGroup({
+            layout: this.histogramLayout,
+            entries: [
+                { binding: 0, resource: this.analysisTexture.createView() },
+                { binding: 1, resource: { buffer: this.rangeBuffer } },
+                { binding: 2, resource: { buffer: this.binsBuffer } },
+                { binding: 3, resource: { buffer: this.partialsBuffer } },
+            ],
+        });
+    }
+
+    private createPipeline(shaderModule: GPUShaderModule): GPURenderPipeline {
+        return this.device.createRenderPipeline({
+            layout: this.pipelineLayout,
             vertex: {
                 module: shaderModule,
                 entryPoint: 'vert_main',
@@ -85,13 +165,21 @@ export class ADRAAnalyzer {
         });
     }
 
+    /**
+     * Rebuilds the analysis pipeline, e.g. when a band-math expression changes the pixel read.
+     */
+    setShaderModule(shaderModule: GPUShaderModule): void {
+        this.analysisPipeline = this.createPipeline(shaderModule);
+        this.lastOptionsSignature = '';
+    }
+
     /**
      * Updates ADRA statistics based on visible tiles.
      * Uses change detection to avoid unnecessary recalculation.
      * 
      * @param visibleTiles - Array of visible tiles to analyze
      * @param viewport - Current viewport for change detection
-     * @param settingsBuffer - GPU buffer containing settings
+     * @param globalBindGroup - Bind group 0 of the tile pipeline (viewport, settings, colormap)
      * @param tileManagerVersion - Version number from TileManager
      * @param globalMax - Global max value for heuristic
      * @returns Performance metrics (calculation time in ms)
@@ -99,7 +187,7 @@ export class ADRAAnalyzer {
     update(
         visibleTiles: any[],
         viewport: Viewport,
-        settingsBuffer: GPUBuffer,
+        globalBindGroup: GPUBindGroup,
         tileManagerVersion: number,
         globalMax: number
     ): { updated: boolean, timeMs: number } {
@@ -107,7 +195,7 @@ export class ADRAAnalyzer {
         const startTime = performance.now();
 
         // Check if update is needed
-        const vpSig = `${viewport.center[0].toFixed(2)},${viewport.center[1].toFixed(2)},${viewport.zoom.toFixed(2)}`;
+        const vpSig = `${viewport.center[0].toFixed(2)},${viewport.center[1].toFixed(2)},${viewport.zoom.toFixed(2)},${viewport.rotation.toFixed(3)}`;
         const optSig = JSON.stringify(this.options);
 
         const needsUpdate =
@@ -133,7 +221,7 @@ export class ADRAAnalyzer {
         this.isAnalyzing = true;
 
         // Perform GPU analysis
-        this.performGPUAnalysis(visibleTiles, viewport, settingsBuffer);
+        this.performGPUAnalysis(visibleTiles, globalBindGroup);
 
         // Update signatures
         this.lastViewportSignature = vpSig;
@@ -147,19 +235,29 @@ export class ADRAAnalyzer {
 
     /**
      * Performs GPU-accelerated histogram analysis.
-     * Renders tiles to analysis texture and reads back for statistics calculation.
+     * Renders tiles to the analysis texture, bins it with compute passes and reads back the bins.
      */
     private performGPUAnalysis(
         visibleTiles: any[],
-        viewport: Viewport,
-        settingsBuffer: GPUBuffer
+        globalBindGroup: GPUBindGroup
     ): void {
+        this.ensureResources();
+        const size = this.sampleSize;
+        const groups = Math.ceil(size / WORKGROUP_SIZE);
+        const readbackBuffer = this.readbackBuffer!;
+
+        // Empty range: min at the largest ordered value, max at the smallest
+        this.device.queue.writeBuffer(this.rangeBuffer, 0, new Uint32Array([
+            0xffffffff, 0xffffffff, 0xffffffff, 0, 0, 0, 0, 0
+        ]));
+
         const commandEncoder = this.device.createCommandEncoder();
+        commandEncoder.clearBuffer(this.binsBuffer);
 
         // Render to analysis texture
         const renderPass = commandEncoder.beginRenderPass({
             colorAttachments: [{
-                view: this.analysisTexture.createView(),
+                view: this.analysisTexture!.createView(),
                 loadOp: 'clear',
                 clearValue: { r: 0, g: 0, b: 0, a: 0 },
                 storeOp: 'store'
@@ -168,15 +266,7 @@ export class ADRAAnalyzer {
 
         renderPass.setPipeline(this.analysisPipeline);
 
-        const viewportBindGroup = this.device.createBindGroup({
-            layout: this.analysisPipeline.getBindGroupLayout(0),
-            entries: [
-                { binding: 0, resource: { buffer: viewport.getBuffer() } },
-                { binding: 1, resource: { buffer: settingsBuffer } }
-            ]
-        });
-
-        renderPass.setBindGroup(0, viewportBindGroup);
+        renderPass.setBindGroup(0, globalBindGroup);
 
         // Skip background tile to avoid biasing statistics
         for (const tile of visibleTiles) {
@@ -188,19 +278,26 @@ export class ADRAAnalyzer {
         }
         renderPass.end();
 
+        // Value range first, then bins and sums relative to it
+        const computePass = commandEncoder.beginComputePass();
+        computePass.setBindGroup(0, this.histogramBindGroup!);
+        computePass.setPipeline(this.rangePipeline);
+        computePass.dispatchWorkgroups(groups, groups);
+        computePass.setPipeline(this.binPipeline);
+        computePass.dispatchWorkgroups(groups, groups);
+        computePass.end();
+
         // Copy to readback buffer
-        commandEncoder.copyTextureToBuffer(
-            { texture: this.analysisTexture },
-            { buffer: this.analysisBuffer, bytesPerRow: 128 * 16 },
-            [128, 128, 1]
-        );
+        commandEncoder.copyBufferToBuffer(this.rangeBuffer, 0, readbackBuffer, 0, RANGE_BYTES);
+        commandEncoder.copyBufferToBuffer(this.binsBuffer, 0, readbackBuffer, RANGE_BYTES, BINS_BYTES);
+        commandEncoder.copyBufferToBuffer(this.partialsBuffer!, 0, readbackBuffer, RANGE_BYTES + BINS_BYTES, groups * groups * PARTIAL_BYTES);
 
         this.device.queue.submit([commandEncoder.finish()]);
 
         // Async readback and statistics calculation
-        this.analysisBuffer.mapAsync(GPUMapMode.READ).then(() => {
-            this.calculateStatistics();
-            this.analysisBuffer.unmap();
+        readbackBuffer.mapAsync(GPUMapMode.READ).then(() => {
+            this.calculateStatistics(readbackBuffer.getMappedRange());
+            readbackBuffer.unmap();
             this.isAnalyzing = false;
         }).catch(err => {
             console.error("ADRA analysis error:", err);
@@ -209,42 +306,57 @@ export class ADRAAnalyzer {
     }
 
     /**
-     * Calculates percentile-based statistics from GPU readback data.
+     * Calculates percentile-based statistics from the histogram readback.
      * Implements configurable clipping and padding.
      */
-    private calculateStatistics(): void {
-        const arrayBuffer = this.analysisBuffer.getMappedRange();
-        const data = new Float32Array(arrayBuffer);
-
-        const rSamples: number[] = [];
-        const gSamples: number[] = [];
-        const bSamples: number[] = [];
-
-        // Collect valid samples (alpha > 0.5 indicates written pixel)
-        for (let i = 0; i < data.length; i += 4) {
-            if (data[i + 3] > 0.5) {
-                rSamples.push(data[i]);
-                gSamples.push(data[i + 1]);
-                bSamples.push(data[i + 2]);
+    private calculateStatistics(arrayBuffer: ArrayBuffer): void {
+        // Range is stored as order-preserving float bits (see ordered() in histogram.wgsl)
+        const rangeBits = new Uint32Array(arrayBuffer, 0, 6);
+        const decoded = new Uint32Array(6);
+        for (let i = 0; i < 6; i++) {
+            const u = rangeBits[i];
+            decoded[i] = (u & 0x80000000) ? (u & 0x7fffffff) : (~u >>> 0);
+        }
+        const range = new Float32Array(decoded.buffer);
+
+        const bins = new Uint32Array(arrayBuffer, RANGE_BYTES, 3 * HISTOGRAM_BINS);
+        const partials = new Float32Array(arrayBuffer, RANGE_BYTES + BINS_BYTES);
+
+        const sums = [0, 0, 0];
+        const squares = [0, 0, 0];
+        let total = 0;
+        for (let i = 0; i < partials.length; i += 8) {
+            for (let c = 0; c < 3; c++) {
+                sums[c] += partials[i + c];
+                squares[c] += partials[i + 4 + c];
             }
+            total += partials[i + 3];
         }
 
-        if (rSamples.length === 0) {
+        if (total === 0) {
             return; // No valid data
         }
 
-        const calcRange = (samples: number[]) => {
-            samples.sort((a, b) => a - b);
+        const min = [range[0], range[1], range[2]];
+        const histogram: Histogram = {
+            bins: HISTOGRAM_BINS,
+            counts: [0, 1, 2].map(c => Array.from(bins.subarray(c * HISTOGRAM_BINS, (c + 1) * HISTOGRAM_BINS))),
+            min,
+            max: [range[3], range[4], range[5]],
+            // Sums are relative to the channel min, which keeps the variance precise for large values
+            mean: sums.map((sum, c) => min[c] + sum / total),
+            stdDev: sums.map((sum, c) => Math.sqrt(Math.max(0, squares[c] / total - (sum / total) ** 2))),
+            total
+        };
+
+        const calcRange = (channel: number) => {
             const { clipLow, clipHigh, padLow, padHigh } = this.options;
 
             const pLow = Math.max(0, Math.min(100, clipLow)) / 100;
             const pHigh = Math.max(0, Math.min(100, clipHigh)) / 100;
 
-            const lowIndex = Math.floor(samples.length * pLow);
-            const highIndex = Math.floor(samples.length * pHigh);
-
-            let min = samples[lowIndex] ?? samples[0];
-            let max = samples[highIndex] ?? samples[samples.length - 1];
+            let min = histogramPercentile(histogram, channel, pLow);
+            let max = histogramPercentile(histogram, channel, pHigh);
 
             // Apply padding
             const range = max - min;
@@ -267,13 +379,18 @@ export class ADRAAnalyzer {
             return { min, max };
         };
 
-        const r = calcRange(rSamples);
-        const g = calcRange(gSamples);
-        const b = calcRange(bSamples);
+        const r = calcRange(0);
+        const g = calcRange(1);
+        const b = calcRange(2);
+
+        this.histogram = histogram;
+        this.histogramVersion++;
 
         this.currentStats = {
             min: [r.min, g.min, b.min],
-            max: [r.max, g.max, b.max]
+            max: [r.max, g.max, b.max],
+            mean: histogram.mean,
+            stdDev: histogram.stdDev
         };
     }
 
@@ -290,7 +407,10 @@ export class ADRAAnalyzer {
      * Cleans up GPU resources.
      */
     destroy(): void {
-        this.analysisTexture.destroy();
-        this.analysisBuffer.destroy();
+        this.analysisTexture?.destroy();
+        this.partialsBuffer?.destroy();
+        this.readbackBuffer?.destroy();
+        this.rangeBuffer.destroy();
+        this.binsBuffer.destroy();
     }
 }
@@ -0,0 +1,776 @@
+import { Viewport } from './Viewport';
+import { Point, PixelTransform } from './GeoTransform';
+import { InteractionTool, ToolPointerEvent } from './InteractionHandler';
+import { GeoJSON, GeoJSONFeature, GeoJSONFeatureCollection, GeoJSONGeometry, Position, VectorLayer, VectorStyle } from './VectorLayer';
+
+export type AnnotationType = 'point' | 'polyline' | 'rectangle' | 'polygon' | 'circle';
+
+/**
+ * Active tool: draw a shape type, select/edit existing annotations, or null to leave the pointer to pan and zoom.
+ */
+export type AnnotationMode = AnnotationType | 'select' | null;
+
+/**
+ * A drawn shape. Vertices are stored in image pixels and, when the image is georeferenced, in its CRS.
+ *
+ * - point: [position]
+ * - polyline: vertices
+ * - polygon: open ring (first vertex not repeated)
+ * - rectangle: 4 corners, axis aligned in image pixels
+ * - circle: [center, point on the rim]
+ */
+export interface Annotation {
+    id: string;
+    type: AnnotationType;
+    pixel: Point[];
+    geo: Point[] | null;
+    properties: { [key: string]: any };
+}
+
+export interface AnnotationChangeEvent {
+    type: 'add' | 'update' | 'remove' | 'clear' | 'import' | 'undo' | 'redo';
+    annotations: Annotation[]; // Annotations affected by the change (all of them for clear, import, undo and redo)
+}
+
+const HIT_TOLERANCE = 8;    // Screen pixels
+const CLICK_TOLERANCE = 4;  // Screen pixels a click may move before it counts as a pan
+const CIRCLE_SEGMENTS = 64;
+const MAX_HISTORY = 100;
+
+const ANNOTATION_STYLE: Partial<VectorStyle> = {
+    strokeColor: '#00e5ff',
+    strokeWidth: 2,
+    fillColor: '#00e5ff',
+    fillOpacity: 0.15,
+    pointRadius: 6
+};
+const SELECTED_STYLE: Partial<VectorStyle> = { strokeColor: '#ffcc00', fillColor: '#ffcc00' };
+const DRAFT_STYLE: Partial<VectorStyle> = {
+    strokeColor: '#ffcc00',
+    strokeWidth: 2,
+    fillColor: '#ffcc00',
+    fillOpacity: 0.15,
+    pointRadius: 4
+};
+const HANDLE_STYLE: Partial<VectorStyle> = {
+    fillColor: '#ffffff',
+    fillOpacity: 1,
+    strokeColor: '#000000',
+    strokeWidth: 1.5,
+    pointRadius: 5
+};
+
+function pixelPosition(p: Point): Position {
+    return [p.x, p.y];
+}
+
+function distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function segmentDistance(p: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq)) : 0;
+    return Math.hypot(a.x + t * dx - p.x, a.y + t * dy - p.y);
+}
+
+function pointInRing(p: Point, ring: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const a = ring[i];
+        const b = ring[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+}
+
+function rectangleCorners(a: Point, b: Point): Point[] {
+    const x0 = Math.min(a.x, b.x), x1 = Math.max(a.x, b.x);
+    const y0 = Math.min(a.y, b.y), y1 = Math.max(a.y, b.y);
+    return [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }];
+}
+
+function circleRing(center: Point, rim: Point): Point[] {
+    const r = distance(center, rim);
+    const ring: Point[] = [];
+    for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+        const a = i / CIRCLE_SEGMENTS * Math.PI * 2;
+        ring.push({ x: center.x + Math.cos(a) * r, y: center.y + Math.sin(a) * r });
+    }
+    return ring;
+}
+
+function cloneAnnotation(a: Annotation): Annotation {
+    return {
+        ...a,
+        pixel: a.pixel.map(p => ({ ...p })),
+        geo: a.geo ? a.geo.map(p => ({ ...p })) : null,
+        properties: { ...a.properties }
+    };
+}
+
+/**
+ * AnnotationManager holds user drawn shapes and implements the drawing and editing tools.
+ *
+ * It plugs into InteractionHandler as its tool: gestures that start on an annotation (or any
+ * rectangle/circle drag) are captured, everything else still pans and zooms. Points, polylines
+ * and polygons are placed with clicks, so a drag in those modes pans as usual.
+ *
+ * Editing in 'select' mode: drag a shape to move it, drag a handle to move a vertex,
+ * double-click a handle to delete the vertex or an edge to insert one.
+ * Polylines and polygons finish on double-click (or `finish()`), polygons also when the first vertex is clicked.
+ *
+ * Annotations are drawn through two VectorLayers in image pixel space: the shapes, and the
+ * editing overlay (draft shape, the shape being dragged and vertex handles). Pointer moves only
+ * rebuild the overlay, so drawing stays fast with many annotations.
+ */
+export class AnnotationManager implements InteractionTool {
+    annotations: Annotation[] = [];
+    mode: AnnotationMode = null;
+    selectedId: string | null = null;
+
+    layer: VectorLayer;
+    editLayer: VectorLayer;
+
+    onChange: ((event: AnnotationChangeEvent) => void) | null = null;
+    onSelectionChange: ((annotation: Annotation | null) => void) | null = null;
+
+    // Provides the image georeference for CRS coordinates
+    getTransform: () => PixelTransform | null = () => null;
+
+    private viewport: Viewport;
+    private nextId: number = 1;
+    private undoStack: Annotation[][] = [];
+    private redoStack: Annotation[][] = [];
+
+    // Gesture state
+    private draft: { type: AnnotationType, points: Point[] } | null = null;
+    private cursor: Point | null = null;
+    private press: { x: number, y: number } | null = null;
+    private drag: { id: string, vertex: number | null, start: Point, original: Point[], before: Annotation[], moved: boolean } | null = null;
+
+    constructor(viewport: Viewport, style: Partial<VectorStyle> = {}) {
+        this.viewport = viewport;
+        this.layer = new VectorLayer({ type: 'FeatureCollection', features: [] }, { ...ANNOTATION_STYLE, ...style }, {
+            featureStyle: feature => feature.id === this.selectedId ? SELECTED_STYLE : {}
+        });
+        this.editLayer = new VectorLayer({ type: 'FeatureCollection', features: [] }, DRAFT_STYLE, {
+            // The dragged shape keeps its look from the annotation layer
+            featureStyle: feature => feature.properties?.handle ? HANDLE_STYLE
+                : feature.properties?.dragged ? { ...this.layer.style, ...SELECTED_STYLE } : {}
+        });
+    }
+
+    /**
+     * Switches the active tool. Any shape being drawn is discarded.
+     */
+    setMode(mode: AnnotationMode) {
+        this.mode = mode;
+        this.draft = null;
+        this.cursor = null;
+        this.drag = null;
+        if (mode !== 'select') this.select(null);
+        this.refresh();
+    }
+
+    getAnnotations(): Annotation[] {
+        return this.annotations;
+    }
+
+    getAnnotation(id: string): Annotation | null {
+        return this.annotations.find(a => a.id === id) || null;
+    }
+
+    getSelected(): Annotation | null {
+        return this.selectedId ? this.getAnnotation(this.selectedId) : null;
+    }
+
+    select(id: string | null) {
+        if (id === this.selectedId) return;
+        this.selectedId = id;
+        this.refresh();
+        this.onSelectionChange?.(this.getSelected());
+    }
+
+    /**
+     * Adds an annotation from image pixel vertices (see `Annotation` for the layout per type).
+     */
+    add(type: AnnotationType, pixel: Point[], properties: { [key: string]: any } = {}): Annotation {
+        this.checkpoint();
+        const annotation = this.create(type, pixel, properties);
+        this.annotations.push(annotation);
+        this.changed('add', [annotation]);
+        return annotation;
+    }
+
+    /**
+     * Replaces the vertices and/or properties of an annotation.
+     */
+    update(id: string, changes: { pixel?: Point[], properties?: { [key: string]: any } }): Annotation | null {
+        const annotation = this.getAnnotation(id);
+        if (!annotation) return null;
+        this.checkpoint();
+        if (changes.pixel) annotation.pixel = changes.pixel.map(p => ({ x: p.x, y: p.y }));
+        if (changes.properties) annotation.properties = { ...changes.properties };
+        this.updateGeo(annotation);
+        this.changed('update', [annotation]);
+        return annotation;
+    }
+
+    remove(id: string) {
+        const annotation = this.getAnnotation(id);
+        if (!annotation) return;
+        this.checkpoint();
+        this.annotations = this.annotations.filter(a => a !== annotation);
+        if (this.selectedId === id) this.select(null);
+        this.changed('remove', [annotation]);
+    }
+
+    /**
+     * Deletes the selected annotation, if any.
+     */
+    deleteSelected() {
+        if (this.selectedId) this.remove(this.selectedId);
+    }
+
+    clear() {
+        if (this.annotations.length === 0) return;
+        this.checkpoint();
+        const removed = this.annotations;
+        this.annotations = [];
+        this.select(null);
+        this.changed('clear', removed);
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    undo() {
+        const previous = this.undoStack.pop();
+        if (!previous) return;
+        this.redoStack.push(this.annotations.map(cloneAnnotation));
+        this.restore(previous);
+        this.changed('undo', this.annotations);
+    }
+
+    redo() {
+        const next = this.redoStack.pop();
+        if (!next) return;
+        this.undoStack.push(this.annotations.map(cloneAnnotation));
+        this.restore(next);
+        this.changed('redo', this.annotations);
+    }
+
+    /**
+     * Completes the polyline or polygon being drawn.
+     */
+    finish() {
+        const draft = this.draft;
+        if (!draft) return;
+        this.draft = null;
+        this.cursor = null;
+
+        // Drop repeated vertices (a double-click adds the last one twice)
+        const tolerance = CLICK_TOLERANCE / this.viewport.zoom;
+        const points = draft.points.filter((p, i) => i === 0 || distance(p, draft.points[i - 1]) > tolerance);
+        const minimum = draft.type === 'polygon' ? 3 : 2;
+        if (points.length >= minimum) {
+            this.add(draft.type, points);
+        } else {
+            this.refreshEdit();
+        }
+    }
+
+    /**
+     * Discards the shape being drawn.
+     */
+    cancel() {
+        this.draft = null;
+        this.cursor = null;
+        this.refreshEdit();
+    }
+
+    /**
+     * Exports all annotations as a FeatureCollection.
+     * Circles and rectangles become polygons; `properties.annotationType` keeps the original type
+     * (and `radius` in pixels for circles) so they re-import as editable shapes.
+     * @param coordinates - 'pixel' for image pixels, 'crs' for the image CRS (needs georeferencing)
+     */
+    toGeoJSON(coordinates: 'pixel' | 'crs' = 'pixel'): GeoJSONFeatureCollection {
+        const transform = coordinates === 'crs' ? this.requireTransform() : null;
+        const toPosition = (p: Point): Position => {
+            const q = transform ? transform.pixelToCrs(p.x, p.y) : p;
+            return [q.x, q.y];
+        };
+
+        return {
+            type: 'FeatureCollection',
+            features: this.annotations.map(a => {
+                const properties: { [key: string]: any } = { ...a.properties, annotationType: a.type };
+                if (a.type === 'circle') properties.radius = distance(a.pixel[0], a.pixel[1]);
+                return { type: 'Feature', id: a.id, geometry: this.toGeometry(a.type, a.pixel, toPosition), properties };
+            })
+        };
+    }
+
+    /**
+     * Imports annotations from GeoJSON. Multi-part geometries become one annotation per part.
+     * @param coordinates - Coordinate space of the input, 'pixel' or 'crs'
+     * @param replace - Replace the existing annotations instead of appending
+     */
+    fromGeoJSON(geojson: GeoJSON, coordinates: 'pixel' | 'crs' = 'pixel', replace: boolean = true): Annotation[] {
+        const transform = coordinates === 'crs' ? this.requireTransform() : null;
+        const toPixel = (c: Position): Point => transform ? transform.crsToPixel(c[0], c[1]) : { x: c[0], y: c[1] };
+        const openRing = (ring: Position[]) => {
+            const points = ring.map(toPixel);
+            if (points.length > 1 && distance(points[0], points[points.length - 1]) < 1e-9) points.pop();
+            return points;
+        };
+
+        const features: GeoJSONFeature[] = geojson.type === 'FeatureCollection' ? geojson.features
+            : geojson.type === 'Feature' ? [geojson]
+                : [{ type: 'Feature', geometry: geojson, properties: null }];
+
+        const imported: Annotation[] = [];
+        for (const feature of features) {
+            const { annotationType, radius, ...properties } = feature.properties || {};
+            const addPart = (type: AnnotationType, pixel: Point[]) => {
+                const annotation = this.create(type, pixel, properties);
+                const id = feature.id !== undefined ? String(feature.id) : null;
+                // Replaced annotations give up their ids; appended ones keep them
+                const taken = id === null || imported.some(a => a.id === id) || (!replace && this.getAnnotation(id) !== null);
+                if (!taken) {
+                    annotation.id = id;
+                    // Keep generated ids unique
+                    const match = /^annotation-(\d+)$/.exec(id);
+                    if (match) this.nextId = Math.max(this.nextId, Number(match[1]) + 1);
+                }
+                imported.push(annotation);
+            };
+
+            const addGeometry = (geometry: GeoJSONGeometry | null) => {
+                if (!geometry) return;
+                switch (geometry.type) {
+                    case 'Point':
+                        addPart('point', [toPixel(geometry.coordinates)]);
+                        break;
+                    case 'MultiPoint':
+                        geometry.coordinates.forEach(c => addPart('point', [toPixel(c)]));
+                        break;
+                    case 'LineString':
+                        addPart('polyline', geometry.coordinates.map(toPixel));
+                        break;
+                    case 'MultiLineString':
+                        geometry.coordinates.forEach(line => addPart('polyline', line.map(toPixel)));
+                        break;
+                    case 'Polygon':
+                    case 'MultiPolygon': {
+                        const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+                        for (const polygon of polygons) {
+                            if (!polygon[0]) continue;
+                            const ring = openRing(polygon[0]); // Holes are not editable shapes and are dropped
+                            if (annotationType === 'circle') {
+                                const center = {
+                                    x: ring.reduce((sum, p) => sum + p.x, 0) / ring.length,
+                                    y: ring.reduce((sum, p) => sum + p.y, 0) / ring.length
+                                };
+                                const r = ring.reduce((sum, p) => sum + distance(p, center), 0) / ring.length;
+                                addPart('circle', [center, { x: center.x + r, y: center.y }]);
+                            } else if (annotationType === 'rectangle') {
+                                const xs = ring.map(p => p.x);
+                                const ys = ring.map(p => p.y);
+                                addPart('rectangle', rectangleCorners(
+                                    { x: Math.min(...xs), y: Math.min(...ys) },
+                                    { x: Math.max(...xs), y: Math.max(...ys) }
+                                ));
+                            } else {
+                                addPart('polygon', ring);
+                            }
+                        }
+                        break;
+                    }
+                    case 'GeometryCollection':
+                        geometry.geometries.forEach(addGeometry);
+                        break;
+                }
+            };
+            addGeometry(feature.geometry);
+        }
+
+        this.checkpoint();
+        if (replace) {
+            this.annotations = [];
+            this.select(null);
+        }
+        this.annotations.push(...imported);
+        this.changed('import', this.annotations);
+        return imported;
+    }
+
+    /**
+     * Recomputes CRS coordinates, e.g. after a new image changed the georeference.
+     */
+    invalidate() {
+        for (const annotation of this.annotations) this.updateGeo(annotation);
+        this.refresh();
+    }
+
+    // ---------- InteractionTool ----------
+
+    onPointerDown(e: ToolPointerEvent): boolean {
+        this.press = null;
+        if (!this.mode || e.button !== 0) return false;
+        const p = { x: e.worldX, y: e.worldY };
+
+        switch (this.mode) {
+            case 'select': {
+                const selected = this.getSelected();
+                const vertex = selected ? this.hitHandle(selected, p) : null;
+                const target = vertex !== null ? selected : this.hitTest(p);
+                if (!target) {
+                    this.select(null);
+                    return false;
+                }
+                this.select(target.id);
+                this.drag = {
+                    id: target.id,
+                    vertex,
+                    start: p,
+                    original: target.pixel.map(q => ({ ...q })),
+                    before: this.annotations.map(cloneAnnotation),
+                    moved: false
+                };
+                return true;
+            }
+            case 'rectangle':
+            case 'circle':
+                this.draft = { type: this.mode, points: [p, p] };
+                this.refreshEdit();
+                return true;
+            default:
+                // Clicks place vertices, drags still pan
+                this.press = { x: e.x, y: e.y };
+                return false;
+        }
+    }
+
+    onPointerMove(e: ToolPointerEvent): boolean {
+        const p = { x: e.worldX, y: e.worldY };
+
+        if (this.drag) {
+            this.applyDrag(p);
+            return true;
+        }
+        if (this.draft && (this.draft.type === 'rectangle' || this.draft.type === 'circle')) {
+            this.draft.points[1] = p;
+            this.refreshEdit();
+            return true;
+        }
+        if (this.draft) {
+            // Rubber band to the cursor
+            this.cursor = p;
+            this.refreshEdit();
+        }
+        return false;
+    }
+
+    onPointerUp(e: ToolPointerEvent): boolean {
+        const p = { x: e.worldX, y: e.worldY };
+
+        if (this.drag) {
+            const drag = this.drag;
+            this.drag = null;
+            if (drag.moved) {
+                this.pushHistory(drag.before);
+                const annotation = this.getAnnotation(drag.id);
+                // Also puts the dragged shape back into the annotation layer
+                if (annotation) this.changed('update', [annotation]);
+                else this.refresh();
+            }
+            return true;
+        }
+
+        const draft = this.draft;
+        if (draft && (draft.type === 'rectangle' || draft.type === 'circle')) {
+            this.draft = null;
+            const [a, b] = draft.points;
+            const screenSize = distance(a, b) * this.viewport.zoom;
+            if (screenSize > CLICK_TOLERANCE) {
+                this.add(draft.type, draft.type === 'rectangle' ? rectangleCorners(a, b) : [a, b]);
+            } else {
+                this.refreshEdit();
+            }
+            return true;
+        }
+
+        const press = this.press;
+        this.press = null;
+        if (!press || Math.hypot(e.x - press.x, e.y - press.y) > CLICK_TOLERANCE) return false;
+
+        if (this.mode === 'point') {
+            this.add('point', [p]);
+        } else if (this.mode === 'polyline' || this.mode === 'polygon') {
+            if (!this.draft) {
+                this.draft = { type: this.mode, points: [p] };
+            } else if (this.mode === 'polygon' && this.draft.points.length >= 3 &&
+                distance(p, this.draft.points[0]) * this.viewport.zoom <= HIT_TOLERANCE) {
+                this.finish();
+                return true;
+            } else {
+                this.draft.points.push(p);
+            }
+            this.cursor = p;
+            this.refreshEdit();
+        }
+        return true;
+    }
+
+    onDoubleClick(e: ToolPointerEvent): boolean {
+        if (this.draft && (this.draft.type === 'polyline' || this.draft.type === 'polygon')) {
+            this.finish();
+            return true;
+        }
+
+        const selected = this.mode === 'select' ? this.getSelected() : null;
+        if (!selected || (selected.type !== 'polyline' && selected.type !== 'polygon')) return false;
+
+        const p = { x: e.worldX, y: e.worldY };
+        const vertex = this.hitHandle(selected, p);
+        const minimum = selected.type === 'polygon' ? 3 : 2;
+        if (vertex !== null) {
+            if (selected.pixel.length <= minimum) return false;
+            this.update(selected.id, { pixel: selected.pixel.filter((_, i) => i !== vertex) });
+            return true;
+        }
+
+        const edge = this.hitEdge(selected, p);
+        if (edge !== null) {
+            const pixel = selected.pixel.slice();
+            pixel.splice(edge + 1, 0, p);
+            this.update(selected.id, { pixel });
+            return true;
+        }
+        return false;
+    }
+
+    // ---------- Internals ----------
+
+    private create(type: AnnotationType, pixel: Point[], properties: { [key: string]: any }): Annotation {
+        const annotation: Annotation = {
+            id: `annotation-${this.nextId++}`,
+            type,
+            pixel: pixel.map(p => ({ x: p.x, y: p.y })),
+            geo: null,
+            properties: { ...properties }
+        };
+        this.updateGeo(annotation);
+        return annotation;
+    }
+
+    private updateGeo(annotation: Annotation) {
+        const transform = this.getTransform();
+        annotation.geo = transform ? annotation.pixel.map(p => transform.pixelToCrs(p.x, p.y)) : null;
+    }
+
+    private requireTransform(): PixelTransform {
+        const transform = this.getTransform();
+        if (!transform) {
+            throw new Error("CRS coordinates need a georeferenced image.");
+        }
+        return transform;
+    }
+
+    private checkpoint() {
+        this.pushHistory(this.annotations.map(cloneAnnotation));
+    }
+
+    private pushHistory(snapshot: Annotation[]) {
+        this.undoStack.push(snapshot);
+        if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+        this.redoStack = [];
+    }
+
+    private restore(snapshot: Annotation[]) {
+        this.annotations = snapshot;
+        for (const annotation of this.annotations) this.updateGeo(annotation);
+        if (this.selectedId && !this.getSelected()) this.select(null);
+    }
+
+    private changed(type: AnnotationChangeEvent['type'], annotations: Annotation[]) {
+        this.refresh();
+        this.onChange?.({ type, annotations });
+    }
+
+    private applyDrag(p: Point) {
+        const drag = this.drag!;
+        const annotation = this.getAnnotation(drag.id);
+        if (!annotation) return;
+
+        if (!drag.moved && distance(p, drag.start) * this.viewport.zoom <= CLICK_TOLERANCE) return;
+        if (!drag.moved) {
+            // From now on the shape is drawn by the overlay; take it out of the annotation layer once
+            drag.moved = true;
+            this.refreshLayer();
+        }
+
+        const original = drag.original;
+        if (drag.vertex === null) {
+            const dx = p.x - drag.start.x;
+            const dy = p.y - drag.start.y;
+            annotation.pixel = original.map(q => ({ x: q.x + dx, y: q.y + dy }));
+        } else if (annotation.type === 'rectangle') {
+            // Keep the rectangle axis aligned: the opposite corner stays fixed
+            const i = drag.vertex;
+            const o = original[(i + 2) % 4];
+            const pixel = original.map(q => ({ ...q }));
+            pixel[i] = p;
+            pixel[(i + 1) % 4] = i % 2 === 0 ? { x: o.x, y: p.y } : { x: p.x, y: o.y };
+            pixel[(i + 3) % 4] = i % 2 === 0 ? { x: p.x, y: o.y } : { x: o.x, y: p.y };
+            annotation.pixel = pixel;
+        } else {
+            annotation.pixel = original.map((q, i) => i === drag.vertex ? p : { ...q });
+        }
+        this.updateGeo(annotation);
+        this.refreshEdit();
+    }
+
+    /**
+     * Editable vertices of an annotation, as indices into `pixel`.
+     */
+    private handles(annotation: Annotation): number[] {
+        switch (annotation.type) {
+            case 'point': return [];
+            case 'circle': return [1];
+            default: return annotation.pixel.map((_, i) => i);
+        }
+    }
+
+    private hitHandle(annotation: Annotation, p: Point): number | null {
+        const tolerance = HIT_TOLERANCE / this.viewport.zoom;
+        for (const i of this.handles(annotation)) {
+            if (distance(annotation.pixel[i], p) <= tolerance) return i;
+        }
+        return null;
+    }
+
+    /**
+     * Index of the first vertex of the edge under the pointer.
+     */
+    private hitEdge(annotation: Annotation, p: Point): number | null {
+        const tolerance = HIT_TOLERANCE / this.viewport.zoom;
+        const pts = annotation.pixel;
+        const count = annotation.type === 'polyline' ? pts.length - 1 : pts.length;
+        for (let i = 0; i < count; i++) {
+            if (segmentDistance(p, pts[i], pts[(i + 1) % pts.length]) <= tolerance) return i;
+        }
+        return null;
+    }
+
+    /**
+     * Topmost annotation under the pointer.
+     */
+    private hitTest(p: Point): Annotation | null {
+        const tolerance = HIT_TOLERANCE / this.viewport.zoom;
+        for (let i = this.annotations.length - 1; i >= 0; i--) {
+            const a = this.annotations[i];
+            switch (a.type) {
+                case 'point':
+                    if (distance(a.pixel[0], p) <= tolerance + (this.layer.style.pointRadius / this.viewport.zoom)) return a;
+                    break;
+                case 'polyline':
+                    if (this.hitEdge(a, p) !== null) return a;
+                    break;
+                case 'circle':
+                    if (distance(a.pixel[0], p) <= distance(a.pixel[0], a.pixel[1]) + tolerance) return a;
+                    break;
+                default:
+                    if (pointInRing(p, a.pixel) || this.hitEdge(a, p) !== null) return a;
+            }
+        }
+        return null;
+    }
+
+    private toGeometry(type: AnnotationType, pixel: Point[], toPosition: (p: Point) => Position): GeoJSONGeometry {
+        switch (type) {
+            case 'point':
+                return { type: 'Point', coordinates: toPosition(pixel[0]) };
+            case 'polyline':
+                return { type: 'LineString', coordinates: pixel.map(toPosition) };
+            default: {
+                const ring = type === 'circle' ? circleRing(pixel[0], pixel[1]) : pixel;
+                const coordinates = ring.map(toPosition);
+                coordinates.push(coordinates[0]);
+                return { type: 'Polygon', coordinates: [coordinates] };
+            }
+        }
+    }
+
+    /**
+     * Rebuilds both overlay layers from the current state.
+     */
+    private refresh() {
+        this.refreshLayer();
+        this.refreshEdit();
+    }
+
+    /**
+     * Rebuilds the annotation layer. Needed when annotations or the selection change, not on pointer moves.
+     */
+    private refreshLayer() {
+        const dragged = this.drag?.moved ? this.drag.id : null;
+        this.layer.setData({
+            type: 'FeatureCollection',
+            features: this.annotations.filter(a => a.id !== dragged).map(a => ({
+                type: 'Feature', id: a.id, geometry: this.toGeometry(a.type, a.pixel, pixelPosition), properties: null
+            }))
+        });
+    }
+
+    /**
+     * Rebuilds the editing overlay: the draft, the shape being dragged and the vertex handles.
+     */
+    private refreshEdit() {
+        const features: GeoJSONFeature[] = [];
+        const draft = this.draft;
+        if (draft) {
+            let points = draft.points;
+            if ((draft.type === 'polyline' || draft.type === 'polygon') && this.cursor) points = [...points, this.cursor];
+            const type = draft.type === 'polygon' && points.length < 3 ? 'polyline' : draft.type;
+            const pixel = type === 'rectangle' ? rectangleCorners(points[0], points[1]) : points;
+            if (pixel.length >= 2 || type === 'point') {
+                features.push({ type: 'Feature', geometry: this.toGeometry(type, pixel, pixelPosition), properties: null });
+            }
+            features.push({
+                type: 'Feature',
+                geometry: { type: 'MultiPoint', coordinates: draft.points.map(pixelPosition) },
+                properties: { handle: true }
+            });
+        }
+
+        const dragged = this.drag?.moved ? this.getAnnotation(this.drag.id) : null;
+        if (dragged) {
+            features.push({
+                type: 'Feature',
+                geometry: this.toGeometry(dragged.type, dragged.pixel, pixelPosition),
+                properties: { dragged: true }
+            });
+        }
+
+        const selected = this.mode === 'select' ? this.getSelected() : null;
+        if (selected) {
+            features.push({
+                type: 'Feature',
+                geometry: { type: 'MultiPoint', coordinates: this.handles(selected).map(i => pixelPosition(selected.pixel[i])) },
+                properties: { handle: true }
+            });
+        }
+        this.editLayer.setData({ type: 'FeatureCollection', features });
+    }
+}
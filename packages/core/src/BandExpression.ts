@@ -0,0 +1,379 @@
+/**
+ * Band-math expressions such as `(b8 - b4) / (b8 + b4)`.
+ *
+ * Expressions are parsed once in TypeScript and compiled twice: into a WGSL `read_pixel`
+ * function for the tile shader, and into a JS evaluator the decoder worker uses for tile statistics.
+ *
+ * Syntax: band references `b1`..`bN` (1-based), numbers, `+ - * / ^`, parentheses and the
+ * functions listed in FUNCTIONS. Division by zero yields 0.
+ */
+
+export type ExpressionNode =
+    | { type: 'number', value: number }
+    | { type: 'band', band: number } // 0-based band index
+    | { type: 'unary', op: '-', arg: ExpressionNode }
+    | { type: 'binary', op: '+' | '-' | '*' | '/' | '^', left: ExpressionNode, right: ExpressionNode }
+    | { type: 'call', name: string, args: ExpressionNode[] };
+
+/**
+ * Serializable form sent to the decoder worker.
+ */
+export interface CompiledExpression {
+    bands: number[];          // 0-based band indices, in texture slot order (slot 0 holds validity)
+    nodes: ExpressionNode[];  // One per output channel (1 = grayscale, 3 = RGB)
+}
+
+export class ExpressionError extends Error {
+    position: number;
+
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'ExpressionError';
+        this.position = position;
+    }
+}
+
+const FUNCTIONS: { [name: string]: { arity: number, js: (...args: number[]) => number } } = {
+    abs: { arity: 1, js: Math.abs },
+    sqrt: { arity: 1, js: Math.sqrt },
+    exp: { arity: 1, js: Math.exp },
+    log: { arity: 1, js: Math.log },
+    log10: { arity: 1, js: Math.log10 },
+    floor: { arity: 1, js: Math.floor },
+    ceil: { arity: 1, js: Math.ceil },
+    min: { arity: 2, js: Math.min },
+    max: { arity: 2, js: Math.max },
+    pow: { arity: 2, js: Math.pow },
+    clamp: { arity: 3, js: (x, lo, hi) => Math.min(Math.max(x, lo), hi) },
+};
+
+interface Token {
+    kind: 'number' | 'ident' | 'op' | 'end';
+    text: string;
+    position: number;
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const c = source[i];
+        if (/\s/.test(c)) {
+            i++;
+        } else if (/[0-9.]/.test(c)) {
+            const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+            if (!match) throw new ExpressionError(`Invalid number at position ${i + 1}.`, i);
+            tokens.push({ kind: 'number', text: match[0], position: i });
+            i += match[0].length;
+        } else if (/[A-Za-z_]/.test(c)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+            tokens.push({ kind: 'ident', text: match[0], position: i });
+            i += match[0].length;
+        } else if ('+-*/^(),'.includes(c)) {
+            tokens.push({ kind: 'op', text: c, position: i });
+            i++;
+        } else {
+            throw new ExpressionError(`Unexpected character '${c}' at position ${i + 1}.`, i);
+        }
+    }
+    tokens.push({ kind: 'end', text: '', position: source.length });
+    return tokens;
+}
+
+/**
+ * Recursive descent parser. Precedence: + - < * / < unary minus < ^ (right associative).
+ */
+class Parser {
+    private tokens: Token[];
+    private index: number = 0;
+    private bandCount: number;
+
+    constructor(source: string, bandCount: number) {
+        this.tokens = tokenize(source);
+        this.bandCount = bandCount;
+    }
+
+    parse(): ExpressionNode {
+        if (this.peek().kind === 'end') {
+            throw new ExpressionError("Expression is empty.", 0);
+        }
+        const node = this.additive();
+        const next = this.peek();
+        if (next.kind !== 'end') {
+            throw new ExpressionError(`Unexpected '${next.text}' at position ${next.position + 1}.`, next.position);
+        }
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private expect(text: string) {
+        const token = this.next();
+        if (token.text !== text) {
+            const found = token.kind === 'end' ? 'end of expression' : `'${token.text}'`;
+            throw new ExpressionError(`Expected '${text}' at position ${token.position + 1}, found ${found}.`, token.position);
+        }
+    }
+
+    private additive(): ExpressionNode {
+        let node = this.multiplicative();
+        while (this.peek().text === '+' || this.peek().text === '-') {
+            const op = this.next().text as '+' | '-';
+            node = { type: 'binary', op, left: node, right: this.multiplicative() };
+        }
+        return node;
+    }
+
+    private multiplicative(): ExpressionNode {
+        let node = this.unary();
+        while (this.peek().text === '*' || this.peek().text === '/') {
+            const op = this.next().text as '*' | '/';
+            node = { type: 'binary', op, left: node, right: this.unary() };
+        }
+        return node;
+    }
+
+    private unary(): ExpressionNode {
+        if (this.peek().text === '-') {
+            this.next();
+            return { type: 'unary', op: '-', arg: this.unary() };
+        }
+        if (this.peek().text === '+') {
+            this.next();
+            return this.unary();
+        }
+        return this.power();
+    }
+
+    private power(): ExpressionNode {
+        const base = this.primary();
+        if (this.peek().text === '^') {
+            this.next();
+            return { type: 'binary', op: '^', left: base, right: this.unary() };
+        }
+        return base;
+    }
+
+    private primary(): ExpressionNode {
+        const token = this.next();
+
+        if (token.kind === 'number') {
+            return { type: 'number', value: parseFloat(token.text) };
+        }
+
+        if (token.text === '(') {
+            const node = this.additive();
+            this.expect(')');
+            return node;
+        }
+
+        if (token.kind === 'ident') {
+            const name = token.text.toLowerCase();
+
+            const band = /^b(\d+)$/.exec(name);
+            if (band) {
+                const n = parseInt(band[1], 10);
+                if (n < 1 || (this.bandCount > 0 && n > this.bandCount)) {
+                    const available = this.bandCount > 0 ? `the image has ${this.bandCount} band${this.bandCount === 1 ? '' : 's'} (b1-b${this.bandCount})` : 'bands start at b1';
+                    throw new ExpressionError(`Unknown band '${token.text}' at position ${token.position + 1}: ${available}.`, token.position);
+                }
+                return { type: 'band', band: n - 1 };
+            }
+
+            const fn = FUNCTIONS[name];
+            if (!fn) {
+                throw new ExpressionError(
+                    `Unknown identifier '${token.text}' at position ${token.position + 1}. Use b1, b2, ... for bands or one of: ${Object.keys(FUNCTIONS).join(', ')}.`,
+                    token.position
+                );
+            }
+
+            this.expect('(');
+            const args: ExpressionNode[] = [];
+            if (this.peek().text !== ')') {
+                args.push(this.additive());
+                while (this.peek().text === ',') {
+                    this.next();
+                    args.push(this.additive());
+                }
+            }
+            this.expect(')');
+            if (args.length !== fn.arity) {
+                throw new ExpressionError(
+                    `Function '${name}' at position ${token.position + 1} takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}, got ${args.length}.`,
+                    token.position
+                );
+            }
+            return { type: 'call', name, args };
+        }
+
+        const found = token.kind === 'end' ? 'end of expression' : `'${token.text}'`;
+        throw new ExpressionError(`Expected a number, band or function at position ${token.position + 1}, found ${found}.`, token.position);
+    }
+}
+
+function collectBands(node: ExpressionNode, bands: Set<number>) {
+    switch (node.type) {
+        case 'band': bands.add(node.band); break;
+        case 'unary': collectBands(node.arg, bands); break;
+        case 'binary': collectBands(node.left, bands); collectBands(node.right, bands); break;
+        case 'call': node.args.forEach(arg => collectBands(arg, bands)); break;
+    }
+}
+
+function toWGSL(node: ExpressionNode): string {
+    switch (node.type) {
+        case 'number': {
+            const text = String(node.value);
+            return /[.eE]/.test(text) ? text : `${text}.0`;
+        }
+        case 'band': return `b${node.band + 1}`;
+        case 'unary': return `(-${toWGSL(node.arg)})`;
+        case 'binary': {
+            const left = toWGSL(node.left);
+            const right = toWGSL(node.right);
+            if (node.op === '/') return `safe_div(${left}, ${right})`;
+            if (node.op === '^') return `pow(${left}, ${right})`;
+            return `(${left} ${node.op} ${right})`;
+        }
+        case 'call': {
+            const args = node.args.map(toWGSL);
+            if (node.name === 'log10') return `(log(${args[0]}) / log(10.0))`;
+            return `${node.name}(${args.join(', ')})`;
+        }
+    }
+}
+
+/**
+ * Compiles an expression tree into a JS function over band values (indexed by 0-based band).
+ */
+export function compileExpressionFunction(node: ExpressionNode): (bands: ArrayLike<number>) => number {
+    switch (node.type) {
+        case 'number': {
+            const value = node.value;
+            return () => value;
+        }
+        case 'band': {
+            const band = node.band;
+            return bands => bands[band];
+        }
+        case 'unary': {
+            const arg = compileExpressionFunction(node.arg);
+            return bands => -arg(bands);
+        }
+        case 'binary': {
+            const left = compileExpressionFunction(node.left);
+            const right = compileExpressionFunction(node.right);
+            switch (node.op) {
+                case '+': return bands => left(bands) + right(bands);
+                case '-': return bands => left(bands) - right(bands);
+                case '*': return bands => left(bands) * right(bands);
+                case '/': return bands => {
+                    const divisor = right(bands);
+                    return divisor === 0 ? 0 : left(bands) / divisor;
+                };
+                case '^': return bands => Math.pow(left(bands), right(bands));
+            }
+            break;
+        }
+        case 'call': {
+            const fn = FUNCTIONS[node.name].js;
+            const args = node.args.map(compileExpressionFunction);
+            return bands => fn(...args.map(arg => arg(bands)));
+        }
+    }
+    throw new Error(`Invalid expression node.`);
+}
+
+/**
+ * A parsed and validated band-math expression with one or three output channels.
+ */
+export class BandExpression {
+    sources: string[];
+    nodes: ExpressionNode[];
+    bands: number[]; // 0-based band indices read by the expression, ascending
+
+    /**
+     * @param expression - One expression (grayscale, can be colormapped) or three (R, G, B)
+     * @param bandCount - Number of bands in the image, 0 to skip the range check
+     * @throws ExpressionError with the position of the problem
+     */
+    constructor(expression: string | string[], bandCount: number = 0) {
+        this.sources = Array.isArray(expression) ? expression : [expression];
+        if (this.sources.length !== 1 && this.sources.length !== 3) {
+            throw new ExpressionError(`Expected 1 expression or 3 (R, G, B), got ${this.sources.length}.`, 0);
+        }
+
+        this.nodes = this.sources.map((source, i) => {
+            try {
+                return new Parser(source, bandCount).parse();
+            } catch (e) {
+                if (e instanceof ExpressionError && this.sources.length > 1) {
+                    const channel = ['Red', 'Green', 'Blue'][i];
+                    throw new ExpressionError(`${channel} expression: ${e.message}`, e.position);
+                }
+                throw e;
+            }
+        });
+
+        const bands = new Set<number>();
+        this.nodes.forEach(node => collectBands(node, bands));
+        this.bands = Array.from(bands).sort((a, b) => a - b);
+    }
+
+    /**
+     * Texture layout: slot 0 is validity, slot i + 1 holds `bands[i]`; four slots per block
+     * of tile width, blocks side by side.
+     */
+    get blockCount(): number {
+        return Math.ceil((this.bands.length + 1) / 4);
+    }
+
+    toJSON(): CompiledExpression {
+        return { bands: this.bands, nodes: this.nodes };
+    }
+
+    /**
+     * Generates the WGSL `read_pixel` function for the tile shader (see shaders/pixel.wgsl).
+     */
+    toWGSL(): string {
+        const blocks = this.blockCount;
+        const lines: string[] = [];
+        lines.push(`// Generated from: ${this.sources.join(' | ').replace(/\n/g, ' ')}`);
+        lines.push(`fn safe_div(a: f32, b: f32) -> f32 {`);
+        lines.push(`    return select(a / b, 0.0, b == 0.0);`);
+        lines.push(`}`);
+        lines.push(``);
+        lines.push(`fn read_pixel(uv: vec2<f32>) -> vec4<f32> {`);
+        lines.push(`    let size = vec2<i32>(textureDimensions(myTexture));`);
+        lines.push(`    if (size.x < ${blocks}) {`);
+        lines.push(`        return textureLoad(myTexture, vec2<i32>(0, 0), 0); // 1x1 placeholder tile`);
+        lines.push(`    }`);
+        lines.push(`    let dim = vec2<i32>(size.x / ${blocks}, size.y);`);
+        lines.push(`    let px = clamp(vec2<i32>(uv * vec2<f32>(dim)), vec2<i32>(0, 0), dim - vec2<i32>(1, 1));`);
+        for (let block = 0; block < blocks; block++) {
+            lines.push(`    let t${block} = textureLoad(myTexture, px + vec2<i32>(dim.x * ${block}, 0), 0);`);
+        }
+        lines.push(`    if (t0.x <= 0.0) {`);
+        lines.push(`        return vec4<f32>(0.0);`);
+        lines.push(`    }`);
+        const components = ['x', 'y', 'z', 'w'];
+        this.bands.forEach((band, i) => {
+            const slot = i + 1;
+            lines.push(`    let b${band + 1} = t${Math.floor(slot / 4)}.${components[slot % 4]};`);
+        });
+        const outputs = this.nodes.map(toWGSL);
+        outputs.forEach((code, i) => lines.push(`    let v${i} = ${code};`));
+        lines.push(outputs.length === 1
+            ? `    return vec4<f32>(v0, v0, v0, 1.0);`
+            : `    return vec4<f32>(v0, v1, v2, 1.0);`);
+        lines.push(`}`);
+        return lines.join('\n') + '\n';
+    }
+}
@@ -0,0 +1,180 @@
+import { Viewport } from './Viewport';
+import claheShaderSource from './shaders/clahe.wgsl?raw';
+
+const MAX_SOURCE_SIZE = 512; // Long side of the analysis render; histograms do not need full resolution
+
+/**
+ * ClaheProcessor computes Contrast Limited Adaptive Histogram Equalization for the visible area.
+ *
+ * Each update:
+ * 1. Renders the raw values of the visible tiles to a downsampled rgba32float texture (frag_analysis)
+ * 2. Runs a compute pass that bins every screen region into a histogram per channel,
+ *    clips it at the clip limit and writes the CDF into the shared LUT buffer
+ *
+ * The tile shader then interpolates between the LUTs of the four nearest regions.
+ */
+export class ClaheProcessor {
+    private device: GPUDevice;
+    private pipelineLayout: GPUPipelineLayout;
+    private sourcePipeline: GPURenderPipeline;
+    private computePipeline: GPUComputePipeline;
+    private paramsBuffer: GPUBuffer;
+    private lutBuffer: GPUBuffer;
+    private sourceTexture: GPUTexture | null = null;
+    private computeBindGroup: GPUBindGroup | null = null;
+    private lastSignature: string = '';
+
+    /**
+     * @param device - WebGPU device
+     * @param shaderModule - Tile shader module containing the frag_analysis entry point
+     * @param pipelineLayout - Shared tile pipeline layout
+     * @param lutBuffer - Storage buffer receiving MAX_CLAHE_TILES² × 3 LUTs of LUT_BINS floats
+     */
+    constructor(device: GPUDevice, shaderModule: GPUShaderModule, pipelineLayout: GPUPipelineLayout, lutBuffer: GPUBuffer) {
+        this.device = device;
+        this.pipelineLayout = pipelineLayout;
+        this.lutBuffer = lutBuffer;
+        this.sourcePipeline = this.createSourcePipeline(shaderModule);
+
+        this.computePipeline = device.createComputePipeline({
+            layout: 'auto',
+            compute: {
+                module: device.createShaderModule({ code: claheShaderSource }),
+                entryPoint: 'build_luts',
+            },
+        });
+
+        this.paramsBuffer = device.createBuffer({
+            size: 48,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+    }
+
+    private createSourcePipeline(shaderModule: GPUShaderModule): GPURenderPipeline {
+        return this.device.createRenderPipeline({
+            layout: this.pipelineLayout,
+            vertex: {
+                module: shaderModule,
+                entryPoint: 'vert_main',
+            },
+            fragment: {
+                module: shaderModule,
+                entryPoint: 'frag_analysis',
+                targets: [{ format: 'rgba32float' }],
+            },
+            primitive: {
+                topology: 'triangle-list',
+            },
+        });
+    }
+
+    /**
+     * Rebuilds the source pipeline, e.g. when a band-math expression changes the pixel read.
+     */
+    setShaderModule(shaderModule: GPUShaderModule): void {
+        this.sourcePipeline = this.createSourcePipeline(shaderModule);
+        this.lastSignature = '';
+    }
+
+    /**
+     * Recomputes the region LUTs when the view, tiles, range or parameters changed.
+     *
+     * @param visibleTiles - Tiles drawn this frame
+     * @param viewport - Current viewport
+     * @param globalBindGroup - Bind group 0 of the tile pipeline
+     * @param tileManagerVersion - Version number from TileManager
+     * @param range - Display range the LUTs cover
+     * @param tiles - Regions per side (1 to MAX_CLAHE_TILES)
+     * @param clipLimit - Histogram clip limit as a multiple of the mean bin count
+     */
+    update(
+        visibleTiles: any[],
+        viewport: Viewport,
+        globalBindGroup: GPUBindGroup,
+        tileManagerVersion: number,
+        range: { min: number[], max: number[] },
+        tiles: number,
+        clipLimit: number
+    ): void {
+        const signature = JSON.stringify([
+            viewport.center[0], viewport.center[1], viewport.zoom, viewport.rotation, viewport.size[0], viewport.size[1],
+            tileManagerVersion, range.min, range.max, tiles, clipLimit
+        ]);
+        if (signature === this.lastSignature) return;
+        this.lastSignature = signature;
+
+        this.ensureSourceTexture(viewport.size[0], viewport.size[1]);
+
+        this.device.queue.writeBuffer(this.paramsBuffer, 0, new Float32Array([
+            range.min[0], range.min[1], range.min[2], 0,
+            range.max[0], range.max[1], range.max[2], 0,
+            tiles, tiles, clipLimit, 0
+        ]));
+
+        const commandEncoder = this.device.createCommandEncoder();
+
+        const renderPass = commandEncoder.beginRenderPass({
+            colorAttachments: [{
+                view: this.sourceTexture!.createView(),
+                loadOp: 'clear',
+                clearValue: { r: 0, g: 0, b: 0, a: 0 },
+                storeOp: 'store'
+            }]
+        });
+        renderPass.setPipeline(this.sourcePipeline);
+        renderPass.setBindGroup(0, globalBindGroup);
+        for (const tile of visibleTiles) {
+            if (tile.id === 'background') continue; // Placeholder would count as valid pixels
+            if (tile.bindGroup) {
+                renderPass.setBindGroup(1, tile.bindGroup);
+                renderPass.draw(6, 1, 0, 0);
+            }
+        }
+        renderPass.end();
+
+        const computePass = commandEncoder.beginComputePass();
+        computePass.setPipeline(this.computePipeline);
+        computePass.setBindGroup(0, this.computeBindGroup!);
+        computePass.dispatchWorkgroups(tiles * tiles, 3);
+        computePass.end();
+
+        this.device.queue.submit([commandEncoder.finish()]);
+    }
+
+    private ensureSourceTexture(canvasWidth: number, canvasHeight: number) {
+        const scale = Math.min(1, MAX_SOURCE_SIZE / Math.max(canvasWidth, canvasHeight));
+        const width = Math.max(1, Math.round(canvasWidth * scale));
+        const height = Math.max(1, Math.round(canvasHeight * scale));
+        if (this.sourceTexture && this.sourceTexture.width === width && this.sourceTexture.height === height) return;
+
+        this.sourceTexture?.destroy();
+        this.sourceTexture = this.device.createTexture({
+            size: [width, height, 1],
+            format: 'rgba32float',
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+        });
+        this.computeBindGroup = this.device.createBindGroup({
+            layout: this.computePipeline.getBindGroupLayout(0),
+            entries: [
+                { binding: 0, resource: { buffer: this.paramsBuffer } },
+                { binding: 1, resource: this.sourceTexture.createView() },
+                { binding: 2, resource: { buffer: this.lutBuffer } },
+            ],
+        });
+    }
+
+    /**
+     * Forces a recomputation on the next update, e.g. after the LUT buffer was overwritten.
+     */
+    invalidate(): void {
+        this.lastSignature = '';
+    }
+
+    /**
+     * Cleans up GPU resources.
+     */
+    destroy(): void {
+        this.sourceTexture?.destroy();
+        this.paramsBuffer.destroy();
+    }
+}
@@ -0,0 +1,196 @@
+import { Color, packColor } from './VectorLayer';
+
+/**
+ * A color stop; `value` is the position along the display range (0 = min, 1 = max).
+ */
+export interface ColormapStop {
+    value: number;
+    color: Color;
+}
+
+export type ColormapMode = 'continuous' | 'discrete';
+
+export interface ColormapOptions {
+    mode: ColormapMode;
+    classes: number | null; // Discrete class count. Null: one class per stop for custom ramps, 8 for built-in ones
+    reverse: boolean;
+}
+
+/**
+ * Legend data in data values of the current display range.
+ */
+export interface ColormapLegend {
+    name: string | null;
+    mode: ColormapMode;
+    min: number;
+    max: number;
+    stops: { value: number, color: string }[];             // Continuous ramp stops
+    classes: { min: number, max: number, color: string }[]; // Discrete classes (empty when continuous)
+}
+
+const evenStops = (colors: string[]): ColormapStop[] =>
+    colors.map((color, i) => ({ value: i / (colors.length - 1), color }));
+
+/**
+ * Built-in ramps. Matplotlib / ColorBrewer anchor colors, interpolated in RGB.
+ */
+export const COLORMAPS: { [name: string]: ColormapStop[] } = {
+    viridis: evenStops(['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725']),
+    magma: evenStops(['#000004', '#180f3d', '#440f76', '#721f81', '#9e2f7f', '#cd4071', '#f1605d', '#fd9668', '#feca8d', '#fcfdbf']),
+    terrain: [
+        { value: 0, color: '#333399' },
+        { value: 0.15, color: '#0099ff' },
+        { value: 0.25, color: '#00cc66' },
+        { value: 0.5, color: '#ffff99' },
+        { value: 0.75, color: '#805c54' },
+        { value: 1, color: '#ffffff' }
+    ],
+    jet: [
+        { value: 0, color: '#000080' },
+        { value: 0.125, color: '#0000ff' },
+        { value: 0.375, color: '#00ffff' },
+        { value: 0.625, color: '#ffff00' },
+        { value: 0.875, color: '#ff0000' },
+        { value: 1, color: '#800000' }
+    ],
+    RdYlGn: evenStops(['#a50026', '#d73027', '#f46d43', '#fdae61', '#fee08b', '#ffffbf', '#d9ef8b', '#a6d96a', '#66bd63', '#1a9850', '#006837'])
+};
+
+export const LUT_SIZE = 256;
+const DEFAULT_CLASSES = 8;
+
+function toBytes(color: Color): number[] {
+    const packed = packColor(color);
+    return [packed & 0xff, (packed >>> 8) & 0xff, (packed >>> 16) & 0xff, packed >>> 24];
+}
+
+function toHex(rgba: number[]): string {
+    const hex = (v: number) => Math.round(v).toString(16).padStart(2, '0');
+    return `#${hex(rgba[0])}${hex(rgba[1])}${hex(rgba[2])}${rgba[3] < 255 ? hex(rgba[3]) : ''}`;
+}
+
+/**
+ * A color ramp applied to the stretched value of the first channel.
+ * Sampled into a LUT_SIZE entry lookup table that the tile shader indexes.
+ */
+export class Colormap {
+    name: string | null;
+    stops: { value: number, rgba: number[] }[];
+    options: ColormapOptions;
+
+    /**
+     * @param source - Built-in ramp name or custom stops (values 0-1, ascending)
+     */
+    constructor(source: string | ColormapStop[], options: Partial<ColormapOptions> = {}) {
+        this.options = { mode: 'continuous', classes: null, reverse: false, ...options };
+
+        let stops: ColormapStop[];
+        if (typeof source === 'string') {
+            const builtIn = COLORMAPS[source];
+            if (!builtIn) {
+                throw new Error(`Unknown colormap "${source}". Available: ${Object.keys(COLORMAPS).join(', ')}.`);
+            }
+            this.name = source;
+            stops = builtIn;
+        } else {
+            this.name = null;
+            stops = source;
+        }
+
+        if (stops.length < 2) {
+            throw new Error("A colormap needs at least two stops.");
+        }
+        for (let i = 0; i < stops.length; i++) {
+            const v = stops[i].value;
+            if (!(v >= 0 && v <= 1) || (i > 0 && v < stops[i - 1].value)) {
+                throw new Error("Colormap stop values must be ascending and between 0 and 1.");
+            }
+        }
+        if (this.options.classes !== null && !(this.options.classes >= 1 && this.options.classes <= LUT_SIZE)) {
+            throw new Error(`Colormap classes must be between 1 and ${LUT_SIZE}.`);
+        }
+
+        this.stops = stops.map(s => ({ value: s.value, rgba: toBytes(s.color) }));
+        if (this.options.reverse) {
+            this.stops = this.stops.map(s => ({ value: 1 - s.value, rgba: s.rgba })).reverse();
+        }
+    }
+
+    /**
+     * Interpolated color at position t (0-1), as RGBA bytes.
+     */
+    colorAt(t: number): number[] {
+        const stops = this.stops;
+        if (t <= stops[0].value) return stops[0].rgba;
+        for (let i = 1; i < stops.length; i++) {
+            const b = stops[i];
+            if (t <= b.value) {
+                const a = stops[i - 1];
+                const f = b.value > a.value ? (t - a.value) / (b.value - a.value) : 1;
+                return a.rgba.map((v, c) => v + (b.rgba[c] - v) * f);
+            }
+        }
+        return stops[stops.length - 1].rgba;
+    }
+
+    /**
+     * Discrete classes as position ranges along the display range.
+     */
+    getClasses(): { start: number, end: number, rgba: number[] }[] {
+        let classes = this.options.classes;
+        if (classes === null && this.name === null) {
+            // Custom ramp: each stop starts a class that runs to the next stop (a final stop at 1 only closes the last class)
+            const steps = this.stops
+                .map((s, i) => ({ start: s.value, end: this.stops[i + 1]?.value ?? 1, rgba: s.rgba }))
+                .filter(c => c.end > c.start);
+            return steps.length ? steps : [{ start: 0, end: 1, rgba: this.stops[0].rgba }];
+        }
+        classes = classes ?? DEFAULT_CLASSES;
+        const result = [];
+        for (let k = 0; k < classes; k++) {
+            result.push({ start: k / classes, end: (k + 1) / classes, rgba: this.colorAt(classes > 1 ? k / (classes - 1) : 0.5) });
+        }
+        return result;
+    }
+
+    /**
+     * Builds the RGBA8 lookup table. Entry i covers positions [i, i + 1) / LUT_SIZE.
+     */
+    buildLUT(): Uint8Array<ArrayBuffer> {
+        const lut = new Uint8Array(LUT_SIZE * 4);
+        const classes = this.options.mode === 'discrete' ? this.getClasses() : null;
+        for (let i = 0; i < LUT_SIZE; i++) {
+            const t = (i + 0.5) / LUT_SIZE;
+            let rgba: number[];
+            if (classes) {
+                const found = classes.find(c => t < c.end) || classes[classes.length - 1];
+                rgba = t < classes[0].start ? classes[0].rgba : found.rgba;
+            } else {
+                rgba = this.colorAt(t);
+            }
+            lut.set(rgba.map(Math.round), i * 4);
+        }
+        return lut;
+    }
+
+    /**
+     * Legend entries for a display range.
+     * @param min - Data value mapped to position 0
+     * @param max - Data value mapped to position 1
+     * @param invert - Maps a ramp position back to the linear position in the range (inverse of the stretch)
+     */
+    getLegend(min: number, max: number, invert: (t: number) => number = t => t): ColormapLegend {
+        const toValue = (t: number) => min + invert(t) * (max - min);
+        const discrete = this.options.mode === 'discrete';
+        return {
+            name: this.name,
+            mode: this.options.mode,
+            min,
+            max,
+            stops: this.stops.map(s => ({ value: toValue(s.value), color: toHex(s.rgba) })),
+            classes: discrete
+                ? this.getClasses().map(c => ({ min: toValue(c.start), max: toValue(c.end), color: toHex(c.rgba) }))
+                : []
+        };
+    }
+}
@@ -0,0 +1,192 @@
+import { Viewport } from './Viewport';
+import { InteractionTool, ToolPointerEvent } from './InteractionHandler';
+import { ImageLayer } from './ImageLayer';
+import { GeoJSON, VectorLayer } from './VectorLayer';
+
+export type CompareMode = 'swipe' | 'spyglass';
+
+export interface CompareOptions {
+    mode: CompareMode;
+    orientation: 'vertical' | 'horizontal'; // 'swipe': a vertical divider splits left/right, a horizontal one top/bottom
+    position: number;                       // 'swipe': divider position, 0-1 across the canvas
+    radius: number;                         // 'spyglass': circle radius in canvas buffer pixels
+    draggable: boolean;                     // 'swipe': move the divider with the pointer
+}
+
+export const DEFAULT_COMPARE: CompareOptions = {
+    mode: 'swipe',
+    orientation: 'vertical',
+    position: 0.5,
+    radius: 150,
+    draggable: true
+};
+
+const DIVIDER_TOLERANCE = 8; // Canvas pixels around the divider that start a drag
+const RING_SEGMENTS = 96;
+
+/**
+ * CompareController reveals one layer over the layers below it: on the right of (below) a swipe
+ * divider, or inside a spy-glass circle that follows the cursor.
+ *
+ * The renderer clips the layer with a scissor rectangle, plus a circular mask in the tile shader
+ * for the spy-glass. As an interaction tool it drags the divider; other input goes to `next`.
+ */
+export class CompareController implements InteractionTool {
+    layer: ImageLayer;
+    options: CompareOptions;
+    next: InteractionTool | null = null;
+    onChange: ((options: CompareOptions) => void) | null = null;
+
+    // Divider or spy-glass ring, in world coordinates
+    readonly overlay: VectorLayer = new VectorLayer(
+        { type: 'FeatureCollection', features: [] },
+        { strokeColor: '#ffffff', strokeWidth: 2, strokeOpacity: 0.9, fillOpacity: 0 }
+    );
+
+    private canvas: HTMLCanvasElement;
+    private cursor: { x: number, y: number } | null = null; // Canvas buffer pixels
+    private dragging: boolean = false;
+    private overlaySignature: string = '';
+
+    constructor(canvas: HTMLCanvasElement, layer: ImageLayer, options: Partial<CompareOptions> = {}) {
+        this.canvas = canvas;
+        this.layer = layer;
+        this.options = { ...DEFAULT_COMPARE };
+        this.setOptions(options);
+    }
+
+    /**
+     * Updates the mode, divider or radius.
+     * @param options - Options not given keep their current value
+     */
+    setOptions(options: Partial<CompareOptions>) {
+        const merged = { ...this.options, ...options };
+        if (merged.mode !== 'swipe' && merged.mode !== 'spyglass') {
+            throw new Error(`Unknown compare mode "${merged.mode}". Available: swipe, spyglass.`);
+        }
+        if (merged.orientation !== 'vertical' && merged.orientation !== 'horizontal') {
+            throw new Error("Compare orientation must be 'vertical' or 'horizontal'.");
+        }
+        if (!(merged.position >= 0 && merged.position <= 1)) {
+            throw new Error("Compare position must be between 0 and 1.");
+        }
+        if (!(merged.radius > 0)) {
+            throw new Error("Compare radius must be positive.");
+        }
+        this.options = merged;
+        this.onChange?.({ ...this.options });
+    }
+
+    /**
+     * Center of the spy-glass: the last cursor position, or the canvas center.
+     */
+    private get center(): { x: number, y: number } {
+        return this.cursor || { x: this.canvas.width / 2, y: this.canvas.height / 2 };
+    }
+
+    /**
+     * Scissor rectangle of the compared layer in canvas pixels, or null when none of it shows.
+     */
+    clipRect(): { x: number, y: number, width: number, height: number } | null {
+        const width = this.canvas.width;
+        const height = this.canvas.height;
+        let rect: { x: number, y: number, width: number, height: number };
+        if (this.options.mode === 'swipe') {
+            if (this.options.orientation === 'vertical') {
+                const x = Math.round(this.options.position * width);
+                rect = { x, y: 0, width: width - x, height };
+            } else {
+                const y = Math.round(this.options.position * height);
+                rect = { x: 0, y, width, height: height - y };
+            }
+        } else {
+            // Bounding square of the circle; the shader masks the corners
+            const { x: cx, y: cy } = this.center;
+            const r = this.options.radius;
+            const x0 = Math.max(0, Math.floor(cx - r));
+            const y0 = Math.max(0, Math.floor(cy - r));
+            const x1 = Math.min(width, Math.ceil(cx + r));
+            const y1 = Math.min(height, Math.ceil(cy + r));
+            rect = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+        }
+        return rect.width > 0 && rect.height > 0 ? rect : null;
+    }
+
+    /**
+     * Circular mask (center x, y and radius in canvas pixels) for the tile shader, or null for the swipe.
+     */
+    clipCircle(): number[] | null {
+        if (this.options.mode !== 'spyglass') return null;
+        const { x, y } = this.center;
+        return [x, y, this.options.radius];
+    }
+
+    /**
+     * Rebuilds the divider or ring overlay when the view or the compare geometry changed.
+     */
+    updateOverlay(viewport: Viewport) {
+        const { mode, orientation, position, radius } = this.options;
+        const { x: cx, y: cy } = this.center;
+        const width = this.canvas.width;
+        const height = this.canvas.height;
+        const signature = JSON.stringify([viewport.center[0], viewport.center[1], viewport.zoom, viewport.rotation, width, height, mode, orientation, position, radius, cx, cy]);
+        if (signature === this.overlaySignature) return;
+        this.overlaySignature = signature;
+
+        const toWorld = (x: number, y: number) => {
+            const world = viewport.screenToWorld(x, y);
+            return [world.x, world.y];
+        };
+        let geometry: GeoJSON;
+        if (mode === 'swipe') {
+            geometry = orientation === 'vertical'
+                ? { type: 'LineString', coordinates: [toWorld(position * width, 0), toWorld(position * width, height)] }
+                : { type: 'LineString', coordinates: [toWorld(0, position * height), toWorld(width, position * height)] };
+        } else {
+            const ring: number[][] = [];
+            for (let i = 0; i <= RING_SEGMENTS; i++) {
+                const angle = (i / RING_SEGMENTS) * 2 * Math.PI;
+                ring.push(toWorld(cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)));
+            }
+            geometry = { type: 'LineString', coordinates: ring };
+        }
+        this.overlay.setData(geometry);
+    }
+
+    private nearDivider(e: ToolPointerEvent): boolean {
+        const { orientation, position } = this.options;
+        return orientation === 'vertical'
+            ? Math.abs(e.x - position * this.canvas.width) <= DIVIDER_TOLERANCE
+            : Math.abs(e.y - position * this.canvas.height) <= DIVIDER_TOLERANCE;
+    }
+
+    onPointerDown(e: ToolPointerEvent): boolean {
+        if (this.options.mode === 'swipe' && this.options.draggable && e.button === 0 && this.nearDivider(e)) {
+            this.dragging = true;
+            return true;
+        }
+        return this.next?.onPointerDown?.(e) || false;
+    }
+
+    onPointerMove(e: ToolPointerEvent): boolean {
+        this.cursor = { x: e.x, y: e.y };
+        if (this.dragging) {
+            const fraction = this.options.orientation === 'vertical' ? e.x / this.canvas.width : e.y / this.canvas.height;
+            this.setOptions({ position: Math.max(0, Math.min(1, fraction)) });
+            return true;
+        }
+        return this.next?.onPointerMove?.(e) || false;
+    }
+
+    onPointerUp(e: ToolPointerEvent): boolean {
+        if (this.dragging) {
+            this.dragging = false;
+            return true;
+        }
+        return this.next?.onPointerUp?.(e) || false;
+    }
+
+    onDoubleClick(e: ToolPointerEvent): boolean {
+        return this.next?.onDoubleClick?.(e) || false;
+    }
+}
@@ -0,0 +1,246 @@
+import { AffineTransform, PixelTransform, Point } from './GeoTransform';
+
+/**
+ * Ground control point: a full resolution pixel position and its CRS coordinates.
+ */
+export interface GCP {
+    pixelX: number;
+    pixelY: number;
+    x: number;
+    y: number;
+    z?: number;
+}
+
+/**
+ * 'auto' picks a second-order polynomial with 6+ points, otherwise first-order.
+ */
+export type GCPMethod = 'auto' | 'affine' | 'polynomial1' | 'polynomial2' | 'tps';
+
+export interface GCPResidual {
+    gcp: GCP;
+    dx: number;      // Forward error (fitted - actual) in CRS units
+    dy: number;
+    pixelDx: number; // Inverse error (fitted - actual) in pixels
+    pixelDy: number;
+}
+
+/**
+ * Fit quality of a GCP transform. Thin-plate splines interpolate exactly, so their residuals are zero.
+ */
+export interface GCPFit {
+    method: Exclude<GCPMethod, 'auto'>;
+    residuals: GCPResidual[];
+    rms: number;      // CRS units
+    pixelRms: number; // Pixels
+}
+
+type Mapping = (u: number, v: number) => Point;
+
+/**
+ * Solves A x = b with Gaussian elimination and partial pivoting.
+ */
+function solve(A: number[][], b: number[]): number[] {
+    const n = b.length;
+    const m = A.map((row, i) => [...row, b[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) {
+            throw new Error("GCPs are degenerate (collinear or duplicated).");
+        }
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+
+        for (let row = col + 1; row < n; row++) {
+            const f = m[row][col] / m[col][col];
+            for (let k = col; k <= n; k++) m[row][k] -= f * m[col][k];
+        }
+    }
+
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = m[row][n];
+        for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+        x[row] = sum / m[row][row];
+    }
+    return x;
+}
+
+/**
+ * Centers and scales source coordinates to keep the fitted systems well conditioned.
+ */
+function normalizer(points: Point[]) {
+    const mx = points.reduce((s, p) => s + p.x, 0) / points.length;
+    const my = points.reduce((s, p) => s + p.y, 0) / points.length;
+    let scale = 0;
+    for (const p of points) scale = Math.max(scale, Math.abs(p.x - mx), Math.abs(p.y - my));
+    if (scale === 0) scale = 1;
+    return { mx, my, scale, apply: (x: number, y: number): Point => ({ x: (x - mx) / scale, y: (y - my) / scale }) };
+}
+
+function polynomialTerms(u: number, v: number, order: 1 | 2): number[] {
+    return order === 1 ? [1, u, v] : [1, u, v, u * u, u * v, v * v];
+}
+
+/**
+ * Least-squares polynomial fit from src to dst.
+ */
+function fitPolynomial(src: Point[], dst: Point[], order: 1 | 2) {
+    const norm = normalizer(src);
+    const rows = src.map(p => {
+        const n = norm.apply(p.x, p.y);
+        return polynomialTerms(n.x, n.y, order);
+    });
+    const size = rows[0].length;
+    if (src.length < size) {
+        throw new Error(`Order ${order} polynomial needs at least ${size} GCPs, got ${src.length}.`);
+    }
+
+    // Normal equations
+    const ata: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+    const atx = new Array(size).fill(0);
+    const aty = new Array(size).fill(0);
+    rows.forEach((row, i) => {
+        for (let r = 0; r < size; r++) {
+            for (let c = 0; c < size; c++) ata[r][c] += row[r] * row[c];
+            atx[r] += row[r] * dst[i].x;
+            aty[r] += row[r] * dst[i].y;
+        }
+    });
+    const cx = solve(ata, atx);
+    const cy = solve(ata, aty);
+
+    const map: Mapping = (u, v) => {
+        const n = norm.apply(u, v);
+        const t = polynomialTerms(n.x, n.y, order);
+        let x = 0, y = 0;
+        for (let i = 0; i < size; i++) {
+            x += cx[i] * t[i];
+            y += cy[i] * t[i];
+        }
+        return { x, y };
+    };
+    return { map, cx, cy, norm };
+}
+
+/**
+ * Thin-plate spline interpolating src exactly onto dst.
+ */
+function fitThinPlate(src: Point[], dst: Point[]): Mapping {
+    const n = src.length;
+    if (n < 3) {
+        throw new Error(`Thin-plate spline needs at least 3 GCPs, got ${n}.`);
+    }
+    const norm = normalizer(src);
+    const pts = src.map(p => norm.apply(p.x, p.y));
+    const U = (dx: number, dy: number) => {
+        const r2 = dx * dx + dy * dy;
+        return r2 === 0 ? 0 : r2 * Math.log(r2);
+    };
+
+    const size = n + 3;
+    const A: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) A[i][j] = U(pts[i].x - pts[j].x, pts[i].y - pts[j].y);
+        A[i][n] = A[n][i] = 1;
+        A[i][n + 1] = A[n + 1][i] = pts[i].x;
+        A[i][n + 2] = A[n + 2][i] = pts[i].y;
+    }
+    const wx = solve(A, [...dst.map(p => p.x), 0, 0, 0]);
+    const wy = solve(A, [...dst.map(p => p.y), 0, 0, 0]);
+
+    return (u, v) => {
+        const q = norm.apply(u, v);
+        let x = wx[n] + wx[n + 1] * q.x + wx[n + 2] * q.y;
+        let y = wy[n] + wy[n + 1] * q.x + wy[n + 2] * q.y;
+        for (let i = 0; i < n; i++) {
+            const k = U(q.x - pts[i].x, q.y - pts[i].y);
+            x += wx[i] * k;
+            y += wy[i] * k;
+        }
+        return { x, y };
+    };
+}
+
+/**
+ * Pixel <-> CRS transform fitted to ground control points.
+ * Forward and inverse mappings are fitted separately, except for 'affine' which is inverted exactly.
+ */
+export class GCPTransform implements PixelTransform {
+    gcps: GCP[];
+    fit: GCPFit;
+    affine: AffineTransform | null = null;
+    private forward: Mapping;
+    private inverse: Mapping;
+
+    constructor(gcps: GCP[], method: GCPMethod = 'auto') {
+        if (gcps.length < 3) {
+            throw new Error(`At least 3 GCPs are required, got ${gcps.length}.`);
+        }
+        this.gcps = gcps;
+
+        const resolved: GCPFit['method'] = method === 'auto'
+            ? (gcps.length >= 6 ? 'polynomial2' : 'polynomial1')
+            : method;
+
+        const pixels = gcps.map(g => ({ x: g.pixelX, y: g.pixelY }));
+        const coords = gcps.map(g => ({ x: g.x, y: g.y }));
+
+        if (resolved === 'affine') {
+            const { cx, cy, norm } = fitPolynomial(pixels, coords, 1);
+            const s = norm.scale;
+            const affine = new AffineTransform([
+                cx[0] - (cx[1] * norm.mx + cx[2] * norm.my) / s, cx[1] / s, cx[2] / s,
+                cy[0] - (cy[1] * norm.mx + cy[2] * norm.my) / s, cy[1] / s, cy[2] / s
+            ]);
+            this.affine = affine;
+            this.forward = (u, v) => affine.pixelToCrs(u, v);
+            this.inverse = (u, v) => affine.crsToPixel(u, v);
+        } else if (resolved === 'tps') {
+            this.forward = fitThinPlate(pixels, coords);
+            this.inverse = fitThinPlate(coords, pixels);
+        } else {
+            const order = resolved === 'polynomial2' ? 2 : 1;
+            this.forward = fitPolynomial(pixels, coords, order).map;
+            this.inverse = fitPolynomial(coords, pixels, order).map;
+        }
+
+        this.fit = this.computeFit(resolved);
+    }
+
+    pixelToCrs(x: number, y: number): Point {
+        return this.forward(x, y);
+    }
+
+    crsToPixel(x: number, y: number): Point {
+        return this.inverse(x, y);
+    }
+
+    private computeFit(method: GCPFit['method']): GCPFit {
+        let sumSq = 0;
+        let pixelSumSq = 0;
+        const residuals = this.gcps.map(gcp => {
+            const crs = this.forward(gcp.pixelX, gcp.pixelY);
+            const px = this.inverse(gcp.x, gcp.y);
+            const r: GCPResidual = {
+                gcp,
+                dx: crs.x - gcp.x,
+                dy: crs.y - gcp.y,
+                pixelDx: px.x - gcp.pixelX,
+                pixelDy: px.y - gcp.pixelY
+            };
+            sumSq += r.dx * r.dx + r.dy * r.dy;
+            pixelSumSq += r.pixelDx * r.pixelDx + r.pixelDy * r.pixelDy;
+            return r;
+        });
+
+        return {
+            method,
+            residuals,
+            rms: Math.sqrt(sumSq / residuals.length),
+            pixelRms: Math.sqrt(pixelSumSq / residuals.length)
+        };
+    }
+}
@@ -0,0 +1,70 @@
+import type { GCP } from './GCPTransform';
+
+/**
+ * Georeferencing support: transforms between full resolution image pixels and the image CRS.
+ *
+ * Pixel coordinates follow the renderer's world space: (0, 0) is the top-left corner
+ * of the first pixel and (width, height) the bottom-right corner of the last one.
+ */
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Georeferencing information parsed from the GeoTIFF tags.
+ */
+export interface GeoInfo {
+    geoTransform: number[] | null; // GDAL order: [originX, pixelWidth, rowRotation, originY, columnRotation, pixelHeight]
+    epsg: number | null;           // EPSG code of the projected or geographic CRS, null when user-defined or missing
+    rasterType: 'area' | 'point';  // GTRasterTypeGeoKey (PixelIsArea / PixelIsPoint)
+    geoKeys: Record<string, any>;  // Raw GeoKeys as parsed by geotiff.js
+    gcps: GCP[];                   // Tie points or four-corner coordinates when there is no geotransform
+    gcpEpsg: number | null;        // CRS of the GCPs (4326 for four-corner lat/lon)
+}
+
+/**
+ * A transform between image pixels and a CRS.
+ */
+export interface PixelTransform {
+    pixelToCrs(x: number, y: number): Point;
+    crsToPixel(x: number, y: number): Point;
+}
+
+/**
+ * Affine transform defined by a GDAL style geotransform.
+ */
+export class AffineTransform implements PixelTransform {
+    coefficients: number[];
+    private inverse: number[];
+
+    constructor(geoTransform: number[]) {
+        this.coefficients = geoTransform.slice(0, 6);
+        const [, a, b, , d, e] = this.coefficients;
+        const det = a * e - b * d;
+        if (det === 0) {
+            throw new Error("Geotransform is not invertible.");
+        }
+        this.inverse = [e / det, -b / det, -d / det, a / det];
+    }
+
+    pixelToCrs(x: number, y: number): Point {
+        const gt = this.coefficients;
+        return {
+            x: gt[0] + x * gt[1] + y * gt[2],
+            y: gt[3] + x * gt[4] + y * gt[5]
+        };
+    }
+
+    crsToPixel(x: number, y: number): Point {
+        const gt = this.coefficients;
+        const [ia, ib, id, ie] = this.inverse;
+        const dx = x - gt[0];
+        const dy = y - gt[3];
+        return {
+            x: ia * dx + ib * dy,
+            y: id * dx + ie * dy
+        };
+    }
+}
@@ -0,0 +1,196 @@
+const INF = 1e20;
+
+export interface Glyph {
+    char: string;
+    x: number;       // Atlas position and size in atlas pixels (including the SDF buffer)
+    y: number;
+    width: number;
+    height: number;
+    advance: number; // Horizontal advance in atlas pixels
+}
+
+/**
+ * GlyphAtlas rasterizes glyphs of a locally available font with Canvas 2D and converts them
+ * to signed distance fields, packed into a single r8unorm texture.
+ *
+ * Glyphs are added on demand. SDF values follow the TinySDF convention: the glyph edge sits at
+ * `1 - cutoff` (0.75), values fall off by `1 / radius` per atlas pixel outside the glyph.
+ */
+export class GlyphAtlas {
+    readonly fontFamily: string;
+    readonly fontSize: number;
+    readonly buffer: number;
+    readonly radius: number;
+    readonly cutoff: number = 0.25;
+    readonly size: number;
+
+    texture: GPUTexture;
+    private device: GPUDevice;
+    private pixels: Uint8Array<ArrayBuffer>;
+    private glyphs: Map<string, Glyph | null> = new Map();
+    private dirty: boolean = false;
+
+    // Shelf packing state
+    private shelfX: number = 0;
+    private shelfY: number = 0;
+    private shelfHeight: number = 0;
+
+    private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+    private cellSize: number;
+
+    // Scratch buffers for the distance transform
+    private gridOuter: Float64Array;
+    private gridInner: Float64Array;
+    private f: Float64Array;
+    private z: Float64Array;
+    private v: Uint16Array;
+
+    constructor(device: GPUDevice, fontFamily: string = 'sans-serif', fontSize: number = 32, buffer: number = 4, radius: number = 8, size: number = 1024) {
+        this.device = device;
+        this.fontFamily = fontFamily;
+        this.fontSize = fontSize;
+        this.buffer = buffer;
+        this.radius = radius;
+        this.size = size;
+
+        this.cellSize = Math.ceil(fontSize * 1.2) + buffer * 2;
+        const canvas = typeof OffscreenCanvas !== 'undefined'
+            ? new OffscreenCanvas(this.cellSize * 2, this.cellSize)
+            : Object.assign(document.createElement('canvas'), { width: this.cellSize * 2, height: this.cellSize });
+        const ctx = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+        if (!ctx) {
+            throw new Error("Could not create 2D canvas context for glyph rasterization.");
+        }
+        this.ctx = ctx;
+        this.ctx.font = `${fontSize}px ${fontFamily}`;
+        this.ctx.textBaseline = 'middle';
+        this.ctx.textAlign = 'left';
+        this.ctx.fillStyle = 'black';
+
+        const maxCell = this.cellSize * 2 * this.cellSize;
+        this.gridOuter = new Float64Array(maxCell);
+        this.gridInner = new Float64Array(maxCell);
+        const maxDim = this.cellSize * 2;
+        this.f = new Float64Array(maxDim);
+        this.z = new Float64Array(maxDim + 1);
+        this.v = new Uint16Array(maxDim);
+
+        this.pixels = new Uint8Array(size * size);
+        this.texture = device.createTexture({
+            size: [size, size, 1],
+            format: 'r8unorm',
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+        });
+    }
+
+    /**
+     * Gets a glyph, rasterizing it if needed.
+     * @returns The glyph, or null if the atlas is full
+     */
+    getGlyph(char: string): Glyph | null {
+        const cached = this.glyphs.get(char);
+        if (cached !== undefined) return cached;
+
+        const glyph = this.rasterize(char);
+        this.glyphs.set(char, glyph);
+        return glyph;
+    }
+
+    /**
+     * Uploads newly rasterized glyphs to the GPU.
+     */
+    flush() {
+        if (!this.dirty) return;
+        this.device.queue.writeTexture(
+            { texture: this.texture },
+            this.pixels,
+            { bytesPerRow: this.size, rowsPerImage: this.size },
+            [this.size, this.size, 1]
+        );
+        this.dirty = false;
+    }
+
+    private rasterize(char: string): Glyph | null {
+        const advance = this.ctx.measureText(char).width;
+        const width = Math.min(this.cellSize * 2, Math.ceil(advance) + this.buffer * 2);
+        const height = this.cellSize;
+
+        // Shelf packing
+        if (this.shelfX + width > this.size) {
+            this.shelfX = 0;
+            this.shelfY += this.shelfHeight;
+            this.shelfHeight = 0;
+        }
+        if (this.shelfY + height > this.size) return null;
+
+        const x = this.shelfX;
+        const y = this.shelfY;
+        this.shelfX += width;
+        this.shelfHeight = Math.max(this.shelfHeight, height);
+
+        this.ctx.clearRect(0, 0, width, height);
+        this.ctx.fillText(char, this.buffer, height / 2);
+        const alpha = this.ctx.getImageData(0, 0, width, height).data;
+
+        const outer = this.gridOuter;
+        const inner = this.gridInner;
+        for (let i = 0; i < width * height; i++) {
+            const a = alpha[i * 4 + 3] / 255;
+            outer[i] = a === 1 ? 0 : a === 0 ? INF : Math.pow(Math.max(0, 0.5 - a), 2);
+            inner[i] = a === 1 ? INF : a === 0 ? 0 : Math.pow(Math.max(0, a - 0.5), 2);
+        }
+
+        this.edt(outer, width, height);
+        this.edt(inner, width, height);
+
+        for (let row = 0; row < height; row++) {
+            for (let col = 0; col < width; col++) {
+                const i = row * width + col;
+                const d = Math.sqrt(outer[i]) - Math.sqrt(inner[i]);
+                const value = Math.round(255 - 255 * (d / this.radius + this.cutoff));
+                this.pixels[(y + row) * this.size + x + col] = Math.max(0, Math.min(255, value));
+            }
+        }
+        this.dirty = true;
+
+        return { char, x, y, width, height, advance };
+    }
+
+    /**
+     * 2D squared Euclidean distance transform (Felzenszwalb & Huttenlocher), in place.
+     */
+    private edt(grid: Float64Array, width: number, height: number) {
+        for (let x = 0; x < width; x++) this.edt1d(grid, x, width, height);
+        for (let y = 0; y < height; y++) this.edt1d(grid, y * width, 1, width);
+    }
+
+    private edt1d(grid: Float64Array, offset: number, stride: number, length: number) {
+        const { f, v, z } = this;
+        v[0] = 0;
+        z[0] = -INF;
+        z[1] = INF;
+        for (let q = 0; q < length; q++) f[q] = grid[offset + q * stride];
+
+        for (let q = 1, k = 0, s = 0; q < length; q++) {
+            do {
+                const r = v[k];
+                s = (f[q] - f[r] + q * q - r * r) / (q - r) / 2;
+            } while (s <= z[k] && --k > -1);
+            k++;
+            v[k] = q;
+            z[k] = s;
+            z[k + 1] = INF;
+        }
+
+        for (let q = 0, k = 0; q < length; q++) {
+            while (z[k + 1] < q) k++;
+            const r = v[k];
+            const qr = q - r;
+            grid[offset + q * stride] = f[r] + qr * qr;
+        }
+    }
+
+    destroy() {
+        this.texture.destroy();
+    }
+}
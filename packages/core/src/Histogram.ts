@@ -0,0 +1,55 @@
+export const HISTOGRAM_BINS = 256;
+
+/**
+ * Per-channel (R, G, B) histogram of the ADRA samples of the current view.
+ * Bin i of channel c covers [min[c] + i * w, min[c] + (i + 1) * w) with w = (max[c] - min[c]) / bins.
+ */
+export interface Histogram {
+    bins: number;
+    counts: number[][];
+    min: number[];
+    max: number[];
+    mean: number[];
+    stdDev: number[];
+    total: number; // Valid samples
+}
+
+/**
+ * Value below which a fraction p (0-1) of the samples fall, interpolated within the bin.
+ */
+export function histogramPercentile(histogram: Histogram, channel: number, p: number): number {
+    const counts = histogram.counts[channel];
+    const min = histogram.min[channel];
+    const width = (histogram.max[channel] - min) / histogram.bins;
+    const target = Math.max(0, Math.min(1, p)) * histogram.total;
+
+    let cumulative = 0;
+    for (let i = 0; i < counts.length; i++) {
+        const count = counts[i];
+        if (count > 0 && cumulative + count >= target) {
+            return min + (i + (target - cumulative) / count) * width;
+        }
+        cumulative += count;
+    }
+    return histogram.max[channel];
+}
+
+/**
+ * Fraction (0-1) of the samples below a value, interpolated within the bin.
+ */
+export function histogramFraction(histogram: Histogram, channel: number, value: number): number {
+    if (histogram.total === 0) return 0;
+    const counts = histogram.counts[channel];
+    const min = histogram.min[channel];
+    const width = (histogram.max[channel] - min) / histogram.bins;
+    if (value < min) return 0;
+    if (width <= 0 || value >= histogram.max[channel]) return 1;
+
+    const position = (value - min) / width;
+    const bin = Math.min(counts.length - 1, Math.floor(position));
+    let cumulative = 0;
+    for (let i = 0; i < bin; i++) {
+        cumulative += counts[i];
+    }
+    return (cumulative + counts[bin] * (position - bin)) / histogram.total;
+}
@@ -0,0 +1,1063 @@
+import { Viewport } from './Viewport';
+import { WorkerPool } from './WorkerPool';
+import { TileManager, ADRAOptions, BandMetadata, BandStatistics, GlobalRangeOptions, NoDataPolicy, LoadOptions, Placement, Tile, statisticsRange } from './TileManager';
+import { AffineTransform, GeoInfo, PixelTransform, Point } from './GeoTransform';
+import { RPCCoefficients } from './RPCModel';
+import { MosaicLayout, MosaicOverlap, MOSAIC_OVERLAPS, computeMosaicLayout, mergeStatistics, mosaicDrawOrder } from './Mosaic';
+import { TimeStack } from './TimeStack';
+import { ADRAAnalyzer } from './ADRAAnalyzer';
+import { Colormap, ColormapLegend, ColormapOptions, ColormapStop, LUT_SIZE } from './Colormap';
+import { BandExpression } from './BandExpression';
+import { DisplayRange, DisplayRangeEvent, DisplayRangeSource, LUT_BINS, MAX_CLAHE_TILES, Stretch, StretchOptions } from './Stretch';
+import { ClaheProcessor } from './ClaheProcessor';
+import { Histogram, histogramFraction } from './Histogram';
+import tileShaderSource from './shaders/tile.wgsl?raw';
+import pixelShaderSource from './shaders/pixel.wgsl?raw';
+
+/**
+ * How a layer composites over the layers below it, weighted by its opacity.
+ */
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'difference';
+
+/**
+ * A COG as a File or URL, a list of adjacent georeferenced COGs shown as one mosaic,
+ * or a TimeStack of COGs shown one timestamp at a time.
+ */
+export type ImageSource = File | string | (File | string)[] | TimeStack;
+
+type FrameStatus = 'idle' | 'loading' | 'ready' | 'failed';
+
+// Worker priority of visible tiles; prefetched frames queue behind them, nearest frame first
+const VISIBLE_PRIORITY = 1000000000000;
+const PREFETCH_PRIORITY_STEP = 100000000000;
+
+export interface ImageLayerOptions {
+    bands: number[] | null;          // Bands to show once the image loads, null for the suggested bands
+    stretch: Partial<StretchOptions>;
+    visible: boolean;
+    opacity: number;                 // 0-1
+    blendMode: BlendMode;
+    zIndex: number;                  // Drawing order, lowest first. Equal values keep the order layers were added
+}
+
+/**
+ * Raw band values at a point of a layer.
+ */
+export interface PixelValues {
+    world: Point;         // World pixel coordinates of the point
+    pixel: Point;         // Column and row in the full resolution file
+    file: number;         // File read: mosaic file or time stack frame index, 0 for a single image
+    crs: Point | null;    // CRS coordinates of the point, null if the layer is not georeferenced
+    values: number[];     // Every band of the file, nodata values included
+    valid: boolean;       // False where the pixel is masked or nodata
+}
+
+/**
+ * GPU objects and the worker pool the renderer shares with all layers.
+ */
+export interface LayerContext {
+    device: GPUDevice;
+    viewport: Viewport;
+    workerPool: WorkerPool;
+    pipelineLayout: GPUPipelineLayout;  // Groups 0 (viewport, settings, colormap, LUTs) and 1 (tile)
+    backdropLayout: GPUPipelineLayout;  // Groups 0, 1 and 2 (backdrop texture) for 'difference'
+    presentationFormat: GPUTextureFormat;
+}
+
+// frag_main outputs color premultiplied by the layer opacity
+const BLEND_STATES: { [mode in Exclude<BlendMode, 'difference'>]: GPUBlendState } = {
+    normal: {
+        color: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+        alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+    },
+    multiply: {
+        // src * dst + dst * (1 - a) = dst * mix(1, src, a)
+        color: { srcFactor: 'dst', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+        alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+    },
+    screen: {
+        // src * (1 - dst) + dst = mix(dst, 1 - (1 - src) * (1 - dst), a)
+        color: { srcFactor: 'one-minus-dst', dstFactor: 'one', operation: 'add' },
+        alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+    },
+};
+
+const BLEND_MODES: BlendMode[] = ['normal', 'multiply', 'screen', 'difference'];
+
+/**
+ * ImageLayer is one COG (or mosaic of COGs) in the renderer's layer stack, with its own bands,
+ * stretch, colormap, band math, display range, visibility, opacity, blend mode and z-order.
+ *
+ * A mosaic has a TileManager per file, placed in a world pixel grid at the finest resolution of
+ * the files. Files outside the view request no tiles; all files share the layer's settings.
+ *
+ * A time stack also has a TileManager per frame but draws only the current one. Frames open
+ * when they come within the prefetch window; frames outside it free their tiles. Georeferenced
+ * frames are placed on the pixel grid of the first frame.
+ *
+ * All layers share the renderer's Viewport and WorkerPool. GPU resources are created when
+ * the renderer attaches the layer, so layers can be configured before init().
+ */
+export class ImageLayer {
+    tileManagers: TileManager[] = []; // One per file, in source order
+    mosaic: MosaicLayout | null = null;
+    mosaicOverlap: MosaicOverlap = 'last';
+    timeStack: TimeStack | null = null;
+    adraAnalyzer: ADRAAnalyzer | null = null;
+    autoRangeEnabled: boolean = false;
+
+    visible: boolean = true;
+    opacity: number = 1;
+    blendMode: BlendMode = 'normal';
+    zIndex: number = 0;
+    clipCircle: number[] | null = null; // Spy-glass mask (x, y, radius in canvas pixels), set by the renderer when compared
+
+    colormap: Colormap | null = null;
+    stretch: Stretch = new Stretch();
+    expression: BandExpression | null = null;
+
+    onBandsInitialized: ((bands: BandMetadata[], selectedBands: number[]) => void) | null = null;
+    onDisplayRangeChange: ((event: DisplayRangeEvent) => void) | null = null;
+    onHistogramChange: ((histogram: Histogram) => void) | null = null; // Keeps the analysis running without ADRA
+    onStatistics: ((statistics: BandStatistics[]) => void) | null = null;
+    onInitComplete: ((width: number, height: number) => void) | null = null;
+    onRPC: ((rpc: RPCCoefficients) => void) | null = null; // RPCs from a sidecar, read after init
+
+    private context: LayerContext | null = null;
+    private settingsBuffer: GPUBuffer | null = null;
+    private colormapTexture: GPUTexture | null = null;
+    private lutBuffer: GPUBuffer | null = null;
+    private bindGroup: GPUBindGroup | null = null;
+    private shaderModule: GPUShaderModule | null = null;
+    private pipelines: Map<BlendMode, GPURenderPipeline> = new Map();
+    private claheProcessor: ClaheProcessor | null = null;
+    private equalizeSignature: string = '';
+    private adraOptions: ADRAOptions = { clipLow: 1, clipHigh: 99, padLow: 50, padHigh: 20, sampleSize: 128 };
+    private displayRange: DisplayRange = { min: [0, 0, 0], max: [1, 1, 1] }; // Last range drawn
+    private displayRangeSource: DisplayRangeSource = 'global';
+    private manualRange: DisplayRange | null = null;
+    private lockedRange: DisplayRange | null = null;
+    private globalRangeOptions: GlobalRangeOptions = { mode: 'minmax', clipLow: 2, clipHigh: 98 };
+    private histogramVersion: number = 0;
+    private initialBands: number[] | null = null;
+    private pendingLoad: { source: ImageSource, options: LoadOptions } | null = null;
+    private loadRequest: number = 0;
+    private loading: boolean = false;
+    private drawOrder: number[] = [0];
+    private mosaicTransform: AffineTransform | null = null;
+    private mosaicStatistics: BandStatistics[] | null = null;
+    private frameStatus: FrameStatus[] = [];
+    private frameRevision: number = 0;      // Bumped when a time stack shows another frame
+    private frozenRange: boolean = false;   // lockedRange holds the time stack's frozen stretch
+
+    constructor(options: Partial<ImageLayerOptions> = {}) {
+        if (options.stretch) this.setStretch(options.stretch);
+        if (options.visible !== undefined) this.setVisible(options.visible);
+        if (options.opacity !== undefined) this.setOpacity(options.opacity);
+        if (options.blendMode !== undefined) this.setBlendMode(options.blendMode);
+        if (options.zIndex !== undefined) this.setZIndex(options.zIndex);
+        this.initialBands = options.bands || null;
+    }
+
+    /**
+     * Creates the GPU resources and tile manager. Called by the renderer.
+     */
+    attach(context: LayerContext) {
+        const { device } = context;
+        this.context = context;
+
+        // Settings Buffer
+        this.settingsBuffer = device.createBuffer({
+            size: 128,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+
+        // Colormap lookup table
+        this.colormapTexture = device.createTexture({
+            size: [LUT_SIZE, 1, 1],
+            dimension: '1d',
+            format: 'rgba8unorm',
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+        });
+        this.uploadColormap();
+
+        // Equalization lookup tables (global CDF or CLAHE regions)
+        this.lutBuffer = device.createBuffer({
+            size: MAX_CLAHE_TILES * MAX_CLAHE_TILES * 3 * LUT_BINS * 4,
+            usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+        });
+
+        const shaderModule = this.createShaderModule();
+
+        // Viewport, settings and colormap never change identity, so one bind group serves every frame
+        this.bindGroup = device.createBindGroup({
+            layout: this.getPipeline('normal').getBindGroupLayout(0),
+            entries: [
+                { binding: 0, resource: { buffer: context.viewport.getBuffer() } },
+                { binding: 1, resource: { buffer: this.settingsBuffer } },
+                { binding: 2, resource: this.colormapTexture.createView({ dimension: '1d' }) },
+                { binding: 3, resource: { buffer: this.lutBuffer } },
+            ],
+        });
+
+        this.adraAnalyzer = new ADRAAnalyzer(device, shaderModule, context.pipelineLayout, { ...this.adraOptions });
+        this.claheProcessor = new ClaheProcessor(device, shaderModule, context.pipelineLayout, this.lutBuffer);
+
+        this.tileManagers = [this.createTileManager()];
+
+        if (this.pendingLoad) {
+            this.load(this.pendingLoad.source, this.pendingLoad.options);
+            this.pendingLoad = null;
+        }
+    }
+
+    /**
+     * Whether the renderer has attached the layer, so it can be drawn.
+     */
+    get attached(): boolean {
+        return this.context !== null;
+    }
+
+    /**
+     * Tile manager of the image, or of the first file of a mosaic.
+     */
+    get tileManager(): TileManager | null {
+        return this.tileManagers[0] || null;
+    }
+
+    /**
+     * Size of the image (or mosaic) in world pixels.
+     */
+    get width(): number {
+        return this.mosaic ? this.mosaic.width : this.tileManager?.imageWidth || 0;
+    }
+
+    get height(): number {
+        return this.mosaic ? this.mosaic.height : this.tileManager?.imageHeight || 0;
+    }
+
+    /**
+     * Georeferencing of the image; for a mosaic that of the first file with the mosaic geotransform.
+     */
+    get geoInfo(): GeoInfo | null {
+        const geoInfo = this.tileManager?.geoInfo || null;
+        return this.mosaic && geoInfo ? { ...geoInfo, geoTransform: this.mosaic.geoTransform.slice() } : geoInfo;
+    }
+
+    /**
+     * Transform between world pixels and the CRS.
+     */
+    get pixelTransform(): PixelTransform | null {
+        return this.mosaic ? this.mosaicTransform : this.tileManager?.pixelTransform || null;
+    }
+
+    private createTileManager(): TileManager {
+        const context = this.context!;
+        const tileManager = new TileManager(context.device, this.getPipeline('normal'), context.workerPool);
+        tileManager.setExpression(this.expression);
+        tileManager.onStatistics = () => this.onTileManagerStatistics(tileManager);
+        tileManager.onRPC = rpc => this.onRPC?.(rpc);
+        return tileManager;
+    }
+
+    /**
+     * Loads a COG from a File object or URL into this layer, replacing its image.
+     * A list of georeferenced COGs loads as one mosaic; a TimeStack shows its current frame.
+     * @param source - File object, URL string, a list of them for a mosaic, or a TimeStack
+     * @param options - Optional sidecar files (single images) and the mosaic overlap rule
+     */
+    load(source: ImageSource, options: LoadOptions = {}) {
+        if (!this.context) {
+            this.pendingLoad = { source, options };
+            return;
+        }
+        this.initialize(source, options).catch(err => {
+            console.error("Could not load image:", err);
+        });
+    }
+
+    private async initialize(source: ImageSource, options: LoadOptions) {
+        const timeStack = source instanceof TimeStack ? source : null;
+        const sources = source instanceof TimeStack ? source.entries.map(e => e.source) : Array.isArray(source) ? source : [source];
+        if (!sources.length) {
+            throw new Error("A mosaic needs at least one file.");
+        }
+        if (options.overlap) {
+            this.setMosaicOverlap(options.overlap);
+        }
+        const request = ++this.loadRequest;
+        this.loading = true;
+        this.mosaic = null;
+        this.mosaicTransform = null;
+        this.mosaicStatistics = null;
+        this.setTimeStack(timeStack);
+
+        // One tile manager per file; those of a previous, larger mosaic are closed
+        while (this.tileManagers.length > sources.length) {
+            this.tileManagers.pop()!.destroy();
+        }
+        while (this.tileManagers.length < sources.length) {
+            this.tileManagers.push(this.createTileManager());
+        }
+
+        // Sidecars name a single image
+        const fileOptions = Array.isArray(source) || timeStack ? {} : options;
+        // A time stack opens its other frames as they come into reach
+        const opened = timeStack ? [this.tileManagers[0]] : this.tileManagers;
+        this.frameStatus = sources.map((_, i) => i < opened.length ? 'loading' : 'idle');
+        await Promise.all(opened.map((tileManager, i) => tileManager.init(sources[i], fileOptions)));
+        if (request !== this.loadRequest) return; // A newer load replaced this one
+        this.frameStatus.fill('ready', 0, opened.length);
+
+        if (Array.isArray(source)) {
+            this.mosaic = computeMosaicLayout(this.tileManagers.map(m => ({ geoInfo: m.geoInfo, width: m.imageWidth, height: m.imageHeight })));
+            this.mosaicTransform = new AffineTransform(this.mosaic.geoTransform);
+            this.mosaic.placements.forEach((placement, i) => this.tileManagers[i].setPlacement(placement));
+        } else {
+            this.tileManager!.setPlacement({ x: 0, y: 0, scaleX: 1, scaleY: 1 });
+        }
+        this.drawOrder = this.mosaic ? mosaicDrawOrder(this.mosaicOverlap, this.mosaic.placements) : [0];
+        this.loading = false;
+
+        const bands = this.getBandMetadata();
+        if (bands.length) {
+            const initial = this.initialBands;
+            this.initialBands = null;
+            if (initial && initial.length && initial.every(b => Number.isInteger(b) && b >= 0 && b < bands.length)) {
+                this.setBands(initial);
+            } else {
+                if (initial) {
+                    console.warn(`Ignoring layer bands [${initial.join(', ')}]: the image has ${bands.length} bands.`);
+                }
+                if (this.mosaic) {
+                    this.setBands(this.getSelectedBands().slice()); // The first file's suggestion applies to all files
+                }
+            }
+            if (this.mosaic && this.tileManagers.some(m => m.bandMetadata.length !== bands.length)) {
+                console.warn("Mosaic files have different band counts; band selection follows the first file.");
+            }
+            this.onBandsInitialized?.(bands, this.getSelectedBands());
+        }
+
+        this.onTileManagerInit(this.width, this.height);
+        this.onTileManagerStatistics(this.tileManagers[this.drawOrder[0]]);
+    }
+
+    /**
+     * Makes `timeStack` the layer's frame source, or detaches the current one.
+     */
+    private setTimeStack(timeStack: TimeStack | null) {
+        if (this.timeStack && this.timeStack !== timeStack) {
+            this.timeStack.pause();
+            this.timeStack.isFrameReady = null;
+        }
+        this.timeStack = timeStack;
+        this.frozenRange = false;
+        if (timeStack) {
+            timeStack.isFrameReady = (index) => this.isFrameReady(index);
+        }
+    }
+
+    /**
+     * Whether a time stack frame is open and its tiles in view are loaded. Failed frames count
+     * as ready so playback moves past them.
+     */
+    private isFrameReady(index: number): boolean {
+        const status = this.frameStatus[index];
+        return status === 'failed' || (status === 'ready' && this.tileManagers[index].missingTiles === 0);
+    }
+
+    /**
+     * Opens a time stack frame in the workers and aligns it with the first frame.
+     */
+    private openFrame(index: number) {
+        if (this.frameStatus[index] !== 'idle') return;
+        this.frameStatus[index] = 'loading';
+        const request = this.loadRequest;
+        const tileManager = this.tileManagers[index];
+        tileManager.init(this.timeStack!.entries[index].source).then(() => {
+            if (request !== this.loadRequest) return;
+            if (tileManager.bandMetadata.length !== this.getBandMetadata().length) {
+                console.warn(`Time stack frame ${index} has ${tileManager.bandMetadata.length} bands, the first frame ${this.getBandMetadata().length}.`);
+            }
+            tileManager.setPlacement(this.framePlacement(tileManager));
+            tileManager.setBands(this.getSelectedBands());
+            this.frameStatus[index] = 'ready';
+        }).catch(err => {
+            if (request !== this.loadRequest) return;
+            this.frameStatus[index] = 'failed';
+            console.error(`Could not load time stack frame ${index}:`, err);
+        });
+    }
+
+    /**
+     * Placement of a frame on the first frame's pixel grid: by georeference when both are
+     * north-up in the same CRS, otherwise pixel for pixel.
+     */
+    private framePlacement(tileManager: TileManager): Placement {
+        const reference = this.tileManager!.geoInfo;
+        const gt = tileManager.geoInfo?.geoTransform;
+        const ref = reference?.geoTransform;
+        if (!gt || !ref || gt[2] !== 0 || gt[4] !== 0 || ref[2] !== 0 || ref[4] !== 0 ||
+            tileManager.geoInfo!.epsg !== reference!.epsg) {
+            return { x: 0, y: 0, scaleX: 1, scaleY: 1 };
+        }
+        return {
+            x: (gt[0] - ref[0]) / ref[1],
+            y: (gt[3] - ref[3]) / ref[5],
+            scaleX: gt[1] / ref[1],
+            scaleY: gt[5] / ref[5]
+        };
+    }
+
+    /**
+     * Shows the stack's current frame once it is open, freezes or releases the stretch, opens and
+     * prefetches the next frames and frees the tiles of frames out of reach.
+     */
+    private updateTimeStack(viewport: Viewport) {
+        const stack = this.timeStack!;
+        const index = stack.index;
+        const freeze = stack.options.freezeStretch;
+        if (!freeze && this.frozenRange) {
+            this.lockedRange = null;
+            this.frozenRange = false;
+        }
+
+        this.openFrame(index);
+        if (this.drawOrder[0] !== index && this.frameStatus[index] === 'ready') {
+            // The range of the frame shown until now carries over to all later frames
+            if (freeze && !this.lockedRange) {
+                this.lockedRange = { min: this.displayRange.min.slice(), max: this.displayRange.max.slice() };
+                this.frozenRange = true;
+            }
+            this.drawOrder = [index];
+            this.frameRevision++;
+            this.claheProcessor?.invalidate();
+            this.onTileManagerStatistics(this.tileManagers[index]);
+        }
+
+        const upcoming = stack.upcoming();
+        upcoming.forEach((frame, k) => {
+            this.openFrame(frame);
+            if (this.frameStatus[frame] === 'ready') {
+                this.tileManagers[frame].getVisibleTiles(viewport, VISIBLE_PRIORITY - (k + 1) * PREFETCH_PRIORITY_STEP);
+            }
+        });
+
+        // Keep the previous frame for stepping back
+        const previous = stack.offset(-1);
+        const keep = new Set([this.drawOrder[0], index, ...upcoming, ...(previous === null ? [] : [previous])]);
+        this.tileManagers.forEach((tileManager, i) => {
+            if (!keep.has(i) && tileManager.tiles.size) tileManager.clearTiles();
+        });
+    }
+
+    /**
+     * Chooses which file shows where mosaic files overlap.
+     * @param overlap - 'first' or 'last' in the source list, or 'highest-resolution'
+     */
+    setMosaicOverlap(overlap: MosaicOverlap) {
+        if (!MOSAIC_OVERLAPS.includes(overlap)) {
+            throw new Error(`Unknown mosaic overlap "${overlap}". Available: ${MOSAIC_OVERLAPS.join(', ')}.`);
+        }
+        this.mosaicOverlap = overlap;
+        if (this.mosaic) {
+            this.drawOrder = mosaicDrawOrder(overlap, this.mosaic.placements);
+            this.claheProcessor?.invalidate();
+        }
+    }
+
+    /**
+     * Reports statistics once every file has them, merged for a mosaic; for a time stack those
+     * of the frame shown.
+     */
+    private onTileManagerStatistics(tileManager: TileManager) {
+        if (this.loading) return;
+        if (this.mosaic) {
+            if (!this.tileManagers.every(m => m.statistics)) return;
+            this.mosaicStatistics = mergeStatistics(this.tileManagers.map(m => m.statistics!));
+            this.onStatistics?.(this.mosaicStatistics);
+        } else if (tileManager === this.tileManagers[this.drawOrder[0]] && tileManager.statistics) {
+            this.onStatistics?.(tileManager.statistics);
+        }
+    }
+
+    private onTileManagerInit(width: number, height: number) {
+        // A locked ADRA range belongs to the previous image
+        this.lockedRange = null;
+
+        // Band references must exist in the new image
+        if (this.expression) {
+            try {
+                this.expression = new BandExpression(this.expression.sources, this.tileManager?.bandMetadata.length || 0);
+            } catch (e) {
+                console.warn("Dropping band-math expression for the new image:", e);
+                this.expression = null;
+                this.applyExpression();
+            }
+        }
+
+        this.onInitComplete?.(width, height);
+    }
+
+    /**
+     * Shows or hides the layer. Hidden layers request no tiles.
+     */
+    setVisible(visible: boolean) {
+        this.visible = visible;
+    }
+
+    /**
+     * Sets how strongly the layer covers the layers below.
+     * @param opacity - 0 (invisible) to 1 (opaque)
+     */
+    setOpacity(opacity: number) {
+        if (!(opacity >= 0 && opacity <= 1)) {
+            throw new Error("Layer opacity must be between 0 and 1.");
+        }
+        this.opacity = opacity;
+    }
+
+    /**
+     * Sets how the layer combines with the layers below it.
+     * @param mode - 'normal', 'multiply', 'screen' or 'difference'
+     */
+    setBlendMode(mode: BlendMode) {
+        if (!BLEND_MODES.includes(mode)) {
+            throw new Error(`Unknown blend mode "${mode}". Available: ${BLEND_MODES.join(', ')}.`);
+        }
+        this.blendMode = mode;
+    }
+
+    /**
+     * Moves the layer in the stack. Higher values draw on top.
+     */
+    setZIndex(zIndex: number) {
+        if (!Number.isFinite(zIndex)) {
+            throw new Error("Layer zIndex must be finite.");
+        }
+        this.zIndex = zIndex;
+    }
+
+    /**
+     * Enables or disables ADRA (Automatic Dynamic Range Adjustment).
+     * @param enabled - Whether to enable ADRA
+     */
+    setAutoRange(enabled: boolean) {
+        this.autoRangeEnabled = enabled;
+    }
+
+    /**
+     * Updates ADRA configuration options.
+     * @param options - Partial ADRA options to update
+     */
+    setADRAOptions(options: Partial<ADRAOptions>) {
+        this.adraOptions = { ...this.adraOptions, ...options };
+        if (this.adraAnalyzer) {
+            this.adraAnalyzer.setOptions(options);
+        }
+    }
+
+    /**
+     * Sets a fixed display range that overrides ADRA and the global range.
+     * @param range - Per-channel min and max (one value applies to all channels), or null to go back to automatic
+     */
+    setDisplayRange(range: { min: number[] | number, max: number[] | number } | null) {
+        if (range === null) {
+            this.manualRange = null;
+            return;
+        }
+        const toChannels = (v: number[] | number, name: string) => {
+            const values = typeof v === 'number' ? [v] : v;
+            if (values.length !== 1 && values.length !== 3) {
+                throw new Error(`Display range ${name} must be one value or three (R, G, B).`);
+            }
+            if (!values.every(Number.isFinite)) {
+                throw new Error(`Display range ${name} must be finite.`);
+            }
+            return values.length === 1 ? [values[0], values[0], values[0]] : values.slice();
+        };
+        const min = toChannels(range.min, 'min');
+        const max = toChannels(range.max, 'max');
+        if (!min.every((m, i) => max[i] > m)) {
+            throw new Error("Display range max must be greater than min in every channel.");
+        }
+        this.manualRange = { min, max };
+    }
+
+    /**
+     * Gets the range drawn in the last frame and where it came from.
+     */
+    getDisplayRange(): DisplayRangeEvent {
+        return { min: this.displayRange.min.slice(), max: this.displayRange.max.slice(), source: this.displayRangeSource };
+    }
+
+    /**
+     * Freezes the current ADRA range so panning and zooming no longer change it.
+     * A manual range still takes priority over the locked one.
+     * @param locked - True to lock the current range, false to follow the view again
+     */
+    setADRALocked(locked: boolean) {
+        if (!locked) {
+            this.lockedRange = null;
+        } else if (!this.lockedRange && this.adraAnalyzer) {
+            // Without an ADRA result the analyzer only holds its 0-1 placeholder: lock what is drawn
+            const automatic = this.displayRangeSource === 'adra' || !this.adraAnalyzer.histogram
+                ? this.displayRange
+                : this.adraAnalyzer.currentStats;
+            this.lockedRange = { min: automatic.min.slice(), max: automatic.max.slice() };
+        }
+    }
+
+    /**
+     * Whether the ADRA range is locked.
+     */
+    isADRALocked(): boolean {
+        return this.lockedRange !== null;
+    }
+
+    /**
+     * Gets the per-channel histogram of the last ADRA analysis (bins, counts, min, max, mean, stdDev).
+     * The analysis runs while ADRA is enabled, the stretch needs it, or onHistogramChange is set.
+     * @returns The histogram, or null before the first analysis
+     */
+    getHistogram(): Histogram | null {
+        return this.adraAnalyzer?.histogram || null;
+    }
+
+    /**
+     * Configures the range used without ADRA: whole-image band min/max, or whole-image percentiles.
+     * Until the statistics job finishes (and for band-math expressions) the min/max of loaded tiles is used.
+     * @param options - Partial options to update
+     */
+    setGlobalRangeOptions(options: Partial<GlobalRangeOptions>) {
+        this.globalRangeOptions = { ...this.globalRangeOptions, ...options };
+    }
+
+    /**
+     * Gets the whole-image per-band statistics (min, max, mean, stdDev, percentiles),
+     * of the frame shown for a time stack.
+     * @returns Statistics, or null until the job started by load() finishes
+     */
+    getStatistics(): BandStatistics[] | null {
+        if (this.mosaic) return this.mosaicStatistics;
+        return this.tileManagers[this.drawOrder[0]]?.statistics || null;
+    }
+
+    /**
+     * Reads the raw values of every band at a world point from the full resolution file drawn there.
+     * Where mosaic files overlap, the top file is read, or the one below it where the top file has no data.
+     * @returns The values with pixel and CRS coordinates, or null outside the image or while loading
+     */
+    async getPixelValues(worldX: number, worldY: number): Promise<PixelValues | null> {
+        if (this.loading) return null;
+        let result: PixelValues | null = null;
+        for (const index of [...this.drawOrder].reverse()) {
+            const tileManager = this.tileManagers[index];
+            if (!tileManager?.levels.length) continue;
+            const { x, y, scaleX, scaleY } = tileManager.placement;
+            const column = Math.floor((worldX - x) / scaleX);
+            const row = Math.floor((worldY - y) / scaleY);
+            if (column < 0 || row < 0 || column >= tileManager.imageWidth || row >= tileManager.imageHeight) continue;
+
+            const { values, valid } = await tileManager.samplePixel(column, row);
+            result = {
+                world: { x: worldX, y: worldY },
+                pixel: { x: column, y: row },
+                file: index,
+                crs: this.pixelTransform ? this.pixelTransform.pixelToCrs(worldX, worldY) : null,
+                values,
+                valid
+            };
+            if (valid) break;
+        }
+        return result;
+    }
+
+    /**
+     * Gets the available band metadata from the loaded image.
+     * @returns Array of band metadata or empty array if not initialized
+     */
+    getBandMetadata(): BandMetadata[] {
+        return this.tileManager?.bandMetadata || [];
+    }
+
+    /**
+     * Sets which bands to render.
+     * @param bandIndices - Array of band indices (0-based). For RGB: [redIdx, greenIdx, blueIdx]. For grayscale: [bandIdx]
+     */
+    setBands(bandIndices: number[]) {
+        for (const tileManager of this.tileManagers) {
+            tileManager.setBands(bandIndices);
+        }
+    }
+
+    /**
+     * Gets the currently selected band indices.
+     * @returns Array of selected band indices
+     */
+    getSelectedBands(): number[] {
+        return this.tileManager?.selectedBands || [];
+    }
+
+    /**
+     * Gets the active nodata policy together with the values it resolves to.
+     * @returns The nodata mode, per-band values and optional threshold
+     */
+    getNoDataPolicy(): NoDataPolicy {
+        if (!this.tileManager) return { mode: 'file', values: [], threshold: null };
+        return { ...this.tileManager.noDataPolicy, values: this.tileManager.getNoDataValues() };
+    }
+
+    /**
+     * Overrides how nodata pixels are detected. Tiles are decoded again.
+     * @param policy - Partial policy. Use mode 'custom' with `values` to replace the file nodata,
+     * or set `threshold` to hide near-black edges of lossy JPEG imagery.
+     */
+    setNoDataPolicy(policy: Partial<NoDataPolicy>) {
+        this.mosaicStatistics = null;
+        for (const tileManager of this.tileManagers) {
+            tileManager.setNoDataPolicy(policy);
+        }
+    }
+
+    /**
+     * Sets the transfer function from the display range to screen intensity.
+     * Options not given keep their current value; brightness and contrast apply after the stretch.
+     * @param options - Mode ('linear', 'gamma', 'log', 'sigmoid', 'stddev', 'equalize', 'clahe') and its parameters
+     */
+    setStretch(options: Partial<StretchOptions>) {
+        this.stretch = new Stretch({ ...this.stretch.options, ...options });
+        // Both equalization modes write the layer's LUT buffer
+        this.equalizeSignature = '';
+        this.claheProcessor?.invalidate();
+    }
+
+    /**
+     * Gets the current stretch options.
+     */
+    getStretch(): StretchOptions {
+        return { ...this.stretch.options };
+    }
+
+    /**
+     * Applies a color ramp to the stretched value of the first channel (single-band imagery).
+     * @param colormap - Built-in name ('viridis', 'magma', 'terrain', 'jet', 'RdYlGn'), custom stops
+     *                   with values 0-1 along the display range, or null for grayscale/RGB
+     * @param options - 'continuous' or 'discrete' mode, class count and reversal
+     */
+    setColormap(colormap: string | ColormapStop[] | null, options: Partial<ColormapOptions> = {}) {
+        this.colormap = colormap === null ? null : new Colormap(colormap, options);
+        this.uploadColormap();
+    }
+
+    /**
+     * Gets legend data for the active colormap in data values of the current display range.
+     * @returns Stops and discrete classes, or null without a colormap
+     */
+    getColormapLegend(): ColormapLegend | null {
+        if (!this.colormap) return null;
+        return this.colormap.getLegend(this.displayRange.min[0], this.displayRange.max[0], t => this.stretch.invert(t));
+    }
+
+    private uploadColormap() {
+        if (!this.context || !this.colormapTexture || !this.colormap) return;
+        this.context.device.queue.writeTexture(
+            { texture: this.colormapTexture },
+            this.colormap.buildLUT(),
+            { bytesPerRow: LUT_SIZE * 4 },
+            [LUT_SIZE, 1, 1]
+        );
+    }
+
+    /**
+     * Renders a band-math expression instead of the selected bands, e.g. NDVI `(b8 - b4) / (b8 + b4)`.
+     * Bands are 1-based. One expression gives a single channel that the stretch and colormap apply to;
+     * three give R, G and B.
+     * @param expression - Expression(s), or null to go back to the selected bands
+     * @throws ExpressionError describing the problem and its position
+     */
+    setExpression(expression: string | string[] | null) {
+        const bandCount = this.tileManager?.bandMetadata.length || 0;
+        this.expression = expression === null ? null : new BandExpression(expression, bandCount);
+        this.applyExpression();
+    }
+
+    /**
+     * Gets the active band-math expression(s), or null when showing the selected bands.
+     */
+    getExpression(): string[] | null {
+        return this.expression ? this.expression.sources : null;
+    }
+
+    private applyExpression() {
+        if (!this.context) return;
+        const shaderModule = this.createShaderModule();
+        this.adraAnalyzer?.setShaderModule(shaderModule);
+        this.claheProcessor?.setShaderModule(shaderModule);
+        for (const tileManager of this.tileManagers) {
+            tileManager.pipeline = this.getPipeline('normal');
+            tileManager.setExpression(this.expression);
+        }
+    }
+
+    /**
+     * Builds the shader module from tile.wgsl and the pixel read for the current band-math expression.
+     * Pipelines are created from it per blend mode on first use.
+     */
+    private createShaderModule(): GPUShaderModule {
+        this.shaderModule = this.context!.device.createShaderModule({
+            code: tileShaderSource + '\n' + (this.expression ? this.expression.toWGSL() : pixelShaderSource),
+        });
+        this.pipelines.clear();
+        return this.shaderModule;
+    }
+
+    private getPipeline(mode: BlendMode): GPURenderPipeline {
+        let pipeline = this.pipelines.get(mode);
+        if (pipeline) return pipeline;
+
+        const context = this.context!;
+        const difference = mode === 'difference';
+        pipeline = context.device.createRenderPipeline({
+            layout: difference ? context.backdropLayout : context.pipelineLayout,
+            vertex: {
+                module: this.shaderModule!,
+                entryPoint: 'vert_main',
+            },
+            fragment: {
+                module: this.shaderModule!,
+                entryPoint: difference ? 'frag_difference' : 'frag_main',
+                targets: [
+                    {
+                        format: context.presentationFormat,
+                        // 'difference' reads the layers below from the backdrop and replaces them
+                        blend: difference ? undefined : BLEND_STATES[mode as Exclude<BlendMode, 'difference'>],
+                    },
+                ],
+            },
+            primitive: {
+                topology: 'triangle-list',
+            },
+        });
+        this.pipelines.set(mode, pipeline);
+        return pipeline;
+    }
+
+    /**
+     * Picks this frame's display range: manual, then locked ADRA, then live ADRA, then the global min/max.
+     * Runs the ADRA analysis when the live range or the stretch needs its samples.
+     */
+    private updateDisplayRange(visibleTiles: Tile[]): DisplayRange {
+        const loaded = this.loadedRange();
+        const stretchMode = this.stretch.options.mode;
+        const stdDevStretch = stretchMode === 'stddev';
+        const automatic = (this.autoRangeEnabled || stdDevStretch) && !this.manualRange && !this.lockedRange;
+
+        // Equalization and histogram listeners need the samples of the visible pixels even without ADRA
+        if ((automatic || stretchMode === 'equalize' || this.onHistogramChange) && this.adraAnalyzer) {
+            this.adraAnalyzer.update(
+                visibleTiles,
+                this.context!.viewport,
+                this.bindGroup!,
+                this.version,
+                loaded.max
+            );
+        }
+
+        let range: DisplayRange;
+        let source: DisplayRangeSource;
+        if (this.manualRange) {
+            range = this.manualRange;
+            source = 'manual';
+        } else if (this.lockedRange) {
+            range = this.lockedRange;
+            source = 'locked';
+        } else if (automatic && this.adraAnalyzer) {
+            const stats = this.adraAnalyzer.currentStats;
+            if (stdDevStretch) {
+                const n = this.stretch.options.stdDevs;
+                range = {
+                    min: stats.mean.map((m, i) => m - n * stats.stdDev[i]),
+                    max: stats.mean.map((m, i) => m + n * Math.max(stats.stdDev[i], 1e-6))
+                };
+            } else {
+                range = { min: stats.min, max: stats.max };
+            }
+            source = 'adra';
+        } else {
+            // Use Global Stats: whole-image statistics once available, loaded tiles until then
+            const { mode, clipLow, clipHigh } = this.globalRangeOptions;
+            const statistics = this.expression ? null : this.getStatistics();
+            const wholeImageRange = statistics ? statisticsRange(statistics, this.getSelectedBands(), mode, clipLow, clipHigh) : null;
+            if (wholeImageRange) {
+                range = wholeImageRange;
+            } else {
+                const gMin = loaded.min;
+                let gMax = loaded.max;
+                // Prevent zero range
+                if (gMax <= gMin) gMax = gMin + 1;
+
+                range = { min: [gMin, gMin, gMin], max: [gMax, gMax, gMax] };
+            }
+            source = 'global';
+        }
+
+        const analyzer = this.adraAnalyzer;
+        if (analyzer?.histogram && analyzer.histogramVersion !== this.histogramVersion) {
+            this.histogramVersion = analyzer.histogramVersion;
+            this.onHistogramChange?.(analyzer.histogram);
+        }
+
+        const previous = this.displayRange;
+        const changed = source !== this.displayRangeSource ||
+            range.min.some((v, i) => v !== previous.min[i]) ||
+            range.max.some((v, i) => v !== previous.max[i]);
+        this.displayRange = range;
+        this.displayRangeSource = source;
+        if (changed) {
+            this.onDisplayRangeChange?.(this.getDisplayRange());
+        }
+        return range;
+    }
+
+    /**
+     * Writes the global equalization LUT: the CDF of the ADRA samples across the display range.
+     */
+    private updateEqualization() {
+        if (!this.context || !this.lutBuffer || !this.adraAnalyzer) return;
+        const { min, max } = this.displayRange;
+        const histogram = this.adraAnalyzer.histogram;
+        const signature = JSON.stringify([this.adraAnalyzer.histogramVersion, min, max]);
+        if (signature === this.equalizeSignature) return;
+        this.equalizeSignature = signature;
+
+        const lut = new Float32Array(3 * LUT_BINS);
+        for (let c = 0; c < 3; c++) {
+            const range = max[c] - min[c];
+            const start = histogram ? histogramFraction(histogram, c, min[c]) : 0;
+            const total = histogram ? histogramFraction(histogram, c, max[c]) - start : 0;
+            for (let i = 0; i < LUT_BINS; i++) {
+                lut[c * LUT_BINS + i] = total > 0
+                    ? (histogramFraction(histogram!, c, min[c] + (i + 1) / LUT_BINS * range) - start) / total
+                    : (i + 0.5) / LUT_BINS; // No samples in range: identity
+            }
+        }
+        this.context.device.queue.writeBuffer(this.lutBuffer, 0, lut);
+    }
+
+    /**
+     * Tile managers drawn this frame: every mosaic file, or the time stack frame shown.
+     */
+    private get drawnManagers(): TileManager[] {
+        return this.drawOrder.map(i => this.tileManagers[i]).filter(m => m);
+    }
+
+    /**
+     * Sum of the drawn tile manager versions; changes whenever a file's tiles change.
+     */
+    private get version(): number {
+        return this.drawnManagers.reduce((sum, m) => sum + m.version, this.frameRevision);
+    }
+
+    /**
+     * Min/max of the tiles loaded so far, across the drawn files.
+     */
+    private loadedRange(): { min: number, max: number } {
+        const loaded = this.drawnManagers.filter(m => m.hasGlobalStats);
+        if (!loaded.length) {
+            return { min: this.tileManager?.globalMin ?? 0, max: this.tileManager?.globalMax ?? 1 };
+        }
+        return {
+            min: Math.min(...loaded.map(m => m.globalMin)),
+            max: Math.max(...loaded.map(m => m.globalMax))
+        };
+    }
+
+    /**
+     * Requests the tiles in view and updates the display range, settings and equalization LUTs.
+     * @returns The tiles to draw this frame, placeholders first and then the files bottom to top
+     */
+    update(): Tile[] {
+        const context = this.context!;
+        if (this.loading) return [];
+        if (this.timeStack) this.updateTimeStack(context.viewport);
+
+        const tiles = this.drawOrder.flatMap(i => this.tileManagers[i].getVisibleTiles(context.viewport));
+        // Placeholders must not cover the imagery of other mosaic files
+        const visibleTiles = [
+            ...tiles.filter(t => t.id === 'background'),
+            ...tiles.filter(t => t.id !== 'background')
+        ];
+
+        const { min, max } = this.updateDisplayRange(visibleTiles);
+
+        // Update settings buffer
+        const settingsData = new Float32Array([
+            min[0], min[1], min[2], 0,
+            max[0], max[1], max[2], 0,
+            this.colormap ? 1 : 0, 0, 0, 0,
+            ...this.stretch.toUniforms(),
+            this.opacity, ...(this.clipCircle || [0, 0, 0])
+        ]);
+        context.device.queue.writeBuffer(this.settingsBuffer!, 0, settingsData);
+
+        const stretchMode = this.stretch.options.mode;
+        if (stretchMode === 'equalize') {
+            this.updateEqualization();
+        } else if (stretchMode === 'clahe' && this.claheProcessor) {
+            this.claheProcessor.update(
+                visibleTiles,
+                context.viewport,
+                this.bindGroup!,
+                this.version,
+                this.displayRange,
+                this.stretch.options.claheTiles,
+                this.stretch.options.claheClipLimit
+            );
+        }
+        return visibleTiles;
+    }
+
+    /**
+     * Draws the tiles returned by update() with the pipeline of the layer's blend mode.
+     * @param background - Whether to draw the gray placeholder under the image (bottom layer only)
+     * @param backdrop - Bind group 2 holding a copy of the layers below, for 'difference'
+     */
+    draw(passEncoder: GPURenderPassEncoder, visibleTiles: Tile[], background: boolean, backdrop: GPUBindGroup | null) {
+        passEncoder.setPipeline(this.getPipeline(this.blendMode));
+        passEncoder.setBindGroup(0, this.bindGroup!);
+        if (this.blendMode === 'difference') {
+            passEncoder.setBindGroup(2, backdrop!);
+        }
+
+        for (const tile of visibleTiles) {
+            if (tile.id === 'background' && !background) continue;
+            if (tile.bindGroup) {
+                passEncoder.setBindGroup(1, tile.bindGroup);
+                passEncoder.draw(6, 1, 0, 0);
+            }
+        }
+    }
+
+    /**
+     * Frees the layer's tiles and GPU resources and closes its file in the workers.
+     */
+    destroy() {
+        for (const tileManager of this.tileManagers) {
+            tileManager.destroy();
+        }
+        this.loadRequest++;
+        this.setTimeStack(null);
+        this.adraAnalyzer?.destroy();
+        this.claheProcessor?.destroy();
+        this.settingsBuffer?.destroy();
+        this.colormapTexture?.destroy();
+        this.lutBuffer?.destroy();
+        this.tileManagers = [];
+        this.adraAnalyzer = null;
+        this.claheProcessor = null;
+        this.pendingLoad = null;
+        this.context = null;
+    }
+}
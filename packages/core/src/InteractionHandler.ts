@@ -1,76 +1,582 @@
 import { Viewport } from './Viewport';
 
+/**
+ * Pointer input passed to interaction tools.
+ */
+export interface ToolPointerEvent {
+    x: number;           // Canvas buffer pixels
+    y: number;
+    worldX: number;      // Full resolution image pixels
+    worldY: number;
+    button: number;
+    shiftKey: boolean;
+    altKey: boolean;
+    originalEvent: MouseEvent;
+}
+
+/**
+ * A tool (e.g. annotation drawing) that sees pointer input before pan and zoom.
+ * Handlers return true when they consume the event; a consumed pointerdown captures
+ * the whole gesture so the viewport does not pan underneath it.
+ */
+export interface InteractionTool {
+    onPointerDown?(e: ToolPointerEvent): boolean;
+    onPointerMove?(e: ToolPointerEvent): boolean;
+    onPointerUp?(e: ToolPointerEvent): boolean;
+    onDoubleClick?(e: ToolPointerEvent): boolean;
+}
+
+/**
+ * Built-in keyboard actions. 'fit' and 'actualSize' are registered by the renderer, which knows the image.
+ */
+export type KeyAction = 'panLeft' | 'panRight' | 'panUp' | 'panDown' | 'zoomIn' | 'zoomOut' | 'fit' | 'actualSize' | 'resetRotation';
+
+/**
+ * Keys per action name. Keys are `KeyboardEvent.key` values, letters in any case, optionally with
+ * 'Ctrl+', 'Alt+', 'Meta+' or (for named keys such as 'Shift+ArrowUp') 'Shift+' prefixes.
+ */
+export type KeyBindings = { [action: string]: string[] };
+
+export const DEFAULT_KEY_BINDINGS: { [action in KeyAction]: string[] } = {
+    panLeft: ['ArrowLeft', 'a'],
+    panRight: ['ArrowRight', 'd'],
+    panUp: ['ArrowUp', 'w'],
+    panDown: ['ArrowDown', 's'],
+    zoomIn: ['+', '='],
+    zoomOut: ['-', '_'],
+    fit: ['0'],
+    actualSize: ['1'],
+    resetRotation: ['r']
+};
+
+export interface InteractionOptions {
+    inertia: boolean;          // A fling keeps panning and slows down
+    smoothZoom: boolean;       // Animate wheel and double-click zoom
+    doubleClickZoom: boolean;  // Double-click or double-tap zooms in, with Shift out
+    keyboard: boolean;         // Key bindings work while the canvas has focus
+    keyBindings: KeyBindings;  // Merged over DEFAULT_KEY_BINDINGS per action
+    keyPanFraction: number;    // Share of the canvas size one pan key press moves
+    keyZoomFactor: number;     // Zoom multiplier of one zoom key press
+}
+
+export const DEFAULT_INTERACTION: InteractionOptions = {
+    inertia: true,
+    smoothZoom: true,
+    doubleClickZoom: true,
+    keyboard: true,
+    keyBindings: {},
+    keyPanFraction: 0.2,
+    keyZoomFactor: 1.5
+};
+
+const MODIFIERS = ['ctrl', 'alt', 'meta', 'shift'];
+
+const WHEEL_ZOOM_BASE = 1.001;     // Zoom factor per wheel pixel
+const WHEEL_LINE_HEIGHT = 16;      // Pixels per wheel line (deltaMode 1)
+const ZOOM_TIME_CONSTANT = 80;     // ms; animated zoom covers 63% of the remaining change in this time
+const INERTIA_TIME_CONSTANT = 325; // ms; a fling loses 63% of its speed in this time
+const MIN_FLING_SPEED = 0.2;       // Buffer pixels per ms; slower releases stop in place
+const MIN_COAST_SPEED = 0.01;      // Buffer pixels per ms where coasting ends
+const VELOCITY_WINDOW = 100;       // ms of pointer history that sets the release velocity
+const DOUBLE_TAP_TIME = 300;       // ms between taps
+const DOUBLE_TAP_DISTANCE = 30;    // CSS pixels between taps
+const TAP_SLOP = 10;               // CSS pixels a tap may move
+
+/**
+ * Wraps an angle difference to (-PI, PI] so gestures crossing the negative x axis turn the short way.
+ */
+function wrapAngle(radians: number): number {
+    if (radians > Math.PI) return radians - 2 * Math.PI;
+    if (radians <= -Math.PI) return radians + 2 * Math.PI;
+    return radians;
+}
+
+/**
+ * Normalizes a binding ('Shift+ArrowUp', 'W') or a key event to one string: modifiers in a fixed
+ * order, then the key, lowercase for single characters. The character already tells Shift apart
+ * for printable keys ('+' vs '='), so Shift counts only for named keys.
+ */
+function keyDescriptor(key: string, modifiers: { ctrl: boolean, alt: boolean, meta: boolean, shift: boolean }): string {
+    const printable = key.length === 1;
+    const parts = MODIFIERS.filter(m => modifiers[m as keyof typeof modifiers] && !(m === 'shift' && printable));
+    parts.push(printable ? key.toLowerCase() : key);
+    return parts.join('+');
+}
+
+function parseBinding(binding: string): string {
+    const parts = binding.split('+');
+    // A trailing empty part means the key itself is '+'
+    const key = binding.endsWith('+') ? '+' : parts.pop()!;
+    const modifiers = { ctrl: false, alt: false, meta: false, shift: false };
+    for (const part of parts.filter(p => p !== '')) {
+        const name = part.toLowerCase() === 'control' ? 'ctrl' : part.toLowerCase();
+        if (!MODIFIERS.includes(name)) {
+            throw new Error(`Unknown modifier "${part}" in key binding "${binding}". Use Ctrl, Alt, Meta or Shift.`);
+        }
+        modifiers[name as keyof typeof modifiers] = true;
+    }
+    return keyDescriptor(key, modifiers);
+}
+
+function mergeKeyBindings(keyBindings: KeyBindings): KeyBindings {
+    const bindings: KeyBindings = {};
+    for (const [action, keys] of Object.entries({ ...DEFAULT_KEY_BINDINGS, ...keyBindings })) {
+        bindings[action] = keys.slice();
+    }
+    return bindings;
+}
+
+/**
+ * Maps every bound key descriptor to its action; a key bound twice goes to the later action.
+ */
+function buildKeyMap(keyBindings: KeyBindings): Map<string, string> {
+    const keyMap = new Map<string, string>();
+    for (const [action, keys] of Object.entries(mergeKeyBindings(keyBindings))) {
+        for (const key of keys) {
+            keyMap.set(parseBinding(key), action);
+        }
+    }
+    return keyMap;
+}
+
+/**
+ * InteractionHandler turns Pointer Events on the canvas into viewport changes: mouse, touch and pen
+ * drag to pan, two pointers pan, pinch-zoom and twist, Shift-drag rotates, the wheel and double
+ * click/tap zoom. Wheel zoom and fling inertia animate on requestAnimationFrame.
+ *
+ * The canvas is made focusable and takes focus on pointer down, so key bindings work after a
+ * click or Tab. Apps add their own actions with registerKeyAction.
+ *
+ * A tool sees the first pointer of every gesture before the viewport does.
+ */
 export class InteractionHandler {
     element: HTMLElement;
     viewport: Viewport;
+    options: InteractionOptions;
     isDragging: boolean = false;
     lastX: number = 0;
     lastY: number = 0;
+    tool: InteractionTool | null = null;
+    private toolCaptured: boolean = false;
+    private rotating: boolean = false;   // Shift-drag turns the view about the canvas center
+    private pointers: Map<number, { x: number, y: number }> = new Map(); // Canvas buffer pixels by pointer id
+    private panSamples: { time: number, x: number, y: number }[] = [];   // Recent single-pointer positions
+    private velocity: { x: number, y: number } | null = null;            // Coasting, buffer pixels per ms
+    private pendingZoom: number = 0;     // Log of the zoom factor still to animate
+    private zoomAnchor: { x: number, y: number } = { x: 0, y: 0 };
+    private frame: number | null = null;
+    private lastFrameTime: number = 0;
+    private tap: { clientX: number, clientY: number, moved: boolean } | null = null;
+    private lastTap: { time: number, clientX: number, clientY: number } | null = null;
+    private lastPointerType: string = 'mouse';
+    private previousTouchAction: string;
+    private addedTabIndex: boolean = false;
+    private keyActions: Map<string, () => void> = new Map();
+    private keyMap: Map<string, string> = new Map(); // Key descriptor to action name
 
-    constructor(element: HTMLElement, viewport: Viewport) {
+    constructor(element: HTMLElement, viewport: Viewport, options: Partial<InteractionOptions> = {}) {
         this.element = element;
         this.viewport = viewport;
+        this.options = { ...DEFAULT_INTERACTION };
+        this.setOptions(options);
+
+        // The handler pans and zooms; the browser must not scroll or zoom the page under touch
+        this.previousTouchAction = element.style.touchAction;
+        element.style.touchAction = 'none';
+
+        // Canvases do not take keyboard focus by default
+        if (!element.hasAttribute('tabindex')) {
+            element.tabIndex = 0;
+            this.addedTabIndex = true;
+        }
+
+        this.keyActions.set('panLeft', () => this.panByFraction(-1, 0));
+        this.keyActions.set('panRight', () => this.panByFraction(1, 0));
+        this.keyActions.set('panUp', () => this.panByFraction(0, -1));
+        this.keyActions.set('panDown', () => this.panByFraction(0, 1));
+        this.keyActions.set('zoomIn', () => this.zoomAtCenter(this.options.keyZoomFactor));
+        this.keyActions.set('zoomOut', () => this.zoomAtCenter(1 / this.options.keyZoomFactor));
+        this.keyActions.set('resetRotation', () => this.viewport.setRotation(0));
 
-        this.element.addEventListener('wheel', this.onWheel.bind(this), { passive: false });
-        this.element.addEventListener('mousedown', this.onMouseDown.bind(this));
-        window.addEventListener('mousemove', this.onMouseMove.bind(this));
-        window.addEventListener('mouseup', this.onMouseUp.bind(this));
+        element.addEventListener('wheel', this.onWheel, { passive: false });
+        element.addEventListener('pointerdown', this.onPointerDown);
+        element.addEventListener('pointermove', this.onPointerMove);
+        element.addEventListener('pointerup', this.onPointerUp);
+        element.addEventListener('pointercancel', this.onPointerUp);
+        element.addEventListener('dblclick', this.onDoubleClick);
+        element.addEventListener('keydown', this.onKeyDown);
     }
 
-    onWheel(e: WheelEvent) {
+    /**
+     * Updates inertia, zoom and keyboard options.
+     * @param options - Options not given keep their current value; keyBindings merge per action
+     */
+    setOptions(options: Partial<InteractionOptions>) {
+        const keyBindings = { ...this.options.keyBindings, ...options.keyBindings };
+        const merged = { ...this.options, ...options, keyBindings };
+        if (!(merged.keyPanFraction > 0)) {
+            throw new Error("keyPanFraction must be positive.");
+        }
+        if (!(merged.keyZoomFactor > 1)) {
+            throw new Error("keyZoomFactor must be greater than 1.");
+        }
+        // Parse before applying so an invalid binding leaves the previous ones working
+        this.keyMap = buildKeyMap(keyBindings);
+        this.options = merged;
+        if (!this.options.inertia && this.velocity) {
+            this.velocity = null;
+            this.viewport.endInteraction();
+        }
+    }
+
+    /**
+     * Adds a keyboard action, or replaces the handler of an existing one (including built-ins).
+     * @param name - Action name, used in keyBindings
+     * @param handler - Runs on every key press, including auto-repeat
+     * @param keys - Keys to bind; without them the action keeps its configured keys
+     */
+    registerKeyAction(name: string, handler: () => void, keys?: string[]) {
+        this.keyActions.set(name, handler);
+        if (keys) {
+            this.setOptions({ keyBindings: { [name]: keys } });
+        }
+    }
+
+    /**
+     * Removes a keyboard action and its keys.
+     */
+    unregisterKeyAction(name: string) {
+        this.keyActions.delete(name);
+        const keyBindings = { ...this.options.keyBindings };
+        delete keyBindings[name];
+        this.options = { ...this.options, keyBindings };
+        this.keyMap = buildKeyMap(keyBindings);
+    }
+
+    /**
+     * Gets the keys of every action: defaults merged with the configured bindings.
+     */
+    getKeyBindings(): KeyBindings {
+        return mergeKeyBindings(this.options.keyBindings);
+    }
+
+    onKeyDown = (e: KeyboardEvent) => {
+        if (!this.options.keyboard) return;
+        const descriptor = keyDescriptor(e.key, { ctrl: e.ctrlKey, alt: e.altKey, meta: e.metaKey, shift: e.shiftKey });
+        const action = this.keyMap.get(descriptor);
+        const handler = action && this.keyActions.get(action);
+        if (!handler) return;
+        // Arrow keys would also scroll the page
         e.preventDefault();
-        const factor = Math.pow(1.001, -e.deltaY);
+        this.viewport.cancelAnimation();
+        handler();
+    };
+
+    /**
+     * Pans by a share of the canvas size along the screen axes.
+     */
+    private panByFraction(dx: number, dy: number) {
+        const canvas = this.element as HTMLCanvasElement;
+        const fraction = this.options.keyPanFraction;
+        // Moving the view right shows content further right, so the content moves left
+        this.viewport.panBy(-dx * fraction * canvas.width, -dy * fraction * canvas.height);
+    }
+
+    private zoomAtCenter(factor: number) {
+        const canvas = this.element as HTMLCanvasElement;
+        this.zoomBy(factor, canvas.width / 2, canvas.height / 2);
+    }
+
+    /**
+     * Maps client (CSS) pixels to canvas buffer pixels.
+     */
+    private toBuffer(clientX: number, clientY: number): { x: number, y: number } {
         const rect = this.element.getBoundingClientRect();
+        const canvas = this.element as HTMLCanvasElement;
+        return {
+            x: (clientX - rect.left) * (canvas.width / rect.width),
+            y: (clientY - rect.top) * (canvas.height / rect.height)
+        };
+    }
 
-        // Map CSS pixels to Canvas Buffer pixels
+    /**
+     * Angle of a canvas buffer point around the canvas center, clockwise on screen.
+     */
+    private angleAroundCenter(x: number, y: number): number {
         const canvas = this.element as HTMLCanvasElement;
-        const scaleX = canvas.width / rect.width;
-        const scaleY = canvas.height / rect.height;
+        return Math.atan2(y - canvas.height / 2, x - canvas.width / 2);
+    }
 
-        const x = (e.clientX - rect.left) * scaleX;
-        const y = (e.clientY - rect.top) * scaleY;
+    /**
+     * Converts a pointer event to canvas buffer and world coordinates for tools.
+     */
+    private toToolEvent(e: MouseEvent): ToolPointerEvent {
+        const { x, y } = this.toBuffer(e.clientX, e.clientY);
+        const world = this.viewport.screenToWorld(x, y);
+        return { x, y, worldX: world.x, worldY: world.y, button: e.button, shiftKey: e.shiftKey, altKey: e.altKey, originalEvent: e };
+    }
 
-        this.viewport.zoomAt(factor, x, y);
+    /**
+     * Zooms about a canvas point, animated when smoothZoom is on.
+     * @param factor - Zoom multiplier, above 1 to zoom in
+     */
+    zoomBy(factor: number, x: number, y: number) {
+        if (!this.options.smoothZoom) {
+            this.viewport.zoomAt(factor, x, y);
+            return;
+        }
+        this.pendingZoom += Math.log(factor);
+        this.zoomAnchor = { x, y };
+        this.startAnimation();
     }
 
-    onMouseDown(e: MouseEvent) {
+    onWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        this.viewport.cancelAnimation();
+        const delta = e.deltaMode === 1 ? e.deltaY * WHEEL_LINE_HEIGHT : e.deltaY;
+        const { x, y } = this.toBuffer(e.clientX, e.clientY);
+        this.zoomBy(Math.pow(WHEEL_ZOOM_BASE, -delta), x, y);
+    };
+
+    onPointerDown = (e: PointerEvent) => {
+        this.lastPointerType = e.pointerType;
+        this.velocity = null;
+        this.viewport.cancelAnimation();
+        this.element.focus?.({ preventScroll: true });
+
+        // Tools get the first pointer of a gesture and may capture it
+        if (this.pointers.size === 0 && !this.toolCaptured && this.tool?.onPointerDown?.(this.toToolEvent(e))) {
+            this.toolCaptured = true;
+            this.element.setPointerCapture?.(e.pointerId);
+            return;
+        }
+        if (this.toolCaptured) return;
+
+        this.element.setPointerCapture?.(e.pointerId);
+        this.pointers.set(e.pointerId, this.toBuffer(e.clientX, e.clientY));
+        if (this.pointers.size === 1) this.viewport.beginInteraction();
         this.isDragging = true;
+        this.rotating = this.pointers.size === 1 && e.shiftKey;
         this.lastX = e.clientX;
         this.lastY = e.clientY;
-    }
+        this.panSamples = [];
+        this.tap = this.pointers.size === 1 ? { clientX: e.clientX, clientY: e.clientY, moved: false } : null;
+    };
 
-    onMouseMove(e: MouseEvent) {
-        if (!this.isDragging) return;
-
-        const dx = e.clientX - this.lastX;
-        const dy = e.clientY - this.lastY;
+    onPointerMove = (e: PointerEvent) => {
+        if (e.isPrimary && this.tool?.onPointerMove) {
+            const consumed = this.tool.onPointerMove(this.toToolEvent(e));
+            if (consumed) return;
+        }
+        if (this.toolCaptured) return;
 
+        const previous = this.pointers.get(e.pointerId);
+        if (!previous) return;
+        const current = this.toBuffer(e.clientX, e.clientY);
+        const before = new Map(this.pointers);
+        this.pointers.set(e.pointerId, current);
         this.lastX = e.clientX;
         this.lastY = e.clientY;
 
-        const rect = this.element.getBoundingClientRect();
-        const canvas = this.element as HTMLCanvasElement;
-        const scaleX = canvas.width / rect.width;
-        const scaleY = canvas.height / rect.height;
+        if (this.tap && Math.hypot(e.clientX - this.tap.clientX, e.clientY - this.tap.clientY) > TAP_SLOP) {
+            this.tap.moved = true;
+        }
+
+        if (this.pointers.size >= 2) {
+            this.applyMultiPointer(before, this.pointers);
+            return;
+        }
 
-        // Convert screen delta to world delta (using buffer scale)
-        const bufferDx = dx * scaleX;
-        const bufferDy = dy * scaleY;
+        if (this.rotating) {
+            const canvas = this.element as HTMLCanvasElement;
+            const delta = wrapAngle(this.angleAroundCenter(current.x, current.y) - this.angleAroundCenter(previous.x, previous.y));
+            this.viewport.rotateAt(delta, canvas.width / 2, canvas.height / 2);
+            return;
+        }
 
-        const worldDx = -bufferDx / this.viewport.zoom;
-        const worldDy = -bufferDy / this.viewport.zoom;
+        // Screen delta in buffer pixels; the viewport turns it into a world delta
+        this.viewport.panBy(current.x - previous.x, current.y - previous.y);
+        const now = performance.now();
+        this.panSamples.push({ time: now, x: current.x, y: current.y });
+        while (this.panSamples.length > 2 && now - this.panSamples[0].time > VELOCITY_WINDOW) {
+            this.panSamples.shift();
+        }
+    };
 
-        this.viewport.move(worldDx, worldDy);
+    /**
+     * Two pointers pan with their midpoint, pinch to zoom and twist to rotate.
+     */
+    private applyMultiPointer(before: Map<number, { x: number, y: number }>, after: Map<number, { x: number, y: number }>) {
+        const [id0, id1] = Array.from(after.keys());
+        const [p0, p1] = [before.get(id0)!, before.get(id1)!];
+        const [c0, c1] = [after.get(id0)!, after.get(id1)!];
+        const from = { x: (p0.x + p1.x) / 2, y: (p0.y + p1.y) / 2 };
+        const to = { x: (c0.x + c1.x) / 2, y: (c0.y + c1.y) / 2 };
+        this.viewport.panBy(to.x - from.x, to.y - from.y);
+
+        const spanBefore = Math.hypot(p1.x - p0.x, p1.y - p0.y);
+        const spanAfter = Math.hypot(c1.x - c0.x, c1.y - c0.y);
+        if (spanBefore > 0 && spanAfter > 0) {
+            this.viewport.zoomAt(spanAfter / spanBefore, to.x, to.y);
+        }
+
+        const twist = wrapAngle(Math.atan2(c1.y - c0.y, c1.x - c0.x) - Math.atan2(p1.y - p0.y, p1.x - p0.x));
+        this.viewport.rotateAt(twist, to.x, to.y);
     }
 
-    onMouseUp() {
+    onPointerUp = (e: PointerEvent) => {
+        // Tools see every release so they can detect clicks that ended a short pan
+        if (e.isPrimary) {
+            this.tool?.onPointerUp?.(this.toToolEvent(e));
+        }
+        if (this.toolCaptured) {
+            if (e.isPrimary) this.toolCaptured = false;
+            return;
+        }
+        if (!this.pointers.delete(e.pointerId)) return;
+
+        if (this.pointers.size > 0) {
+            // The remaining pointer pans on from where it is; no tap and no fling
+            this.tap = null;
+            this.panSamples = [];
+            return;
+        }
+
         this.isDragging = false;
+        const wasRotating = this.rotating;
+        this.rotating = false;
+        if (e.type === 'pointerup') {
+            if (this.tap && !this.tap.moved && e.pointerType !== 'mouse') {
+                this.onTap(e);
+            } else if (!wasRotating && this.options.inertia) {
+                this.fling();
+            }
+        }
+        this.tap = null;
+        // A fling keeps the view stretched until it stops coasting
+        if (!this.velocity) this.viewport.endInteraction();
+    };
+
+    /**
+     * Starts coasting at the pointer's release velocity.
+     */
+    private fling() {
+        const now = performance.now();
+        const samples = this.panSamples.filter(s => now - s.time <= VELOCITY_WINDOW);
+        this.panSamples = [];
+        if (samples.length < 2) return;
+        const first = samples[0];
+        const last = samples[samples.length - 1];
+        const dt = last.time - first.time;
+        if (dt <= 0) return;
+        const velocity = { x: (last.x - first.x) / dt, y: (last.y - first.y) / dt };
+        if (Math.hypot(velocity.x, velocity.y) < MIN_FLING_SPEED) return;
+        this.velocity = velocity;
+        this.startAnimation();
+    }
+
+    /**
+     * A touch or pen tap; a second tap nearby soon after is a double-tap.
+     */
+    private onTap(e: PointerEvent) {
+        const now = performance.now();
+        const last = this.lastTap;
+        if (last && now - last.time <= DOUBLE_TAP_TIME &&
+            Math.hypot(e.clientX - last.clientX, e.clientY - last.clientY) <= DOUBLE_TAP_DISTANCE) {
+            this.lastTap = null;
+            this.handleDoubleClick(e);
+        } else {
+            this.lastTap = { time: now, clientX: e.clientX, clientY: e.clientY };
+        }
+    }
+
+    onDoubleClick = (e: MouseEvent) => {
+        // Touch and pen double-taps are detected from pointer events
+        if (this.lastPointerType !== 'mouse') return;
+        this.handleDoubleClick(e);
+    };
+
+    private handleDoubleClick(e: MouseEvent) {
+        if (this.tool?.onDoubleClick?.(this.toToolEvent(e))) {
+            e.preventDefault();
+            return;
+        }
+        if (!this.options.doubleClickZoom) return;
+        e.preventDefault();
+        this.viewport.cancelAnimation();
+        const { x, y } = this.toBuffer(e.clientX, e.clientY);
+        this.zoomBy(e.shiftKey ? 0.5 : 2, x, y);
     }
 
+    private startAnimation() {
+        if (this.frame !== null) return;
+        this.lastFrameTime = performance.now();
+        this.frame = requestAnimationFrame(this.animate);
+    }
+
+    /**
+     * Advances the wheel zoom and fling inertia by one display frame.
+     */
+    private animate = (time: number) => {
+        this.frame = null;
+        // A camera flight started by the app takes over
+        if (this.viewport.animating) {
+            this.pendingZoom = 0;
+            this.velocity = null;
+            return;
+        }
+        // Long gaps (a hidden tab) must not jump the view
+        const dt = Math.max(0, Math.min(time - this.lastFrameTime, 100));
+        this.lastFrameTime = time;
+
+        if (this.pendingZoom !== 0) {
+            const step = Math.abs(this.pendingZoom) < 1e-4
+                ? this.pendingZoom
+                : this.pendingZoom * (1 - Math.exp(-dt / ZOOM_TIME_CONSTANT));
+            this.pendingZoom -= step;
+            this.viewport.zoomAt(Math.exp(step), this.zoomAnchor.x, this.zoomAnchor.y);
+        }
+
+        if (this.velocity) {
+            this.viewport.panBy(this.velocity.x * dt, this.velocity.y * dt);
+            const decay = Math.exp(-dt / INERTIA_TIME_CONSTANT);
+            this.velocity = { x: this.velocity.x * decay, y: this.velocity.y * decay };
+            if (Math.hypot(this.velocity.x, this.velocity.y) < MIN_COAST_SPEED) {
+                this.velocity = null;
+                this.viewport.endInteraction();
+            }
+        }
+
+        if (this.pendingZoom !== 0 || this.velocity) {
+            this.frame = requestAnimationFrame(this.animate);
+        }
+    };
+
+    /**
+     * Removes all listeners and stops running animations.
+     */
     disconnect() {
-        this.element.removeEventListener('wheel', this.onWheel.bind(this));
-        this.element.removeEventListener('mousedown', this.onMouseDown.bind(this));
-        window.removeEventListener('mousemove', this.onMouseMove.bind(this));
-        window.removeEventListener('mouseup', this.onMouseUp.bind(this));
+        this.element.removeEventListener('wheel', this.onWheel);
+        this.element.removeEventListener('pointerdown', this.onPointerDown);
+        this.element.removeEventListener('pointermove', this.onPointerMove);
+        this.element.removeEventListener('pointerup', this.onPointerUp);
+        this.element.removeEventListener('pointercancel', this.onPointerUp);
+        this.element.removeEventListener('dblclick', this.onDoubleClick);
+        this.element.removeEventListener('keydown', this.onKeyDown);
+        this.element.style.touchAction = this.previousTouchAction;
+        if (this.addedTabIndex) {
+            this.element.removeAttribute('tabindex');
+            this.addedTabIndex = false;
+        }
+        if (this.frame !== null) {
+            cancelAnimationFrame(this.frame);
+            this.frame = null;
+        }
+        this.pointers.clear();
+        this.pendingZoom = 0;
+        this.velocity = null;
+        this.viewport.endInteraction();
+        this.toolCaptured = false;
+        this.isDragging = false;
     }
 }
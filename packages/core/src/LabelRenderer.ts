@@ -0,0 +1,230 @@
+import { Viewport } from './Viewport';
+import { GlyphAtlas } from './GlyphAtlas';
+import { VectorRenderer } from './VectorRenderer';
+import { LabelCandidate, VertexWriter } from './VectorLayer';
+import labelShaderSource from './shaders/label.wgsl?raw';
+
+const GLYPH_STRIDE = 44; // rect (4 x f32), uv rect (4 x f32), color (unorm8x4), halo (unorm8x4), halo edge (f32)
+const COLLISION_CELL = 64; // Screen pixels per collision grid cell
+const LABEL_PADDING = 2;   // Minimum screen distance between labels
+
+interface Box {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+/**
+ * LabelRenderer draws text labels for vector layers using a signed distance field glyph atlas.
+ *
+ * Labels are placed in screen space every time the view changes: candidates are sorted by
+ * priority and placed greedily, skipping any label whose box overlaps one already placed.
+ * Text keeps a constant screen size regardless of zoom.
+ */
+export class LabelRenderer {
+    private device: GPUDevice;
+    private pipeline: GPURenderPipeline;
+    private viewportBindGroup: GPUBindGroup;
+    private atlasBindGroup: GPUBindGroup;
+    private viewport: Viewport;
+    private vectorRenderer: VectorRenderer;
+
+    atlas: GlyphAtlas;
+
+    private instanceBuffer: GPUBuffer | null = null;
+    private instanceCount: number = 0;
+    private lastSignature: string = '';
+
+    constructor(device: GPUDevice, format: GPUTextureFormat, viewport: Viewport, vectorRenderer: VectorRenderer, fontFamily: string = 'sans-serif') {
+        this.device = device;
+        this.viewport = viewport;
+        this.vectorRenderer = vectorRenderer;
+        this.atlas = new GlyphAtlas(device, fontFamily);
+
+        const shaderModule = device.createShaderModule({ code: labelShaderSource });
+
+        const viewportLayout = device.createBindGroupLayout({
+            entries: [
+                { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: 'uniform' } } // Viewport
+            ]
+        });
+        const atlasLayout = device.createBindGroupLayout({
+            entries: [
+                { binding: 0, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: 'float' } },
+                { binding: 1, visibility: GPUShaderStage.FRAGMENT, sampler: { type: 'filtering' } }
+            ]
+        });
+
+        this.pipeline = device.createRenderPipeline({
+            layout: device.createPipelineLayout({ bindGroupLayouts: [viewportLayout, atlasLayout] }),
+            vertex: {
+                module: shaderModule,
+                entryPoint: 'vert_main',
+                buffers: [{
+                    arrayStride: GLYPH_STRIDE,
+                    stepMode: 'instance',
+                    attributes: [
+                        { shaderLocation: 0, offset: 0, format: 'float32x4' },
+                        { shaderLocation: 1, offset: 16, format: 'float32x4' },
+                        { shaderLocation: 2, offset: 32, format: 'unorm8x4' },
+                        { shaderLocation: 3, offset: 36, format: 'unorm8x4' },
+                        { shaderLocation: 4, offset: 40, format: 'float32' },
+                    ]
+                }]
+            },
+            fragment: {
+                module: shaderModule,
+                entryPoint: 'frag_main',
+                targets: [{
+                    format,
+                    blend: {
+                        color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+                        alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+                    }
+                }]
+            },
+            primitive: { topology: 'triangle-list' },
+        });
+
+        this.viewportBindGroup = device.createBindGroup({
+            layout: viewportLayout,
+            entries: [{ binding: 0, resource: { buffer: viewport.getBuffer() } }]
+        });
+
+        const sampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear' });
+        this.atlasBindGroup = device.createBindGroup({
+            layout: atlasLayout,
+            entries: [
+                { binding: 0, resource: this.atlas.texture.createView() },
+                { binding: 1, resource: sampler }
+            ]
+        });
+    }
+
+    /**
+     * Draws the labels of all visible vector layers into an open render pass.
+     * Must be called after VectorRenderer.draw so layer geometry is up to date.
+     */
+    draw(pass: GPURenderPassEncoder) {
+        const vp = this.viewport;
+        const signature = `${vp.center[0]},${vp.center[1]},${vp.zoom},${vp.rotation},${vp.size[0]},${vp.size[1]},${this.vectorRenderer.version},` +
+            this.vectorRenderer.layers.map(layer => layer.visible ? 1 : 0).join('');
+        if (signature !== this.lastSignature) {
+            this.layout();
+            this.lastSignature = signature;
+        }
+
+        if (this.instanceCount === 0 || !this.instanceBuffer) return;
+
+        pass.setPipeline(this.pipeline);
+        pass.setBindGroup(0, this.viewportBindGroup);
+        pass.setBindGroup(1, this.atlasBindGroup);
+        pass.setVertexBuffer(0, this.instanceBuffer);
+        pass.draw(6, this.instanceCount);
+    }
+
+    /**
+     * Places labels for the current view and rebuilds the glyph instance buffer.
+     */
+    private layout() {
+        const vp = this.viewport;
+        const width = vp.size[0];
+        const height = vp.size[1];
+
+        // Project on-screen candidates, keeping layer order as the tie breaker
+        const candidates: { label: LabelCandidate, x: number, y: number, order: number }[] = [];
+        for (const layer of this.vectorRenderer.layers) {
+            if (!layer.visible || layer.dirty) continue;
+            for (const label of layer.labels) {
+                const p = vp.worldToScreen(label.x, label.y);
+                const y = p.y + label.offsetY;
+                if (p.x < 0 || p.x > width || y < 0 || y > height) continue;
+                candidates.push({ label, x: p.x, y, order: candidates.length });
+            }
+        }
+        candidates.sort((a, b) => b.label.priority - a.label.priority || a.order - b.order);
+
+        const atlas = this.atlas;
+        const grid = new Map<number, Box[]>();
+        const cols = Math.ceil(width / COLLISION_CELL) + 1;
+        const cellsOf = (box: Box) => {
+            const cells: number[] = [];
+            const cx0 = Math.max(0, Math.floor(box.x0 / COLLISION_CELL));
+            const cy0 = Math.max(0, Math.floor(box.y0 / COLLISION_CELL));
+            const cx1 = Math.floor(box.x1 / COLLISION_CELL);
+            const cy1 = Math.floor(box.y1 / COLLISION_CELL);
+            for (let cy = cy0; cy <= cy1; cy++) {
+                for (let cx = cx0; cx <= Math.min(cx1, cols - 1); cx++) cells.push(cy * cols + cx);
+            }
+            return cells;
+        };
+
+        const writer = new VertexWriter();
+
+        for (const { label, x, y } of candidates) {
+            const scale = label.size / atlas.fontSize;
+            const glyphs = Array.from(label.text).map(char => atlas.getGlyph(char));
+            if (glyphs.some(glyph => !glyph)) continue; // Atlas full
+
+            let advance = 0;
+            for (const glyph of glyphs) advance += glyph!.advance;
+            const textWidth = advance * scale;
+            const textHeight = label.size * 1.2;
+
+            const halfW = textWidth / 2 + label.haloWidth + LABEL_PADDING;
+            const halfH = textHeight / 2 + label.haloWidth + LABEL_PADDING;
+            const box: Box = { x0: x - halfW, y0: y - halfH, x1: x + halfW, y1: y + halfH };
+
+            const cells = cellsOf(box);
+            const collides = cells.some(cell => grid.get(cell)?.some(other =>
+                box.x0 < other.x1 && box.x1 > other.x0 && box.y0 < other.y1 && box.y1 > other.y0
+            ));
+            if (collides) continue;
+            for (const cell of cells) {
+                const list = grid.get(cell);
+                if (list) list.push(box);
+                else grid.set(cell, [box]);
+            }
+
+            // Halo width in SDF units: the field drops by 1 / radius per atlas pixel
+            const haloEdge = Math.max(0, 0.75 - label.haloWidth / (scale * atlas.radius));
+
+            // Glyph cells are vertically centered on the text middle line
+            let penX = Math.round(x - textWidth / 2);
+            const top = y - glyphs[0]!.height * scale / 2;
+            for (const glyph of glyphs) {
+                const g = glyph!;
+                writer.float(
+                    penX - atlas.buffer * scale, top, g.width * scale, g.height * scale,
+                    g.x / atlas.size, g.y / atlas.size, g.width / atlas.size, g.height / atlas.size
+                );
+                writer.packed(label.color);
+                writer.packed(label.haloColor);
+                writer.float(haloEdge);
+                penX += g.advance * scale;
+            }
+        }
+
+        atlas.flush();
+
+        const array = writer.toArray();
+        this.instanceCount = array.byteLength / GLYPH_STRIDE;
+        if (this.instanceCount === 0) return;
+
+        if (!this.instanceBuffer || this.instanceBuffer.size < array.byteLength) {
+            this.instanceBuffer?.destroy();
+            this.instanceBuffer = this.device.createBuffer({
+                size: Math.max(array.byteLength, 4096),
+                usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+            });
+        }
+        this.device.queue.writeBuffer(this.instanceBuffer, 0, array);
+    }
+
+    destroy() {
+        this.instanceBuffer?.destroy();
+        this.instanceBuffer = null;
+        this.atlas.destroy();
+    }
+}
@@ -0,0 +1,124 @@
+import { GeoInfo } from './GeoTransform';
+import type { BandStatistics, Placement } from './TileManager';
+
+/**
+ * Which file shows where mosaic files overlap: the first or last in the source list,
+ * or the one with the finest pixel size.
+ */
+export type MosaicOverlap = 'first' | 'last' | 'highest-resolution';
+
+export const MOSAIC_OVERLAPS: MosaicOverlap[] = ['first', 'last', 'highest-resolution'];
+
+/**
+ * Shared world space of a mosaic: a pixel grid at the finest resolution of its files,
+ * covering the union of their footprints.
+ */
+export interface MosaicLayout {
+    width: number;
+    height: number;
+    geoTransform: number[]; // GDAL order, world pixels to CRS
+    placements: Placement[]; // Per file, in source order
+}
+
+/**
+ * Places north-up georeferenced images in one world pixel grid.
+ * @param images - Georeference and full resolution size of every file, in source order
+ * @throws Error when a file has no geotransform, is rotated, or uses another CRS or axis orientation
+ */
+export function computeMosaicLayout(images: { geoInfo: GeoInfo | null, width: number, height: number }[]): MosaicLayout {
+    if (!images.length) {
+        throw new Error("A mosaic needs at least one file.");
+    }
+
+    const transforms = images.map((image, i) => {
+        const gt = image.geoInfo?.geoTransform;
+        if (!gt) {
+            throw new Error(`Mosaic file ${i + 1} has no geotransform.`);
+        }
+        if (gt[2] !== 0 || gt[4] !== 0) {
+            throw new Error(`Mosaic file ${i + 1} is rotated; only north-up images can be mosaicked.`);
+        }
+        if (image.geoInfo!.epsg !== images[0].geoInfo!.epsg) {
+            throw new Error(`Mosaic file ${i + 1} is in EPSG:${image.geoInfo!.epsg}, the first file in EPSG:${images[0].geoInfo!.epsg}.`);
+        }
+        return gt;
+    });
+
+    // The finest pixel size becomes the world pixel
+    const reference = transforms.reduce((a, b) => Math.abs(b[1]) < Math.abs(a[1]) ? b : a);
+    const resX = reference[1];
+    const resY = reference[5];
+
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    transforms.forEach((gt, i) => {
+        if (Math.sign(gt[1]) !== Math.sign(resX) || Math.sign(gt[5]) !== Math.sign(resY)) {
+            throw new Error(`Mosaic file ${i + 1} is flipped relative to the other files.`);
+        }
+        const x1 = gt[0] + images[i].width * gt[1];
+        const y1 = gt[3] + images[i].height * gt[5];
+        minX = Math.min(minX, gt[0], x1);
+        maxX = Math.max(maxX, gt[0], x1);
+        minY = Math.min(minY, gt[3], y1);
+        maxY = Math.max(maxY, gt[3], y1);
+    });
+
+    const originX = resX > 0 ? minX : maxX;
+    const originY = resY < 0 ? maxY : minY;
+
+    return {
+        width: Math.ceil((maxX - minX) / Math.abs(resX) - 1e-6),
+        height: Math.ceil((maxY - minY) / Math.abs(resY) - 1e-6),
+        geoTransform: [originX, resX, 0, originY, 0, resY],
+        placements: transforms.map(gt => ({
+            x: (gt[0] - originX) / resX,
+            y: (gt[3] - originY) / resY,
+            scaleX: gt[1] / resX,
+            scaleY: gt[5] / resY
+        }))
+    };
+}
+
+/**
+ * Drawing order of the files (bottom first) so that the file chosen by the overlap rule ends up on top.
+ */
+export function mosaicDrawOrder(overlap: MosaicOverlap, placements: Placement[]): number[] {
+    const order = placements.map((_, i) => i);
+    if (overlap === 'first') return order.reverse();
+    if (overlap === 'highest-resolution') {
+        // Coarse files first; ties keep the source order
+        return order.sort((a, b) => placements[b].scaleX * placements[b].scaleY - placements[a].scaleX * placements[a].scaleY || a - b);
+    }
+    return order;
+}
+
+/**
+ * Combines per-file band statistics into mosaic statistics.
+ * Min, max, mean and standard deviation are exact over the samples. Percentiles are the
+ * sample-weighted average of the file percentiles, an approximation where files differ.
+ */
+export function mergeStatistics(files: BandStatistics[][]): BandStatistics[] {
+    const bandCount = Math.min(...files.map(f => f.length));
+    const merged: BandStatistics[] = [];
+    for (let band = 0; band < bandCount; band++) {
+        const parts = files.map(f => f[band]).filter(s => s.validCount > 0);
+        const count = parts.reduce((sum, s) => sum + s.validCount, 0);
+        if (!count) {
+            merged.push({ ...files[0][band] });
+            continue;
+        }
+        const mean = parts.reduce((sum, s) => sum + s.mean * s.validCount, 0) / count;
+        // Pooled variance: within-file variance plus the spread of the file means
+        const variance = parts.reduce((sum, s) => sum + s.validCount * (s.stdDev * s.stdDev + (s.mean - mean) ** 2), 0) / count;
+        merged.push({
+            band,
+            min: Math.min(...parts.map(s => s.min)),
+            max: Math.max(...parts.map(s => s.max)),
+            mean,
+            stdDev: Math.sqrt(variance),
+            percentiles: parts[0].percentiles.map((_, p) => parts.reduce((sum, s) => sum + s.percentiles[p] * s.validCount, 0) / count),
+            validCount: count,
+            source: parts.every(s => s.source === 'metadata') ? 'metadata' : 'overview'
+        });
+    }
+    return merged;
+}
@@ -0,0 +1,117 @@
+import { PixelValues } from './ImageLayer';
+
+export interface PixelInspectorOptions {
+    throttleMs: number; // Shortest time between two reads while the pointer moves
+}
+
+export const DEFAULT_PIXEL_INSPECTOR: PixelInspectorOptions = {
+    throttleMs: 100
+};
+
+/**
+ * PixelInspector reads the raw band values under the pointer for a live readout.
+ *
+ * Hovering reads at most one pixel per `throttleMs`, always the latest pointer position, and
+ * waits for a read to finish before starting the next so worker requests never pile up.
+ * `onPixel` receives null when the pointer leaves the canvas or is outside the image.
+ */
+export class PixelInspector {
+    options: PixelInspectorOptions;
+    onPixel: ((values: PixelValues | null) => void) | null = null;
+
+    private element: HTMLElement;
+    private read: (x: number, y: number) => Promise<PixelValues | null>;
+    private pending: { x: number, y: number } | null = null; // Canvas buffer pixels
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private reading: boolean = false;
+    private lastRead: number = -Infinity;
+    private inside: boolean = false;
+
+    /**
+     * @param read - Reads the values at a canvas point in buffer pixels, e.g. renderer.getPixelValues
+     */
+    constructor(element: HTMLElement, read: (x: number, y: number) => Promise<PixelValues | null>, options: Partial<PixelInspectorOptions> = {}) {
+        this.element = element;
+        this.read = read;
+        this.options = { ...DEFAULT_PIXEL_INSPECTOR };
+        this.setOptions(options);
+
+        element.addEventListener('pointermove', this.onPointerMove);
+        element.addEventListener('pointerleave', this.onPointerLeave);
+    }
+
+    /**
+     * Updates the throttle interval.
+     * @param options - Options not given keep their current value
+     */
+    setOptions(options: Partial<PixelInspectorOptions>) {
+        const merged = { ...this.options, ...options };
+        if (!(merged.throttleMs >= 0 && Number.isFinite(merged.throttleMs))) {
+            throw new Error("Pixel inspector throttleMs must be 0 or more.");
+        }
+        this.options = merged;
+    }
+
+    private onPointerMove = (e: PointerEvent) => {
+        const rect = this.element.getBoundingClientRect();
+        const canvas = this.element as HTMLCanvasElement;
+        this.inside = true;
+        this.pending = {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height)
+        };
+        this.schedule();
+    };
+
+    private onPointerLeave = () => {
+        this.inside = false;
+        this.pending = null;
+        this.clearTimer();
+        this.onPixel?.(null);
+    };
+
+    private schedule() {
+        if (this.timer !== null || this.reading || !this.pending) return;
+        const wait = Math.max(0, this.lastRead + this.options.throttleMs - performance.now());
+        this.timer = setTimeout(this.flush, wait);
+    }
+
+    private flush = async () => {
+        this.timer = null;
+        const point = this.pending;
+        this.pending = null;
+        if (!point) return;
+
+        this.lastRead = performance.now();
+        this.reading = true;
+        let values: PixelValues | null = null;
+        try {
+            values = await this.read(point.x, point.y);
+        } catch (err) {
+            console.warn("Could not read pixel values:", err);
+        }
+        this.reading = false;
+
+        // A result that arrives after the pointer left would overwrite the cleared readout
+        if (this.inside) this.onPixel?.(values);
+        this.schedule();
+    };
+
+    private clearTimer() {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Removes the listeners and drops pending reads.
+     */
+    disconnect() {
+        this.element.removeEventListener('pointermove', this.onPointerMove);
+        this.element.removeEventListener('pointerleave', this.onPointerLeave);
+        this.clearTimer();
+        this.pending = null;
+        this.inside = false;
+    }
+}
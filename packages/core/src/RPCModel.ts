@@ -0,0 +1,243 @@
+import { PixelTransform, Point } from './GeoTransform';
+
+/**
+ * Rational Polynomial Coefficients (RPC00B) as stored in TIFF tag 50844 or an _RPC.TXT / .RPB sidecar.
+ */
+export interface RPCCoefficients {
+    errBias: number;
+    errRand: number;
+    lineOff: number;
+    sampOff: number;
+    latOff: number;
+    longOff: number;
+    heightOff: number;
+    lineScale: number;
+    sampScale: number;
+    latScale: number;
+    longScale: number;
+    heightScale: number;
+    lineNumCoeff: number[]; // 20 terms each
+    lineDenCoeff: number[];
+    sampNumCoeff: number[];
+    sampDenCoeff: number[];
+}
+
+export interface GroundPoint {
+    lon: number;
+    lat: number;
+    height: number;
+}
+
+/**
+ * Height used for ground <-> image conversion: a constant in meters above the ellipsoid,
+ * or a DEM lookup returning the height at a lon/lat.
+ */
+export type RPCHeight = number | ((lon: number, lat: number) => number);
+
+/**
+ * Parses the 92 doubles of TIFF tag 50844 (RPCCoefficientTag).
+ * @returns Coefficients, or null if the tag is malformed
+ */
+export function parseRPCTag(values: ArrayLike<number>): RPCCoefficients | null {
+    if (!values || values.length < 92) return null;
+    const v = Array.from(values);
+    return {
+        errBias: v[0],
+        errRand: v[1],
+        lineOff: v[2],
+        sampOff: v[3],
+        latOff: v[4],
+        longOff: v[5],
+        heightOff: v[6],
+        lineScale: v[7],
+        sampScale: v[8],
+        latScale: v[9],
+        longScale: v[10],
+        heightScale: v[11],
+        lineNumCoeff: v.slice(12, 32),
+        lineDenCoeff: v.slice(32, 52),
+        sampNumCoeff: v.slice(52, 72),
+        sampDenCoeff: v.slice(72, 92)
+    };
+}
+
+/**
+ * Parses an RPC sidecar in either the GDAL/DigitalGlobe _RPC.TXT format
+ * (`LINE_NUM_COEFF_1: 0.0012`) or the .RPB format (`lineNumCoef = ( ... );`).
+ * @returns Coefficients, or null if required entries are missing
+ */
+export function parseRPCText(text: string): RPCCoefficients | null {
+    const values: { [key: string]: number[] } = {};
+
+    // .RPB: key = value; or key = ( v1, v2, ... );
+    const rpbRegex = /(\w+)\s*=\s*(\([^)]*\)|[^;=\n]+);/g;
+    let match;
+    while ((match = rpbRegex.exec(text)) !== null) {
+        const nums = match[2].replace(/[()"]/g, '').split(/[\s,]+/).filter(n => n).map(Number);
+        values[match[1].toUpperCase()] = nums;
+    }
+
+    // _RPC.TXT: KEY: value [unit]
+    const txtRegex = /^\s*([A-Z_0-9]+)\s*:\s*([-+0-9.eE]+)/gm;
+    while ((match = txtRegex.exec(text)) !== null) {
+        const key = match[1].toUpperCase();
+        const coeff = /^(\w+_COEFF)_(\d+)$/.exec(key);
+        if (coeff) {
+            (values[coeff[1]] = values[coeff[1]] || [])[Number(coeff[2]) - 1] = Number(match[2]);
+        } else {
+            values[key] = [Number(match[2])];
+        }
+    }
+
+    const scalar = (...keys: string[]) => {
+        for (const key of keys) {
+            if (values[key] && values[key].length && !isNaN(values[key][0])) return values[key][0];
+        }
+        return NaN;
+    };
+    const terms = (...keys: string[]) => {
+        for (const key of keys) {
+            if (values[key] && values[key].length === 20) return values[key];
+        }
+        return null;
+    };
+
+    const lineNumCoeff = terms('LINE_NUM_COEFF', 'LINENUMCOEF');
+    const lineDenCoeff = terms('LINE_DEN_COEFF', 'LINEDENCOEF');
+    const sampNumCoeff = terms('SAMP_NUM_COEFF', 'SAMPNUMCOEF');
+    const sampDenCoeff = terms('SAMP_DEN_COEFF', 'SAMPDENCOEF');
+    if (!lineNumCoeff || !lineDenCoeff || !sampNumCoeff || !sampDenCoeff) return null;
+
+    const rpc: RPCCoefficients = {
+        errBias: scalar('ERR_BIAS', 'ERRBIAS'),
+        errRand: scalar('ERR_RAND', 'ERRRAND'),
+        lineOff: scalar('LINE_OFF', 'LINEOFFSET'),
+        sampOff: scalar('SAMP_OFF', 'SAMPOFFSET'),
+        latOff: scalar('LAT_OFF', 'LATOFFSET'),
+        longOff: scalar('LONG_OFF', 'LONGOFFSET'),
+        heightOff: scalar('HEIGHT_OFF', 'HEIGHTOFFSET'),
+        lineScale: scalar('LINE_SCALE', 'LINESCALE'),
+        sampScale: scalar('SAMP_SCALE', 'SAMPSCALE'),
+        latScale: scalar('LAT_SCALE', 'LATSCALE'),
+        longScale: scalar('LONG_SCALE', 'LONGSCALE'),
+        heightScale: scalar('HEIGHT_SCALE', 'HEIGHTSCALE'),
+        lineNumCoeff,
+        lineDenCoeff,
+        sampNumCoeff,
+        sampDenCoeff
+    };
+
+    const required = [rpc.lineOff, rpc.sampOff, rpc.latOff, rpc.longOff, rpc.heightOff,
+        rpc.lineScale, rpc.sampScale, rpc.latScale, rpc.longScale, rpc.heightScale];
+    return required.some(isNaN) ? null : rpc;
+}
+
+/**
+ * RPC sensor model mapping lon/lat/height (WGS84) to raw image pixels and back.
+ *
+ * RPC line/sample address pixel centers, so results are shifted by half a pixel
+ * into the renderer's corner based pixel space.
+ * As a PixelTransform the CRS is EPSG:4326 (x = lon, y = lat) at the configured height.
+ */
+export class RPCModel implements PixelTransform {
+    rpc: RPCCoefficients;
+    height: RPCHeight;
+
+    constructor(rpc: RPCCoefficients, height: RPCHeight = rpc.heightOff) {
+        this.rpc = rpc;
+        this.height = height;
+    }
+
+    /**
+     * Projects a ground point into image pixel coordinates.
+     */
+    groundToImage(lon: number, lat: number, height: number): Point {
+        const r = this.rpc;
+        const L = (lon - r.longOff) / r.longScale;
+        const P = (lat - r.latOff) / r.latScale;
+        const H = (height - r.heightOff) / r.heightScale;
+        const t = RPCModel.terms(L, P, H);
+
+        const line = RPCModel.evaluate(r.lineNumCoeff, t) / RPCModel.evaluate(r.lineDenCoeff, t);
+        const samp = RPCModel.evaluate(r.sampNumCoeff, t) / RPCModel.evaluate(r.sampDenCoeff, t);
+
+        return {
+            x: samp * r.sampScale + r.sampOff + 0.5,
+            y: line * r.lineScale + r.lineOff + 0.5
+        };
+    }
+
+    /**
+     * Intersects the line of sight of an image pixel with a height surface.
+     * Uses Newton iterations on the forward model; with a DEM the height is refined until it settles.
+     * @param height - Height override, defaults to the model height
+     */
+    imageToGround(x: number, y: number, height: RPCHeight = this.height): GroundPoint {
+        let h = typeof height === 'number' ? height : this.rpc.heightOff;
+        let ground = this.solveAtHeight(x, y, h, this.rpc.longOff, this.rpc.latOff);
+
+        if (typeof height === 'function') {
+            for (let i = 0; i < 10; i++) {
+                const next = height(ground.lon, ground.lat);
+                if (!isFinite(next)) break;
+                const converged = Math.abs(next - h) < 0.01;
+                h = next;
+                ground = this.solveAtHeight(x, y, h, ground.lon, ground.lat);
+                if (converged) break;
+            }
+        }
+
+        return { lon: ground.lon, lat: ground.lat, height: h };
+    }
+
+    pixelToCrs(x: number, y: number): Point {
+        const g = this.imageToGround(x, y);
+        return { x: g.lon, y: g.lat };
+    }
+
+    crsToPixel(x: number, y: number): Point {
+        const h = typeof this.height === 'function' ? this.height(x, y) : this.height;
+        return this.groundToImage(x, y, isFinite(h) ? h : this.rpc.heightOff);
+    }
+
+    private solveAtHeight(x: number, y: number, h: number, lon: number, lat: number) {
+        const dLon = this.rpc.longScale * 1e-6;
+        const dLat = this.rpc.latScale * 1e-6;
+
+        for (let i = 0; i < 30; i++) {
+            const p = this.groundToImage(lon, lat, h);
+            const ex = x - p.x;
+            const ey = y - p.y;
+            if (Math.abs(ex) < 1e-8 && Math.abs(ey) < 1e-8) break;
+
+            // Numerical Jacobian of (x, y) with respect to (lon, lat)
+            const pLon = this.groundToImage(lon + dLon, lat, h);
+            const pLat = this.groundToImage(lon, lat + dLat, h);
+            const a = (pLon.x - p.x) / dLon;
+            const b = (pLat.x - p.x) / dLat;
+            const c = (pLon.y - p.y) / dLon;
+            const d = (pLat.y - p.y) / dLat;
+            const det = a * d - b * c;
+            if (det === 0 || !isFinite(det)) break;
+
+            lon += (d * ex - b * ey) / det;
+            lat += (a * ey - c * ex) / det;
+        }
+
+        return { lon, lat };
+    }
+
+    private static terms(L: number, P: number, H: number): number[] {
+        return [
+            1, L, P, H, L * P, L * H, P * H, L * L, P * P, H * H,
+            P * L * H, L * L * L, L * P * P, L * H * H, L * L * P,
+            P * P * P, P * H * H, L * L * H, P * P * H, H * H * H
+        ];
+    }
+
+    private static evaluate(coeffs: number[], terms: number[]): number {
+        let sum = 0;
+        for (let i = 0; i < 20; i++) sum += coeffs[i] * terms[i];
+        return sum;
+    }
+}
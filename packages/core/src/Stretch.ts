@@ -0,0 +1,167 @@
+export type StretchMode = 'linear' | 'gamma' | 'log' | 'sigmoid' | 'stddev' | 'equalize' | 'clahe';
+
+export interface StretchOptions {
+    mode: StretchMode;
+    gamma: number | number[];  // 'gamma': exponent per channel (one value, or R, G, B). > 1 brightens midtones
+    logScale: number;          // 'log': strength k of log(1 + k * t) / log(1 + k)
+    sigmoidContrast: number;   // 'sigmoid': slope of the curve
+    sigmoidMidpoint: number;   // 'sigmoid': 0-1 position along the display range
+    stdDevs: number;           // 'stddev': display range is mean ± stdDevs * σ of the visible pixels
+    claheClipLimit: number;    // 'clahe': histogram clip limit as a multiple of the mean bin count (>= 1)
+    claheTiles: number;        // 'clahe': regions per side of the view
+    brightness: number;        // Offset added after the stretch (-1 to 1)
+    contrast: number;          // Scale around mid-gray after the stretch (1 = unchanged)
+}
+
+/**
+ * Which range the renderer draws, in priority order: a manual range, the locked ADRA range,
+ * the live ADRA range (or mean ± N·σ for the 'stddev' stretch), then the image min/max.
+ */
+export type DisplayRangeSource = 'manual' | 'locked' | 'adra' | 'global';
+
+/**
+ * Per-channel (R, G, B) data values mapped to the ends of the stretch.
+ */
+export interface DisplayRange {
+    min: number[];
+    max: number[];
+}
+
+export interface DisplayRangeEvent extends DisplayRange {
+    source: DisplayRangeSource;
+}
+
+export const DEFAULT_STRETCH: StretchOptions = {
+    mode: 'linear',
+    gamma: 1,
+    logScale: 100,
+    sigmoidContrast: 10,
+    sigmoidMidpoint: 0.5,
+    stdDevs: 2,
+    claheClipLimit: 3,
+    claheTiles: 8,
+    brightness: 0,
+    contrast: 1
+};
+
+export const LUT_BINS = 256;      // Entries per equalization LUT
+export const MAX_CLAHE_TILES = 16;
+
+// Shader mode ids, see Settings.stretch in tile.wgsl. 'stddev' only changes the range, so it is linear on the GPU.
+// Both equalization modes look up a LUT: one global CDF, or a grid of CLAHE regions
+const SHADER_MODES: { [mode in StretchMode]: number } = { linear: 0, gamma: 1, log: 2, sigmoid: 3, stddev: 0, equalize: 4, clahe: 4 };
+
+/**
+ * The transfer function from the display range to screen intensity.
+ * Mirrors frag_main in tile.wgsl so legends can map positions back to data values.
+ */
+export class Stretch {
+    options: StretchOptions;
+
+    constructor(options: Partial<StretchOptions> = {}) {
+        const merged = { ...DEFAULT_STRETCH, ...options };
+        if (!(merged.mode in SHADER_MODES)) {
+            throw new Error(`Unknown stretch mode "${merged.mode}". Available: ${Object.keys(SHADER_MODES).join(', ')}.`);
+        }
+        const gamma = Array.isArray(merged.gamma) ? merged.gamma : [merged.gamma];
+        if (gamma.length !== 1 && gamma.length !== 3) {
+            throw new Error("Stretch gamma must be one value or three (R, G, B).");
+        }
+        if (!gamma.every(g => g > 0)) {
+            throw new Error("Stretch gamma must be positive.");
+        }
+        if (!(merged.logScale > 0)) {
+            throw new Error("Stretch logScale must be positive.");
+        }
+        if (!(merged.sigmoidContrast > 0)) {
+            throw new Error("Stretch sigmoidContrast must be positive.");
+        }
+        if (!(merged.stdDevs > 0)) {
+            throw new Error("Stretch stdDevs must be positive.");
+        }
+        if (!(merged.claheClipLimit >= 1)) {
+            throw new Error("Stretch claheClipLimit must be at least 1.");
+        }
+        if (!(Number.isInteger(merged.claheTiles) && merged.claheTiles >= 1 && merged.claheTiles <= MAX_CLAHE_TILES)) {
+            throw new Error(`Stretch claheTiles must be an integer between 1 and ${MAX_CLAHE_TILES}.`);
+        }
+        if (!(merged.contrast > 0)) {
+            throw new Error("Stretch contrast must be positive.");
+        }
+        this.options = merged;
+    }
+
+    /**
+     * Gamma per channel (R, G, B). A single value, bare or in a one-element array, applies to all three.
+     */
+    get gamma(): number[] {
+        const g = this.options.gamma;
+        if (!Array.isArray(g)) return [g, g, g];
+        return g.length === 1 ? [g[0], g[0], g[0]] : g.slice(0, 3);
+    }
+
+    /**
+     * LUT regions per side: the CLAHE grid, or 1 for the global equalization CDF.
+     */
+    get lutGrid(): number {
+        return this.options.mode === 'clahe' ? this.options.claheTiles : 1;
+    }
+
+    /**
+     * Settings uniform fields: stretch (mode, log scale, sigmoid contrast, sigmoid midpoint),
+     * gamma (R, G, B, unused), adjust (brightness, contrast, unused, unused) and lut (grid x, grid y, unused, unused).
+     */
+    toUniforms(): number[] {
+        const o = this.options;
+        return [
+            SHADER_MODES[o.mode], o.logScale, o.sigmoidContrast, o.sigmoidMidpoint,
+            ...this.gamma, 1,
+            o.brightness, o.contrast, 0, 0,
+            this.lutGrid, this.lutGrid, 0, 0
+        ];
+    }
+
+    /**
+     * Maps a linear position t (0 at min, 1 at max) to screen intensity, before clamping.
+     * Equalization depends on the pixels in view and is treated as linear here.
+     */
+    apply(t: number, channel = 0): number {
+        t = Math.min(1, Math.max(0, t));
+        const o = this.options;
+        let s = t;
+        switch (o.mode) {
+            case 'gamma':
+                s = Math.pow(t, 1 / this.gamma[channel]);
+                break;
+            case 'log':
+                s = Math.log1p(o.logScale * t) / Math.log1p(o.logScale);
+                break;
+            case 'sigmoid': {
+                const sig = (x: number) => 1 / (1 + Math.exp(o.sigmoidContrast * (o.sigmoidMidpoint - x)));
+                s = (sig(t) - sig(0)) / (sig(1) - sig(0));
+                break;
+            }
+        }
+        return (s - 0.5) * o.contrast + 0.5 + o.brightness;
+    }
+
+    /**
+     * Inverse of apply: the linear position that shows as intensity s.
+     */
+    invert(s: number, channel = 0): number {
+        const o = this.options;
+        s = Math.min(1, Math.max(0, (s - 0.5 - o.brightness) / o.contrast + 0.5));
+        switch (o.mode) {
+            case 'gamma':
+                return Math.pow(s, this.gamma[channel]);
+            case 'log':
+                return Math.expm1(s * Math.log1p(o.logScale)) / o.logScale;
+            case 'sigmoid': {
+                const sig = (x: number) => 1 / (1 + Math.exp(o.sigmoidContrast * (o.sigmoidMidpoint - x)));
+                const y = Math.min(1 - 1e-7, Math.max(1e-7, sig(0) + s * (sig(1) - sig(0))));
+                return Math.min(1, Math.max(0, o.sigmoidMidpoint - Math.log(1 / y - 1) / o.sigmoidContrast));
+            }
+        }
+        return s;
+    }
+}
@@ -1,5 +1,10 @@
 import { Viewport } from './Viewport';
 import { WorkerPool } from './WorkerPool';
+import { AffineTransform, GeoInfo, PixelTransform } from './GeoTransform';
+import { RPCCoefficients, RPCModel } from './RPCModel';
+import { GCPMethod, GCPTransform } from './GCPTransform';
+import { BandExpression } from './BandExpression';
+import type { MosaicOverlap } from './Mosaic';
 
 export interface BandMetadata {
     index: number;
@@ -7,11 +12,76 @@ export interface BandMetadata {
     description: string;
 }
 
+/**
+ * Whole-image statistics of one band, from the coarsest overview (or GDAL STATISTICS_* metadata).
+ */
+export interface BandStatistics {
+    band: number;
+    min: number;
+    max: number;
+    mean: number;
+    stdDev: number;
+    percentiles: number[];       // percentiles[p] for p = 0..100, from the overview samples
+    validCount: number;          // Overview samples used
+    source: 'metadata' | 'overview'; // Where min, max, mean and stdDev come from
+}
+
+/**
+ * Position of an image in world space: world = (x, y) + pixel * (scaleX, scaleY).
+ * The identity places full resolution pixels at world coordinates, as for a single image.
+ */
+export interface Placement {
+    x: number;
+    y: number;
+    scaleX: number;
+    scaleY: number;
+}
+
+/**
+ * Per-channel range of the displayed bands from whole-image statistics.
+ * @param bands - Selected bands; empty selects the first three bands, or the first band of single-band images
+ * @param mode - 'minmax' for the band extremes, 'percentile' for the clipLow/clipHigh percentiles (0-100)
+ * @returns The range, or null when a displayed band has no statistics
+ */
+export function statisticsRange(
+    statistics: BandStatistics[],
+    bands: number[],
+    mode: 'minmax' | 'percentile',
+    clipLow: number,
+    clipHigh: number
+): { min: number[], max: number[] } | null {
+    const percentile = (stats: BandStatistics, p: number) => {
+        const position = Math.max(0, Math.min(100, p)) / 100 * (stats.percentiles.length - 1);
+        const lo = Math.floor(position);
+        const hi = Math.min(stats.percentiles.length - 1, lo + 1);
+        return stats.percentiles[lo] + (stats.percentiles[hi] - stats.percentiles[lo]) * (position - lo);
+    };
+
+    const shown = bands.length ? bands : (statistics.length >= 3 ? [0, 1, 2] : [0]);
+    const channels = shown.length >= 3 ? shown.slice(0, 3) : [shown[0], shown[0], shown[0]];
+    const min: number[] = [];
+    const max: number[] = [];
+    for (const band of channels) {
+        const stats = statistics[band];
+        if (!stats || !stats.validCount) return null;
+        let lo = mode === 'minmax' ? stats.min : percentile(stats, clipLow);
+        let hi = mode === 'minmax' ? stats.max : percentile(stats, clipHigh);
+        if (hi <= lo) hi = lo + 1; // Prevent zero range
+        min.push(lo);
+        max.push(hi);
+    }
+    return { min, max };
+}
+
 export class TileManager {
+    private static nextSourceId = 0;
+
     device: GPUDevice;
     pipeline: GPURenderPipeline;
 
+    // Shared with the other layers; task ids are prefixed with sourceId
     workerPool: WorkerPool;
+    readonly sourceId: string = `source-${TileManager.nextSourceId++}`;
 
     // Cache
     tiles: Map<string, Tile> = new Map();
@@ -25,25 +95,55 @@ export class TileManager {
     globalMax: number = 255; // Default 8-bit
     hasGlobalStats: boolean = false;
 
+    // Whole-image statistics, available shortly after init
+    statistics: BandStatistics[] | null = null;
+    onStatistics: ((statistics: BandStatistics[]) => void) | null = null;
+    private statisticsRequest: number = 0;
+    private sampleRequest: number = 0;
+
     // Band metadata
     bandMetadata: BandMetadata[] = [];
     selectedBands: number[] = [];
     onBandsInitialized: ((bands: BandMetadata[], suggestedBands: number[]) => void) | null = null;
+    expression: BandExpression | null = null; // Band math, replaces selectedBands when set
+
+    // NoData: values read from the file and the policy deciding what is applied
+    fileNoData: (number | null)[] = [];
+    noDataPolicy: NoDataPolicy = { mode: 'file', values: [], threshold: null };
+
+    // Georeferencing
+    geoInfo: GeoInfo | null = null;
+    pixelTransform: PixelTransform | null = null;
+    rpcModel: RPCModel | null = null;
+    onRPC: ((rpc: RPCCoefficients) => void) | null = null; // RPCs from a sidecar, read after init
+    private rpcRequest: number = 0;
+    gcpTransform: GCPTransform | null = null;
+    gcpMethod: GCPMethod = 'auto';
+
+    placement: Placement = { x: 0, y: 0, scaleX: 1, scaleY: 1 };
 
     grayBindGroup: GPUBindGroup | undefined;
     grayUniformBuffer: GPUBuffer | undefined;
 
     levels: any[] = [];
+    missingTiles: number = 0; // Tiles of the last view's target level that are not loaded yet
     onInitComplete: ((width: number, height: number, tileSize: number, levels: any[]) => void) | null = null;
     version: number = 0;
 
-    constructor(device: GPUDevice, pipeline: GPURenderPipeline, workerFactory: () => Worker) {
+    constructor(device: GPUDevice, pipeline: GPURenderPipeline, workerPool: WorkerPool) {
         this.device = device;
         this.pipeline = pipeline;
-        this.workerPool = new WorkerPool(workerFactory);
+        this.workerPool = workerPool;
         this.initGrayPlaceholder();
     }
 
+    /**
+     * Worker pool task id of a tile or job, unique across the sources sharing the pool.
+     */
+    private taskId(id: string): string {
+        return `${this.sourceId}:${id}`;
+    }
+
     initGrayPlaceholder() {
         const texture = this.device.createTexture({
             size: [1, 1, 1],
@@ -79,7 +179,7 @@ export class TileManager {
         });
     }
 
-    async init(source: File | string) {
+    async init(source: File | string, options: LoadOptions = {}) {
         // Cleanup existing tiles
         for (const tile of this.tiles.values()) {
             if (tile.texture) tile.texture.destroy();
@@ -90,22 +190,51 @@ export class TileManager {
         this.imageHeight = 0;
         this.bandMetadata = [];
         this.selectedBands = [];
+        this.fileNoData = [];
+        this.geoInfo = null;
+        this.pixelTransform = null;
+        this.rpcModel = null;
+        this.gcpTransform = null;
         this.globalMin = 0;
         this.globalMax = 1;
         this.hasGlobalStats = false;
+        this.statistics = null;
+        this.statisticsRequest++;
+        this.rpcRequest++;
         this.version = 0;
 
         // Initialize workers and fetch metadata
         // 1. Broadcast init to all workers providing the source
-        this.workerPool.broadcast({ type: 'init', source });
+        this.workerPool.broadcast({ type: 'init', source, sourceId: this.sourceId });
 
         // 2. Send a specific task to one worker to retrieve the metadata response
         // Note: Sending 'init' again is safe as it's idempotent for metadata retrieval
-        const response = await this.workerPool.process('init-task', { type: 'init', source, id: 'init-task' }, 100);
+        const initId = this.taskId('init-task');
+        const response = await this.workerPool.process(initId, { type: 'init', source, sourceId: this.sourceId, id: initId }, 100);
 
         // Handle response
-        const { levels, bandMetadata, suggestedBands } = response;
+        const { levels, bandMetadata, suggestedBands, noData, geoInfo, rpc } = response;
         this.levels = levels;
+        this.fileNoData = noData || [];
+        this.geoInfo = geoInfo || null;
+
+        if (this.geoInfo && this.geoInfo.geoTransform) {
+            try {
+                this.pixelTransform = new AffineTransform(this.geoInfo.geoTransform);
+            } catch (e) {
+                console.warn("Ignoring invalid geotransform:", e);
+            }
+        }
+
+        // Without an affine georeference, RPCs provide the pixel <-> lon/lat mapping
+        if (rpc) {
+            this.rpcModel = new RPCModel(rpc);
+            if (!this.pixelTransform) this.pixelTransform = this.rpcModel;
+        }
+
+        if (this.geoInfo && this.geoInfo.gcps && this.geoInfo.gcps.length) {
+            this.setGCPMethod(this.gcpMethod);
+        }
         this.imageWidth = levels[0].width;
         this.imageHeight = levels[0].height;
         this.tileSize = levels[0].tileWidth;
@@ -115,13 +244,7 @@ export class TileManager {
             this.selectedBands = suggestedBands || [];
         }
 
-        if (this.grayUniformBuffer) {
-            const data = new Float32Array([
-                0, 0,
-                this.imageWidth, this.imageHeight
-            ]);
-            this.device.queue.writeBuffer(this.grayUniformBuffer, 0, data);
-        }
+        this.writeGrayUniform();
 
         if (this.onBandsInitialized && bandMetadata) {
             this.onBandsInitialized(this.bandMetadata, this.selectedBands);
@@ -130,11 +253,155 @@ export class TileManager {
         if (this.onInitComplete) {
             this.onInitComplete(this.imageWidth, this.imageHeight, this.tileSize, this.levels);
         }
+
+        this.requestStatistics();
+
+        // Tag 50844 wins over sidecars. Guessing sidecar names is only worth it without a geotransform
+        if (!rpc && options.rpcSidecar && (options.rpcSidecar !== 'auto' || !this.geoInfo?.geoTransform)) {
+            this.requestRPCSidecar(source, options.rpcSidecar);
+        }
+    }
+
+    private writeGrayUniform() {
+        if (!this.grayUniformBuffer) return;
+        const { x, y, scaleX, scaleY } = this.placement;
+        const data = new Float32Array([
+            x, y,
+            this.imageWidth * scaleX, this.imageHeight * scaleY
+        ]);
+        this.device.queue.writeBuffer(this.grayUniformBuffer, 0, data);
+    }
+
+    /**
+     * Positions the image in world space, e.g. within a mosaic. Cached tiles are dropped.
+     */
+    setPlacement(placement: Placement) {
+        this.placement = { ...placement };
+        this.writeGrayUniform();
+        this.clearTiles();
+    }
+
+    /**
+     * Computes whole-image statistics from the coarsest level in a worker, ahead of any tile.
+     */
+    requestStatistics() {
+        if (!this.levels.length) return;
+        const request = ++this.statisticsRequest;
+        const id = this.taskId(`statistics-${request}`);
+        const level = this.levels.reduce((a, b) => b.width < a.width ? b : a);
+
+        this.workerPool.process(id, {
+            type: 'statistics',
+            id,
+            sourceId: this.sourceId,
+            index: level.ifdIndex ?? level.index,
+            maskIndex: level.maskIndex,
+            noData: this.getNoDataValues(),
+            noDataThreshold: this.noDataPolicy.threshold
+        }, Number.MAX_SAFE_INTEGER)
+            .then(response => {
+                // A newer image or nodata policy supersedes this request
+                if (request !== this.statisticsRequest || !response.statistics) return;
+                this.statistics = response.statistics;
+                this.onStatistics?.(this.statistics!);
+            })
+            .catch(err => {
+                console.warn("Could not compute image statistics:", err);
+            });
+    }
+
+    /**
+     * Reads RPCs from a sidecar in a worker, so a slow or missing file does not hold up init.
+     * They replace a GCP fit as the pixel transform, like RPCs from the tag.
+     */
+    private requestRPCSidecar(source: File | string, sidecar: File | string) {
+        const request = ++this.rpcRequest;
+        const id = this.taskId(`rpc-${request}`);
+
+        this.workerPool.process(id, { type: 'rpc', id, source, sourceId: this.sourceId, sidecar }, Number.MAX_SAFE_INTEGER)
+            .then(response => {
+                // A newer image supersedes this request
+                if (request !== this.rpcRequest) return;
+                if (response.type === 'error') throw response.error;
+                if (!response.rpc) return;
+                this.rpcModel = new RPCModel(response.rpc);
+                if (!this.pixelTransform || this.pixelTransform === this.gcpTransform) {
+                    this.pixelTransform = this.rpcModel;
+                }
+                this.onRPC?.(response.rpc);
+            })
+            .catch(err => {
+                console.warn("Could not read the RPC sidecar:", err);
+            });
+    }
+
+    /**
+     * Reads the raw values of every band at a full resolution pixel in a worker.
+     * @param x - Column, an integer inside the image
+     * @param y - Row, an integer inside the image
+     * @returns The band values and whether the pixel holds data (not masked or nodata)
+     */
+    samplePixel(x: number, y: number): Promise<{ values: number[], valid: boolean }> {
+        const level = this.levels[0];
+        if (!level) return Promise.reject(new Error("No image is loaded."));
+        if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= this.imageWidth || y >= this.imageHeight) {
+            return Promise.reject(new Error(`Pixel (${x}, ${y}) is outside the image.`));
+        }
+        const id = this.taskId(`sample-${++this.sampleRequest}`);
+
+        // One pixel: ahead of tile decodes so a readout keeps up while tiles load
+        return this.workerPool.process(id, {
+            type: 'sample',
+            id,
+            sourceId: this.sourceId,
+            x,
+            y,
+            index: level.ifdIndex ?? level.index,
+            maskIndex: level.maskIndex,
+            noData: this.getNoDataValues(),
+            noDataThreshold: this.noDataPolicy.threshold
+        }, Number.MAX_SAFE_INTEGER)
+            .then(response => {
+                if (!response.values) throw new Error(`Could not read pixel (${x}, ${y}).`);
+                return { values: response.values, valid: response.valid };
+            });
+    }
+
+    /**
+     * Per-channel range of the displayed bands from the whole-image statistics.
+     * @param mode - 'minmax' for the band extremes, 'percentile' for the clipLow/clipHigh percentiles (0-100)
+     * @returns The range, or null before statistics arrive or while a band-math expression is shown
+     */
+    getStatisticsRange(mode: 'minmax' | 'percentile', clipLow: number, clipHigh: number): { min: number[], max: number[] } | null {
+        if (!this.statistics || this.expression) return null;
+        return statisticsRange(this.statistics, this.selectedBands, mode, clipLow, clipHigh);
+    }
+
+    /**
+     * Refits the GCP transform. It is used for pixel <-> CRS conversion when there is
+     * neither a geotransform nor an RPC model.
+     */
+    setGCPMethod(method: GCPMethod) {
+        this.gcpMethod = method;
+        const gcps = this.geoInfo?.gcps;
+        if (!gcps || !gcps.length) return;
+
+        const previous = this.gcpTransform;
+        try {
+            this.gcpTransform = new GCPTransform(gcps, method);
+        } catch (e) {
+            console.warn("Could not fit GCP transform:", e);
+            this.gcpTransform = null;
+        }
+
+        if (!this.pixelTransform || this.pixelTransform === previous) {
+            this.pixelTransform = this.gcpTransform;
+        }
     }
 
     getBestLevel(viewport: Viewport): number {
         if (!this.levels.length) return 0;
-        const targetRes = 1 / viewport.zoom;
+        const targetRes = 1 / (viewport.zoom * this.placement.scaleX);
         let bestLevel = 0;
         for (let i = 0; i < this.levels.length; i++) {
             const levelRes = this.imageWidth / this.levels[i].width;
@@ -150,8 +417,9 @@ export class TileManager {
     /**
      * Determine which tiles are visible and strictly request them.
      * Cancels filtered-out tiles.
+     * @param priorityBase - Worker priority of the tile at the view center; lower it to prefetch behind visible layers
      */
-    getVisibleTiles(viewport: Viewport): Tile[] {
+    getVisibleTiles(viewport: Viewport, priorityBase: number = 1000000000000): Tile[] {
         const visibleTiles: Tile[] = [];
         const currentFrameTime = Date.now();
 
@@ -160,9 +428,9 @@ export class TileManager {
                 id: 'background',
                 x: 0, y: 0, z: -1,
                 loaded: true,
-                worldX: 0, worldY: 0,
-                width: this.imageWidth,
-                height: this.imageHeight,
+                worldX: this.placement.x, worldY: this.placement.y,
+                width: this.imageWidth * this.placement.scaleX,
+                height: this.imageHeight * this.placement.scaleY,
                 lastUsed: currentFrameTime,
                 bindGroup: this.grayBindGroup
             });
@@ -179,19 +447,21 @@ export class TileManager {
         // Collect new requests to sort by priority
         const pendingRequests: { tile: Tile, index: number, priority: number }[] = [];
 
+        const { x: offsetX, y: offsetY, scaleX, scaleY } = this.placement;
+        const bounds = viewport.getWorldBounds();
+
         for (const level of sortedLevels) {
             const levelIndex = level.index;
             const downscale = this.levels[0].width / level.width;
             const tileW = level.tileWidth;
             const tileH = level.tileHeight;
 
-            // Viewport bounds calculation
-            const halfW = viewport.size[0] / 2 / viewport.zoom;
-            const halfH = viewport.size[1] / 2 / viewport.zoom;
-            const minX = viewport.center[0] - halfW;
-            const maxX = viewport.center[0] + halfW;
-            const minY = viewport.center[1] - halfH;
-            const maxY = viewport.center[1] + halfH;
+            // Viewport bounds calculation (axis-aligned around a rotated view)
+            // In full resolution pixels of this image
+            const minX = (bounds.minX - offsetX) / scaleX;
+            const maxX = (bounds.maxX - offsetX) / scaleX;
+            const minY = (bounds.minY - offsetY) / scaleY;
+            const maxY = (bounds.maxY - offsetY) / scaleY;
 
             const lMinX = minX / downscale;
             const lMaxX = maxX / downscale;
@@ -205,6 +475,11 @@ export class TileManager {
 
             for (let y = startY; y < endY; y++) {
                 for (let x = startX; x < endX; x++) {
+                    // Skip the corners of the bounds that a rotated view does not show
+                    const tileX = offsetX + x * tileW * downscale * scaleX;
+                    const tileY = offsetY + y * tileH * downscale * scaleY;
+                    if (!viewport.intersectsView(tileX, tileY, tileX + tileW * downscale * scaleX, tileY + tileH * downscale * scaleY)) continue;
+
                     const key = `${levelIndex}-${x}-${y}`;
                     requiredTiles.add(key);
 
@@ -212,16 +487,16 @@ export class TileManager {
 
                     if (levelIndex === targetLevelIndex) {
                         if (!tile) {
-                            const worldX = x * tileW * downscale;
-                            const worldY = y * tileH * downscale;
+                            const worldX = offsetX + x * tileW * downscale * scaleX;
+                            const worldY = offsetY + y * tileH * downscale * scaleY;
 
                             tile = {
                                 id: key,
                                 x, y, z: levelIndex,
                                 loaded: false,
                                 worldX, worldY,
-                                width: tileW * downscale,
-                                height: tileH * downscale,
+                                width: tileW * downscale * scaleX,
+                                height: tileH * downscale * scaleY,
                                 lastUsed: currentFrameTime
                             };
                             this.tiles.set(key, tile);
@@ -234,7 +509,7 @@ export class TileManager {
                             const distSq = dx * dx + dy * dy;
                             // Invert distance for priority (closer = higher)
                             // Use arbitrary large number - distance
-                            const priority = 1000000000000 - distSq;
+                            const priority = priorityBase - distSq;
 
                             // Queue request instead of sending immediately
                             pendingRequests.push({ tile, index: level.index, priority });
@@ -249,7 +524,7 @@ export class TileManager {
                             const dx = tileCenterW - viewport.center[0];
                             const dy = tileCenterH - viewport.center[1];
                             const distSq = dx * dx + dy * dy;
-                            const priority = 1000000000000 - distSq;
+                            const priority = priorityBase - distSq;
                             pendingRequests.push({ tile, index: level.index, priority });
                         }
                     }
@@ -266,6 +541,8 @@ export class TileManager {
             }
         }
 
+        this.missingTiles = pendingRequests.length;
+
         // Process collected requests sorted by priority
         pendingRequests.sort((a, b) => b.priority - a.priority);
         for (const req of pendingRequests) {
@@ -277,7 +554,7 @@ export class TileManager {
         for (const [key, tile] of this.tiles.entries()) {
             if (!tile.loaded && !requiredTiles.has(key)) {
                 // Abort loading if tile is no longer visible
-                this.workerPool.abort(key);
+                this.workerPool.abort(this.taskId(key));
             }
         }
 
@@ -300,31 +577,34 @@ export class TileManager {
             if (tile.lastUsed === activeTime) continue;
 
             if (tile.texture) tile.texture.destroy();
-            this.workerPool.abort(key); // Ensure aborted
+            this.workerPool.abort(this.taskId(key)); // Ensure aborted
             this.tiles.delete(key);
             removed++;
         }
     }
 
     screenToWorld(sx: number, sy: number, viewport: Viewport) {
-        const wx = (sx - viewport.size[0] / 2) / viewport.zoom + viewport.center[0];
-        const wy = (sy - viewport.size[1] / 2) / viewport.zoom + viewport.center[1];
-        return { x: wx, y: wy };
+        return viewport.screenToWorld(sx, sy);
     }
 
     requestTile(tile: Tile, index: number, priority: number) {
         const req = {
             type: 'decode',
-            id: tile.id,
+            id: this.taskId(tile.id),
+            sourceId: this.sourceId,
             tileX: tile.x * (this.levels[tile.z].tileWidth),
             tileY: tile.y * (this.levels[tile.z].tileHeight),
             tileZ: tile.z,
-            index: index,
+            index: this.levels[tile.z].ifdIndex ?? index,
+            maskIndex: this.levels[tile.z].maskIndex,
             tileSize: this.levels[tile.z].tileWidth,
-            bandIndices: this.selectedBands.length > 0 ? this.selectedBands : undefined
+            bandIndices: this.selectedBands.length > 0 ? this.selectedBands : undefined,
+            noData: this.getNoDataValues(),
+            noDataThreshold: this.noDataPolicy.threshold,
+            expression: this.expression ? this.expression.toJSON() : undefined
         };
 
-        this.workerPool.process(tile.id, req, priority)
+        this.workerPool.process(req.id, req, priority)
             .then(data => {
                 if (data && data.data) {
                     this.handleTileDecoded(tile, data);
@@ -341,11 +621,13 @@ export class TileManager {
     }
 
     handleTileDecoded(tile: Tile, result: any) {
-        const { data, min, max } = result;
+        const { data, min, max, width, height } = result;
         if (!data) return;
 
-        // Update Global Stats
-        if (!this.hasGlobalStats) {
+        // Update Global Stats (tiles with only nodata report min > max)
+        if (min > max) {
+            // Nothing to contribute
+        } else if (!this.hasGlobalStats) {
             this.globalMin = min;
             this.globalMax = max;
             this.hasGlobalStats = true;
@@ -354,7 +636,7 @@ export class TileManager {
             if (max > this.globalMax) this.globalMax = max;
         }
 
-        this.uploadTile(tile, data);
+        this.uploadTile(tile, data, width, height);
         tile.loaded = true;
         tile.min = min;
         tile.max = max;
@@ -363,9 +645,40 @@ export class TileManager {
 
     setBands(bandIndices: number[]) {
         this.selectedBands = bandIndices;
+        this.clearTiles();
+    }
+
+    /**
+     * Switches tiles to band-math decoding (every band the expression reads), or back to selectedBands.
+     */
+    setExpression(expression: BandExpression | null) {
+        this.expression = expression;
+        this.clearTiles();
+    }
+
+    /**
+     * Resolves the per-band nodata values the decoder should apply under the current policy.
+     */
+    getNoDataValues(): (number | null)[] {
+        const { mode, values } = this.noDataPolicy;
+        if (mode === 'none') return [];
+        if (mode === 'custom') return values;
+        return this.fileNoData;
+    }
+
+    setNoDataPolicy(policy: Partial<NoDataPolicy>) {
+        this.noDataPolicy = { ...this.noDataPolicy, ...policy };
+        this.clearTiles();
+        this.requestStatistics();
+    }
+
+    /**
+     * Drops all cached tiles so they are decoded again with the current settings.
+     */
+    clearTiles() {
         for (const tile of this.tiles.values()) {
             if (tile.texture) tile.texture.destroy();
-            this.workerPool.abort(tile.id);
+            this.workerPool.abort(this.taskId(tile.id));
         }
         this.tiles.clear();
         this.globalMin = 0;
@@ -374,9 +687,13 @@ export class TileManager {
         this.version++;
     }
 
-    uploadTile(tile: Tile, data: Float32Array) {
-        const dim = Math.sqrt(data.length / 4);
-        const bytesPerRow = dim * 16;
+    /**
+     * Uploads decoded RGBA float data. Tiles are square unless a band-math layout is wider.
+     */
+    uploadTile(tile: Tile, data: Float32Array, width?: number, height?: number) {
+        const dim = height || Math.sqrt(data.length / 4);
+        const rowWidth = width || dim;
+        const bytesPerRow = rowWidth * 16;
         const alignedBytesPerRow = Math.ceil(bytesPerRow / 256) * 256;
         const needsPadding = bytesPerRow !== alignedBytesPerRow;
 
@@ -384,7 +701,7 @@ export class TileManager {
         if (needsPadding) {
             const padded = new Float32Array((alignedBytesPerRow / 4) * dim);
             for (let y = 0; y < dim; y++) {
-                const srcRow = data.subarray(y * dim * 4, (y + 1) * dim * 4);
+                const srcRow = data.subarray(y * rowWidth * 4, (y + 1) * rowWidth * 4);
                 const dstOffset = (y * alignedBytesPerRow) / 4;
                 padded.set(srcRow, dstOffset);
             }
@@ -392,7 +709,7 @@ export class TileManager {
         }
 
         tile.texture = this.device.createTexture({
-            size: [dim, dim, 1],
+            size: [rowWidth, dim, 1],
             format: 'rgba32float',
             usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
         });
@@ -401,7 +718,7 @@ export class TileManager {
             { texture: tile.texture },
             uploadData as any,
             { bytesPerRow: alignedBytesPerRow, rowsPerImage: dim },
-            [dim, dim, 1]
+            [rowWidth, dim, 1]
         );
 
         // Create Uniform Buffer for Tile Transform
@@ -435,6 +752,21 @@ export class TileManager {
     get pendingRequests(): number {
         return this.workerPool.pendingCount;
     }
+
+    /**
+     * Aborts this source's tasks, frees its textures and closes the file in the workers.
+     * The shared worker pool keeps running.
+     */
+    destroy() {
+        this.statisticsRequest++;
+        this.rpcRequest++;
+        this.clearTiles();
+        this.workerPool.broadcast({ type: 'close', sourceId: this.sourceId });
+        this.onInitComplete = null;
+        this.onBandsInitialized = null;
+        this.onStatistics = null;
+        this.onRPC = null;
+    }
 }
 
 export interface Tile {
@@ -454,9 +786,27 @@ export interface Tile {
     max?: number;
 }
 
+export interface LoadOptions {
+    rpcSidecar?: File | string; // _RPC.TXT or .RPB sidecar for images without tag 50844, or 'auto' to look next to a URL source
+    overlap?: MosaicOverlap;    // Mosaics: which file shows where files overlap (default 'last')
+}
+
+export interface NoDataPolicy {
+    mode: 'file' | 'custom' | 'none'; // file = GDAL nodata from the TIFF, custom = `values`, none = no masking
+    values: (number | null)[];        // Per-band nodata for 'custom' mode (NaN allowed, null = none)
+    threshold: number | null;         // Opt-in: treat pixels below this as transparent (lossy JPEG edges)
+}
+
+export interface GlobalRangeOptions {
+    mode: 'minmax' | 'percentile'; // Whole-image band extremes, or percentiles for a consistent clipped stretch
+    clipLow: number;               // 0-100, 'percentile' mode
+    clipHigh: number;              // 0-100, 'percentile' mode
+}
+
 export interface ADRAOptions {
     clipLow: number;  // 0-100
     clipHigh: number; // 0-100
     padLow: number;   // 0-100 (percent of range)
     padHigh: number;  // 0-100 (percent of range)
+    sampleSize: number; // Analysis resolution per side (16-1024). Higher sees finer detail at more GPU cost
 }
@@ -0,0 +1,171 @@
+export interface TimeStackEntry {
+    time: Date | number | string; // Date, epoch milliseconds or an ISO 8601 string
+    source: File | string;
+}
+
+export interface TimeStackOptions {
+    fps: number;             // Playback frame rate
+    loop: boolean;           // Playback and stepping wrap around at the ends
+    prefetch: number;        // Frames ahead of the current one whose tiles are loaded in the background
+    freezeStretch: boolean;  // Keep the display range of the first frame shown so brightness stays comparable
+}
+
+export const DEFAULT_TIME_STACK: TimeStackOptions = {
+    fps: 2,
+    loop: true,
+    prefetch: 2,
+    freezeStretch: false
+};
+
+const MAX_PREFETCH = 8;
+
+/**
+ * TimeStack is an image source made of one COG per timestamp, shown one frame at a time.
+ * Load it into a layer like a file or URL; the layer draws the current frame and prefetches
+ * the tiles of the next ones.
+ *
+ * Frames are sorted by time. Playback waits on frames whose tiles are still loading,
+ * so a slow network lowers the frame rate instead of skipping frames.
+ */
+export class TimeStack {
+    readonly entries: { time: Date, source: File | string }[];
+    options: TimeStackOptions;
+    index: number = 0;
+    playing: boolean = false;
+
+    onTimeChange: ((index: number, time: Date) => void) | null = null;
+    onPlaybackChange: ((playing: boolean) => void) | null = null;
+
+    // Set by the layer showing the stack: whether a frame can be shown without waiting for tiles
+    isFrameReady: ((index: number) => boolean) | null = null;
+
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(entries: TimeStackEntry[], options: Partial<TimeStackOptions> = {}) {
+        if (!entries.length) {
+            throw new Error("A time stack needs at least one entry.");
+        }
+        this.entries = entries
+            .map((entry, i) => {
+                const time = new Date(entry.time);
+                if (isNaN(time.getTime())) {
+                    throw new Error(`Time stack entry ${i + 1} has an invalid timestamp "${entry.time}".`);
+                }
+                return { time, source: entry.source };
+            })
+            .sort((a, b) => a.time.getTime() - b.time.getTime());
+        this.options = { ...DEFAULT_TIME_STACK };
+        this.setOptions(options);
+    }
+
+    get length(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Timestamp of the current frame.
+     */
+    get time(): Date {
+        return this.entries[this.index].time;
+    }
+
+    /**
+     * Updates playback, prefetch and stretch options. A new frame rate applies to running playback.
+     * @param options - Options not given keep their current value
+     */
+    setOptions(options: Partial<TimeStackOptions>) {
+        const merged = { ...this.options, ...options };
+        if (!(merged.fps > 0 && merged.fps <= 60)) {
+            throw new Error("Time stack fps must be greater than 0 and at most 60.");
+        }
+        if (!Number.isInteger(merged.prefetch) || merged.prefetch < 0 || merged.prefetch > MAX_PREFETCH) {
+            throw new Error(`Time stack prefetch must be an integer from 0 to ${MAX_PREFETCH}.`);
+        }
+        const restart = this.playing && merged.fps !== this.options.fps;
+        this.options = merged;
+        if (restart) this.play();
+    }
+
+    /**
+     * Shows a frame.
+     * @param index - Frame index in time order
+     */
+    setTime(index: number) {
+        if (!Number.isInteger(index) || index < 0 || index >= this.entries.length) {
+            throw new Error(`Time index ${index} is out of range (0-${this.entries.length - 1}).`);
+        }
+        if (index === this.index) return;
+        this.index = index;
+        this.onTimeChange?.(index, this.time);
+    }
+
+    /**
+     * Moves forward (positive) or back (negative) by a number of frames.
+     * Stops at the ends unless the stack loops.
+     */
+    step(delta: number = 1) {
+        const next = this.offset(delta);
+        if (next !== null) this.setTime(next);
+    }
+
+    /**
+     * Index of the frame `delta` frames away from the current one, or null past the ends of a non-looping stack.
+     */
+    offset(delta: number): number | null {
+        const target = this.index + delta;
+        if (this.options.loop) {
+            const n = this.entries.length;
+            return ((target % n) + n) % n;
+        }
+        return target >= 0 && target < this.entries.length ? target : null;
+    }
+
+    /**
+     * Frames to prefetch, nearest first.
+     */
+    upcoming(): number[] {
+        const frames: number[] = [];
+        for (let k = 1; k <= this.options.prefetch; k++) {
+            const frame = this.offset(k);
+            if (frame === null || frame === this.index || frames.includes(frame)) break;
+            frames.push(frame);
+        }
+        return frames;
+    }
+
+    /**
+     * Starts stepping forward at a fixed frame rate. Without looping, playback stops at the last frame.
+     * @param fps - Frame rate; defaults to the `fps` option
+     */
+    play(fps?: number) {
+        if (fps !== undefined) this.setOptions({ fps });
+        if (this.timer !== null) clearInterval(this.timer);
+        this.timer = setInterval(() => this.tick(), 1000 / this.options.fps);
+        if (!this.playing) {
+            this.playing = true;
+            this.onPlaybackChange?.(true);
+        }
+    }
+
+    pause() {
+        if (this.timer !== null) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        if (this.playing) {
+            this.playing = false;
+            this.onPlaybackChange?.(false);
+        }
+    }
+
+    private tick() {
+        const next = this.offset(1);
+        if (next === null) {
+            this.pause();
+            return;
+        }
+        // Hold the current frame until the next one has its tiles
+        if (this.isFrameReady && !this.isFrameReady(next)) return;
+        this.setTime(next);
+    }
+}
@@ -0,0 +1,482 @@
+import earcut from 'earcut';
+import { Point } from './GeoTransform';
+
+/**
+ * Minimal GeoJSON typings (RFC 7946) for the overlay API.
+ */
+export type Position = number[];
+
+export type GeoJSONGeometry =
+    | { type: 'Point', coordinates: Position }
+    | { type: 'MultiPoint', coordinates: Position[] }
+    | { type: 'LineString', coordinates: Position[] }
+    | { type: 'MultiLineString', coordinates: Position[][] }
+    | { type: 'Polygon', coordinates: Position[][] }
+    | { type: 'MultiPolygon', coordinates: Position[][][] }
+    | { type: 'GeometryCollection', geometries: GeoJSONGeometry[] };
+
+export interface GeoJSONFeature {
+    type: 'Feature';
+    id?: string | number;
+    geometry: GeoJSONGeometry | null;
+    properties: { [key: string]: any } | null;
+}
+
+export interface GeoJSONFeatureCollection {
+    type: 'FeatureCollection';
+    features: GeoJSONFeature[];
+}
+
+export type GeoJSON = GeoJSONFeatureCollection | GeoJSONFeature | GeoJSONGeometry;
+
+/**
+ * CSS hex color ('#f00', '#ff0000', '#ff000080') or [r, g, b(, a)] with components in 0-1.
+ */
+export type Color = string | number[];
+
+export interface VectorStyle {
+    strokeColor: Color;
+    strokeWidth: number;   // Screen pixels
+    strokeOpacity: number; // 0-1
+    fillColor: Color;
+    fillOpacity: number;   // 0-1
+    pointRadius: number;   // Screen pixels
+    opacity: number;       // 0-1, applied to the whole layer
+    textColor: Color;
+    textSize: number;      // Screen pixels, constant across zoom levels
+    textHaloColor: Color;
+    textHaloWidth: number; // Screen pixels
+}
+
+export interface VectorLayerOptions {
+    coordinates: 'pixel' | 'crs'; // pixel = full resolution image pixels, crs = image CRS (needs georeferencing)
+    featureStyle?: (feature: GeoJSONFeature) => Partial<VectorStyle>; // Per-feature overrides
+    label?: string | ((feature: GeoJSONFeature) => string | null | undefined);  // Property name or function
+    labelPriority?: string | ((feature: GeoJSONFeature) => number);            // Higher wins collisions
+}
+
+/**
+ * A label anchor in image pixel space, produced when a layer is built.
+ */
+export interface LabelCandidate {
+    x: number;
+    y: number;
+    offsetY: number;  // Screen pixel offset (keeps point labels above their marker)
+    text: string;
+    priority: number;
+    color: number;    // Packed RGBA
+    haloColor: number;
+    size: number;
+    haloWidth: number;
+}
+
+export const DEFAULT_VECTOR_STYLE: VectorStyle = {
+    strokeColor: '#ffcc00',
+    strokeWidth: 2,
+    strokeOpacity: 1,
+    fillColor: '#ffcc00',
+    fillOpacity: 0.25,
+    pointRadius: 5,
+    opacity: 1,
+    textColor: '#ffffff',
+    textSize: 14,
+    textHaloColor: '#000000',
+    textHaloWidth: 1.5
+};
+
+// Interleaved layouts (bytes)
+export const FILL_STRIDE = 12;  // position f32x2, color unorm8x4
+export const LINE_STRIDE = 24;  // p0 f32x2, p1 f32x2, color unorm8x4, width f32
+export const POINT_STRIDE = 24; // center f32x2, fill unorm8x4, stroke unorm8x4, radius f32, strokeWidth f32
+
+/**
+ * Parses a color into RGBA bytes packed little-endian into a u32 (matches unorm8x4).
+ */
+export function packColor(color: Color, opacity: number = 1): number {
+    let rgba = [0, 0, 0, 1];
+    if (Array.isArray(color)) {
+        rgba = [color[0] ?? 0, color[1] ?? 0, color[2] ?? 0, color[3] ?? 1];
+    } else if (typeof color === 'string' && color.startsWith('#')) {
+        let hex = color.slice(1);
+        if (hex.length === 3 || hex.length === 4) hex = hex.split('').map(c => c + c).join('');
+        const n = (i: number) => parseInt(hex.slice(i, i + 2), 16) / 255;
+        rgba = [n(0), n(2), n(4), hex.length >= 8 ? n(6) : 1];
+    }
+    const byte = (v: number) => Math.round(Math.max(0, Math.min(1, v)) * 255);
+    return (byte(rgba[0]) | (byte(rgba[1]) << 8) | (byte(rgba[2]) << 16) | (byte(rgba[3] * opacity) << 24)) >>> 0;
+}
+
+/**
+ * Growable interleaved buffer of f32 and packed u32 values.
+ */
+export class VertexWriter {
+    private data: ArrayBuffer;
+    private f32: Float32Array;
+    private u32: Uint32Array;
+    length: number = 0; // In 4-byte words
+
+    constructor(initialWords: number = 1024) {
+        this.data = new ArrayBuffer(initialWords * 4);
+        this.f32 = new Float32Array(this.data);
+        this.u32 = new Uint32Array(this.data);
+    }
+
+    private reserve(words: number) {
+        if (this.length + words <= this.f32.length) return;
+        const next = new ArrayBuffer(Math.max(this.data.byteLength * 2, (this.length + words) * 4));
+        new Uint8Array(next).set(new Uint8Array(this.data));
+        this.data = next;
+        this.f32 = new Float32Array(next);
+        this.u32 = new Uint32Array(next);
+    }
+
+    float(...values: number[]) {
+        this.reserve(values.length);
+        for (const v of values) this.f32[this.length++] = v;
+    }
+
+    packed(value: number) {
+        this.reserve(1);
+        this.u32[this.length++] = value;
+    }
+
+    toArray(): Float32Array<ArrayBuffer> {
+        return this.f32.slice(0, this.length);
+    }
+}
+
+export interface VectorGeometry {
+    fill: Float32Array<ArrayBuffer>;
+    lines: Float32Array<ArrayBuffer>;
+    points: Float32Array<ArrayBuffer>;
+    labels: LabelCandidate[];
+}
+
+/**
+ * Point halfway along a polyline.
+ */
+function lineMidpoint(pts: Point[]): { point: Point, length: number } | null {
+    if (pts.length === 0) return null;
+    let length = 0;
+    for (let i = 1; i < pts.length; i++) length += Math.hypot(pts[i].x - pts[i - 1].x, pts[i].y - pts[i - 1].y);
+
+    let remaining = length / 2;
+    for (let i = 1; i < pts.length; i++) {
+        const seg = Math.hypot(pts[i].x - pts[i - 1].x, pts[i].y - pts[i - 1].y);
+        if (seg >= remaining && seg > 0) {
+            const t = remaining / seg;
+            return {
+                point: { x: pts[i - 1].x + (pts[i].x - pts[i - 1].x) * t, y: pts[i - 1].y + (pts[i].y - pts[i - 1].y) * t },
+                length
+            };
+        }
+        remaining -= seg;
+    }
+    return { point: pts[0], length };
+}
+
+/**
+ * Signed distance from a point to a polygon outline, positive inside.
+ */
+function polygonDistance(x: number, y: number, rings: Point[][]): number {
+    let inside = false;
+    let minSq = Infinity;
+    for (const ring of rings) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const a = ring[i];
+            const b = ring[j];
+            if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+
+            const dx = b.x - a.x;
+            const dy = b.y - a.y;
+            const lenSq = dx * dx + dy * dy;
+            const t = lenSq > 0 ? Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lenSq)) : 0;
+            const px = a.x + t * dx - x;
+            const py = a.y + t * dy - y;
+            minSq = Math.min(minSq, px * px + py * py);
+        }
+    }
+    return (inside ? 1 : -1) * Math.sqrt(minSq);
+}
+
+/**
+ * Polygon label point: the pole of inaccessibility (interior point farthest from the outline),
+ * found by iterative grid refinement as in Mapbox polylabel.
+ */
+function polygonLabelPoint(rings: Point[][]): Point | null {
+    const outer = rings[0];
+    if (!outer || outer.length < 3) return null;
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of outer) {
+        minX = Math.min(minX, p.x); minY = Math.min(minY, p.y);
+        maxX = Math.max(maxX, p.x); maxY = Math.max(maxY, p.y);
+    }
+    const cellSize = Math.min(maxX - minX, maxY - minY);
+    if (cellSize === 0) return { x: minX, y: minY };
+    const precision = Math.max(cellSize / 100, 1e-6);
+
+    type Cell = { x: number, y: number, h: number, d: number, max: number };
+    const makeCell = (x: number, y: number, h: number): Cell => {
+        const d = polygonDistance(x, y, rings);
+        return { x, y, h, d, max: d + h * Math.SQRT2 };
+    };
+
+    const queue: Cell[] = [];
+    const h = cellSize / 2;
+    for (let x = minX; x < maxX; x += cellSize) {
+        for (let y = minY; y < maxY; y += cellSize) queue.push(makeCell(x + h, y + h, h));
+    }
+
+    let best = makeCell((minX + maxX) / 2, (minY + maxY) / 2, 0);
+    while (queue.length) {
+        // Pop the most promising cell
+        let idx = 0;
+        for (let i = 1; i < queue.length; i++) if (queue[i].max > queue[idx].max) idx = i;
+        const cell = queue.splice(idx, 1)[0];
+
+        if (cell.d > best.d) best = cell;
+        if (cell.max - best.d <= precision) continue;
+
+        const ch = cell.h / 2;
+        queue.push(makeCell(cell.x - ch, cell.y - ch, ch), makeCell(cell.x + ch, cell.y - ch, ch),
+            makeCell(cell.x - ch, cell.y + ch, ch), makeCell(cell.x + ch, cell.y + ch, ch));
+    }
+    return { x: best.x, y: best.y };
+}
+
+/**
+ * A GeoJSON overlay drawn above the image tiles. Created through `WebGPURenderer.addVectorLayer`.
+ */
+export class VectorLayer {
+    data: GeoJSON;
+    style: VectorStyle;
+    options: VectorLayerOptions;
+    visible: boolean = true;
+
+    // GPU state, managed by VectorRenderer
+    dirty: boolean = true;
+    fillBuffer: GPUBuffer | null = null;
+    lineBuffer: GPUBuffer | null = null;
+    pointBuffer: GPUBuffer | null = null;
+    uniformBuffer: GPUBuffer | null = null;
+    bindGroup: GPUBindGroup | null = null;
+    fillCount: number = 0;
+    lineCount: number = 0;
+    pointCount: number = 0;
+    labels: LabelCandidate[] = [];
+
+    constructor(data: GeoJSON, style: Partial<VectorStyle> = {}, options: Partial<VectorLayerOptions> = {}) {
+        this.data = data;
+        this.style = { ...DEFAULT_VECTOR_STYLE, ...style };
+        this.options = { coordinates: 'pixel', ...options };
+    }
+
+    setData(data: GeoJSON) {
+        this.data = data;
+        this.dirty = true;
+    }
+
+    setStyle(style: Partial<VectorStyle>) {
+        this.style = { ...this.style, ...style };
+        this.dirty = true;
+    }
+
+    setVisible(visible: boolean) {
+        this.visible = visible;
+    }
+
+    /**
+     * Lists the features of the layer, wrapping bare geometries.
+     */
+    getFeatures(): GeoJSONFeature[] {
+        const data = this.data;
+        if (data.type === 'FeatureCollection') return data.features;
+        if (data.type === 'Feature') return [data];
+        return [{ type: 'Feature', geometry: data, properties: null }];
+    }
+
+    /**
+     * Tessellates the layer into interleaved vertex data in image pixel space.
+     * @param project - Converts layer coordinates to image pixels, null results are skipped
+     */
+    build(project: (x: number, y: number) => Point | null): VectorGeometry {
+        const fill = new VertexWriter();
+        const lines = new VertexWriter();
+        const points = new VertexWriter();
+        const labels: LabelCandidate[] = [];
+        const { label, labelPriority } = this.options;
+
+        for (const feature of this.getFeatures()) {
+            if (!feature.geometry) continue;
+            const style = this.options.featureStyle
+                ? { ...this.style, ...this.options.featureStyle(feature) }
+                : this.style;
+
+            const fillColor = packColor(style.fillColor, style.fillOpacity);
+            const strokeColor = packColor(style.strokeColor, style.strokeOpacity);
+
+            const toPixels = (ring: Position[]): Point[] => {
+                const out: Point[] = [];
+                for (const c of ring) {
+                    const p = project(c[0], c[1]);
+                    if (p) out.push(p);
+                }
+                return out;
+            };
+
+            const addLine = (coords: Position[]) => {
+                if (style.strokeWidth <= 0) return;
+                const pts = toPixels(coords);
+                for (let i = 0; i < pts.length - 1; i++) {
+                    const a = pts[i];
+                    const b = pts[i + 1];
+                    lines.float(a.x, a.y, b.x, b.y);
+                    lines.packed(strokeColor);
+                    lines.float(style.strokeWidth);
+                }
+            };
+
+            const addPoint = (coord: Position) => {
+                const p = project(coord[0], coord[1]);
+                if (!p) return;
+                points.float(p.x, p.y);
+                points.packed(fillColor);
+                points.packed(strokeColor);
+                points.float(style.pointRadius, Math.max(0, style.strokeWidth));
+            };
+
+            const addPolygon = (rings: Position[][]) => {
+                const flat: number[] = [];
+                const holes: number[] = [];
+                rings.forEach((ring, i) => {
+                    // GeoJSON rings repeat the first position at the end
+                    const pts = toPixels(ring);
+                    const last = pts[pts.length - 1];
+                    if (pts.length > 1 && last.x === pts[0].x && last.y === pts[0].y) pts.pop();
+                    if (i > 0) holes.push(flat.length / 2);
+                    for (const p of pts) flat.push(p.x, p.y);
+                });
+
+                if (style.fillOpacity > 0) {
+                    const indices = earcut(flat, holes, 2);
+                    for (const idx of indices) {
+                        fill.float(flat[idx * 2], flat[idx * 2 + 1]);
+                        fill.packed(fillColor);
+                    }
+                }
+                for (const ring of rings) addLine(ring);
+            };
+
+            const addGeometry = (geometry: GeoJSONGeometry) => {
+                switch (geometry.type) {
+                    case 'Point': addPoint(geometry.coordinates); break;
+                    case 'MultiPoint': geometry.coordinates.forEach(addPoint); break;
+                    case 'LineString': addLine(geometry.coordinates); break;
+                    case 'MultiLineString': geometry.coordinates.forEach(l => addLine(l)); break;
+                    case 'Polygon': addPolygon(geometry.coordinates); break;
+                    case 'MultiPolygon': geometry.coordinates.forEach(addPolygon); break;
+                    case 'GeometryCollection': geometry.geometries.forEach(addGeometry); break;
+                }
+            };
+
+            addGeometry(feature.geometry);
+
+            // Label anchor: point, halfway along the longest line, or pole of inaccessibility of the largest polygon
+            const text = typeof label === 'function' ? label(feature) : label ? feature.properties?.[label] : null;
+            if (text === null || text === undefined || text === '') continue;
+
+            let anchor: Point | null = null;
+            let offsetY = 0;
+            let bestSize = -1;
+            const considerAnchor = (geometry: GeoJSONGeometry) => {
+                switch (geometry.type) {
+                    case 'Point':
+                    case 'MultiPoint': {
+                        const coord = geometry.type === 'Point' ? geometry.coordinates : geometry.coordinates[0];
+                        const p = coord ? project(coord[0], coord[1]) : null;
+                        if (p && bestSize < 0) {
+                            anchor = p;
+                            bestSize = 0;
+                            offsetY = -(style.pointRadius + style.strokeWidth + style.textSize * 0.7);
+                        }
+                        break;
+                    }
+                    case 'LineString':
+                    case 'MultiLineString': {
+                        const parts = geometry.type === 'LineString' ? [geometry.coordinates] : geometry.coordinates;
+                        for (const part of parts) {
+                            const mid = lineMidpoint(toPixels(part));
+                            if (mid && mid.length > bestSize) {
+                                anchor = mid.point;
+                                bestSize = mid.length;
+                                offsetY = 0;
+                            }
+                        }
+                        break;
+                    }
+                    case 'Polygon':
+                    case 'MultiPolygon': {
+                        const polys = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+                        for (const poly of polys) {
+                            const rings = poly.map(toPixels);
+                            const outer = rings[0] || [];
+                            let area = 0;
+                            for (let i = 0, j = outer.length - 1; i < outer.length; j = i++) {
+                                area += (outer[j].x - outer[i].x) * (outer[j].y + outer[i].y);
+                            }
+                            area = Math.abs(area / 2);
+                            if (area > bestSize) {
+                                const p = polygonLabelPoint(rings);
+                                if (p) {
+                                    anchor = p;
+                                    bestSize = area;
+                                    offsetY = 0;
+                                }
+                            }
+                        }
+                        break;
+                    }
+                    case 'GeometryCollection':
+                        geometry.geometries.forEach(considerAnchor);
+                        break;
+                }
+            };
+            considerAnchor(feature.geometry);
+
+            const labelAnchor = anchor as Point | null;
+            if (!labelAnchor) continue;
+            const priority = typeof labelPriority === 'function'
+                ? labelPriority(feature)
+                : labelPriority ? Number(feature.properties?.[labelPriority]) || 0 : 0;
+
+            labels.push({
+                x: labelAnchor.x,
+                y: labelAnchor.y,
+                offsetY,
+                text: String(text),
+                priority,
+                color: packColor(style.textColor),
+                haloColor: packColor(style.textHaloColor),
+                size: style.textSize,
+                haloWidth: style.textHaloWidth
+            });
+        }
+
+        return { fill: fill.toArray(), lines: lines.toArray(), points: points.toArray(), labels };
+    }
+
+    /**
+     * Releases GPU buffers. The layer is rebuilt if drawn again.
+     */
+    destroy() {
+        this.fillBuffer?.destroy();
+        this.lineBuffer?.destroy();
+        this.pointBuffer?.destroy();
+        this.uniformBuffer?.destroy();
+        this.fillBuffer = this.lineBuffer = this.pointBuffer = this.uniformBuffer = null;
+        this.bindGroup = null;
+        this.labels = [];
+        this.dirty = true;
+    }
+}
@@ -0,0 +1,202 @@
+import { Viewport } from './Viewport';
+import { PixelTransform } from './GeoTransform';
+import { VectorLayer, FILL_STRIDE, LINE_STRIDE, POINT_STRIDE } from './VectorLayer';
+import vectorShaderSource from './shaders/vector.wgsl?raw';
+
+/**
+ * VectorRenderer draws GeoJSON overlay layers on top of the image tiles.
+ *
+ * Polygons are tessellated into triangles, lines are expanded into screen-space quads
+ * (one instance per segment) and points are drawn as instanced circle markers.
+ * All three pipelines share the Viewport uniform with the tile pipeline.
+ */
+export class VectorRenderer {
+    private device: GPUDevice;
+    private fillPipeline: GPURenderPipeline;
+    private linePipeline: GPURenderPipeline;
+    private pointPipeline: GPURenderPipeline;
+    private viewportBindGroup: GPUBindGroup;
+
+    layers: VectorLayer[] = [];
+    version: number = 0; // Bumped whenever layer geometry or membership changes
+
+    // Provides the image georeference for layers in CRS coordinates
+    getTransform: () => PixelTransform | null = () => null;
+
+    constructor(device: GPUDevice, format: GPUTextureFormat, viewport: Viewport) {
+        this.device = device;
+
+        const shaderModule = device.createShaderModule({ code: vectorShaderSource });
+
+        const viewportLayout = device.createBindGroupLayout({
+            entries: [
+                { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: 'uniform' } } // Viewport
+            ]
+        });
+        const layerLayout = device.createBindGroupLayout({
+            entries: [
+                { binding: 0, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } } // Layer
+            ]
+        });
+        const layout = device.createPipelineLayout({ bindGroupLayouts: [viewportLayout, layerLayout] });
+
+        const target: GPUColorTargetState = {
+            format,
+            blend: {
+                color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+                alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+            }
+        };
+
+        const createPipeline = (entry: string, buffer: GPUVertexBufferLayout) => device.createRenderPipeline({
+            layout,
+            vertex: { module: shaderModule, entryPoint: `vert_${entry}`, buffers: [buffer] },
+            fragment: { module: shaderModule, entryPoint: `frag_${entry}`, targets: [target] },
+            primitive: { topology: 'triangle-list' },
+        });
+
+        this.fillPipeline = createPipeline('fill', {
+            arrayStride: FILL_STRIDE,
+            stepMode: 'vertex',
+            attributes: [
+                { shaderLocation: 0, offset: 0, format: 'float32x2' },
+                { shaderLocation: 1, offset: 8, format: 'unorm8x4' },
+            ]
+        });
+
+        this.linePipeline = createPipeline('line', {
+            arrayStride: LINE_STRIDE,
+            stepMode: 'instance',
+            attributes: [
+                { shaderLocation: 0, offset: 0, format: 'float32x2' },
+                { shaderLocation: 1, offset: 8, format: 'float32x2' },
+                { shaderLocation: 2, offset: 16, format: 'unorm8x4' },
+                { shaderLocation: 3, offset: 20, format: 'float32' },
+            ]
+        });
+
+        this.pointPipeline = createPipeline('point', {
+            arrayStride: POINT_STRIDE,
+            stepMode: 'instance',
+            attributes: [
+                { shaderLocation: 0, offset: 0, format: 'float32x2' },
+                { shaderLocation: 1, offset: 8, format: 'unorm8x4' },
+                { shaderLocation: 2, offset: 12, format: 'unorm8x4' },
+                { shaderLocation: 3, offset: 16, format: 'float32' },
+                { shaderLocation: 4, offset: 20, format: 'float32' },
+            ]
+        });
+
+        this.viewportBindGroup = device.createBindGroup({
+            layout: viewportLayout,
+            entries: [{ binding: 0, resource: { buffer: viewport.getBuffer() } }]
+        });
+    }
+
+    /**
+     * Adds a layer on top, or below `before` when given.
+     */
+    addLayer(layer: VectorLayer, before?: VectorLayer) {
+        const index = before ? this.layers.indexOf(before) : -1;
+        if (index === -1) {
+            this.layers.push(layer);
+        } else {
+            this.layers.splice(index, 0, layer);
+        }
+        this.version++;
+    }
+
+    removeLayer(layer: VectorLayer) {
+        const index = this.layers.indexOf(layer);
+        if (index !== -1) {
+            this.layers.splice(index, 1);
+            layer.destroy();
+            this.version++;
+        }
+    }
+
+    /**
+     * Marks every layer for rebuilding, e.g. after a new image changed the georeference.
+     */
+    invalidate() {
+        for (const layer of this.layers) layer.dirty = true;
+    }
+
+    /**
+     * Draws all visible layers into an open render pass, in insertion order.
+     * Within a layer: fills, then lines, then points.
+     */
+    draw(pass: GPURenderPassEncoder) {
+        for (const layer of this.layers) {
+            if (!layer.visible) continue;
+            if (layer.dirty) this.upload(layer);
+            if (!layer.bindGroup) continue;
+
+            pass.setBindGroup(0, this.viewportBindGroup);
+            pass.setBindGroup(1, layer.bindGroup);
+
+            if (layer.fillCount > 0 && layer.fillBuffer) {
+                pass.setPipeline(this.fillPipeline);
+                pass.setVertexBuffer(0, layer.fillBuffer);
+                pass.draw(layer.fillCount);
+            }
+            if (layer.lineCount > 0 && layer.lineBuffer) {
+                pass.setPipeline(this.linePipeline);
+                pass.setVertexBuffer(0, layer.lineBuffer);
+                pass.draw(6, layer.lineCount);
+            }
+            if (layer.pointCount > 0 && layer.pointBuffer) {
+                pass.setPipeline(this.pointPipeline);
+                pass.setVertexBuffer(0, layer.pointBuffer);
+                pass.draw(6, layer.pointCount);
+            }
+        }
+    }
+
+    /**
+     * Rebuilds the GPU buffers of a layer from its GeoJSON.
+     */
+    private upload(layer: VectorLayer) {
+        layer.destroy();
+
+        let project = (x: number, y: number) => ({ x, y });
+        if (layer.options.coordinates === 'crs') {
+            const transform = this.getTransform();
+            if (!transform) return; // Wait for a georeferenced image
+            project = (x, y) => transform.crsToPixel(x, y);
+        }
+
+        const geometry = layer.build(project);
+
+        const createBuffer = (data: Float32Array<ArrayBuffer>) => {
+            if (data.length === 0) return null;
+            const buffer = this.device.createBuffer({
+                size: data.byteLength,
+                usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+            });
+            this.device.queue.writeBuffer(buffer, 0, data);
+            return buffer;
+        };
+
+        layer.fillBuffer = createBuffer(geometry.fill);
+        layer.lineBuffer = createBuffer(geometry.lines);
+        layer.pointBuffer = createBuffer(geometry.points);
+        layer.fillCount = geometry.fill.byteLength / FILL_STRIDE;
+        layer.lineCount = geometry.lines.byteLength / LINE_STRIDE;
+        layer.pointCount = geometry.points.byteLength / POINT_STRIDE;
+        layer.labels = geometry.labels;
+        this.version++;
+
+        layer.uniformBuffer = this.device.createBuffer({
+            size: 16,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+        this.device.queue.writeBuffer(layer.uniformBuffer, 0, new Float32Array([layer.style.opacity, 0, 0, 0]));
+
+        layer.bindGroup = this.device.createBindGroup({
+            layout: this.fillPipeline.getBindGroupLayout(1),
+            entries: [{ binding: 0, resource: { buffer: layer.uniformBuffer } }]
+        });
+        layer.dirty = false;
+    }
+}
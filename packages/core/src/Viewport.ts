@@ -1,14 +1,132 @@
 import { mat3, vec2 } from 'gl-matrix';
 
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export const EASINGS: { [name in Easing]: (t: number) => number } = {
+    linear: t => t,
+    easeIn: t => t * t * t,
+    easeOut: t => 1 - Math.pow(1 - t, 3),
+    easeInOut: t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+};
+
+/**
+ * Camera state to move to. Fields not given keep their current value.
+ */
+export interface CameraTarget {
+    center?: { x: number, y: number }; // World pixels at the canvas center
+    zoom?: number;                     // Canvas pixels per world pixel
+    rotation?: number;                 // Radians, clockwise
+}
+
+export interface FlyToOptions {
+    durationMs: number;                          // 0 jumps to the target
+    easing: Easing | ((t: number) => number);    // Maps elapsed time (0-1) to progress (0-1)
+}
+
+export interface WorldRect {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+/**
+ * Limits on zoom and pan, relative to the content bounds (the base image).
+ */
+export interface ViewConstraints {
+    minZoomFit: number;         // Smallest zoom as a fraction of the fit-to-image zoom, 0 for no limit
+    maxMagnification: number;   // Largest zoom in canvas pixels per image pixel, e.g. 32; Infinity for no limit
+    minVisible: number | null;  // Canvas pixels of image kept on screen along each axis, null for free panning
+    rubberBand: boolean;        // Gestures stretch past the limits and spring back on release
+}
+
+export const DEFAULT_VIEW_CONSTRAINTS: ViewConstraints = {
+    minZoomFit: 0.25,
+    maxMagnification: 32,
+    minVisible: 64,
+    rubberBand: false
+};
+
+/**
+ * Normalizes a rotation to (-PI, PI].
+ * @throws If the angle is not finite
+ */
+export function normalizeRotation(radians: number): number {
+    if (!Number.isFinite(radians)) {
+        throw new Error("Viewport rotation must be finite.");
+    }
+    const turn = 2 * Math.PI;
+    let r = radians % turn;
+    if (r <= -Math.PI) r += turn;
+    if (r > Math.PI) r -= turn;
+    return r;
+}
+
+/**
+ * Applies changes to view constraints.
+ * @throws If a resulting value is out of range; `current` is left untouched
+ */
+export function mergeViewConstraints(current: ViewConstraints, changes: Partial<ViewConstraints>): ViewConstraints {
+    const merged = { ...current, ...changes };
+    if (!(merged.minZoomFit >= 0 && Number.isFinite(merged.minZoomFit))) {
+        throw new Error("minZoomFit must be 0 or a positive number.");
+    }
+    if (!(merged.maxMagnification > 0)) {
+        throw new Error("maxMagnification must be positive (Infinity for no limit).");
+    }
+    if (merged.minVisible !== null && !(merged.minVisible >= 0)) {
+        throw new Error("minVisible must be 0 or more, or null for free panning.");
+    }
+    return merged;
+}
+
+const DEFAULT_FLY_TO: FlyToOptions = { durationMs: 500, easing: 'easeInOut' };
+const SETTLE: FlyToOptions = { durationMs: 250, easing: 'easeOut' }; // Spring back after a stretched gesture
+const RUBBER_STIFFNESS = 0.55;            // Lower stretches less per pixel of overshoot
+const RUBBER_PAN_STRETCH = 0.25;          // Largest pan overshoot, as a share of the canvas size
+const RUBBER_ZOOM_STRETCH = Math.log(2);  // Largest zoom overshoot (log scale): 2x past a limit
+
+/**
+ * Compresses an overshoot so it approaches `limit` but never reaches it.
+ */
+function rubber(overshoot: number, limit: number): number {
+    if (overshoot === 0 || limit <= 0) return 0;
+    return Math.sign(overshoot) * limit * (1 - 1 / (Math.abs(overshoot) * RUBBER_STIFFNESS / limit + 1));
+}
+
+/**
+ * Center on one screen axis that keeps `minVisible` canvas pixels of the content [lo, hi] in view.
+ */
+function clampAxis(position: number, lo: number, hi: number, viewSize: number, zoom: number, minVisible: number): number {
+    const half = viewSize / 2 / zoom;
+    const visible = Math.min(minVisible, viewSize, (hi - lo) * zoom) / zoom;
+    const min = lo + visible - half;
+    const max = hi - visible + half;
+    return min <= max ? Math.min(max, Math.max(min, position)) : (lo + hi) / 2;
+}
+
+interface CameraAnimation {
+    start: number | null; // Time of the first tick
+    durationMs: number;
+    easing: (t: number) => number;
+    from: { x: number, y: number, zoom: number, rotation: number };
+    to: { x: number, y: number, zoom: number, rotation: number };
+    resolve: (completed: boolean) => void;
+}
+
 export class Viewport {
     public center: vec2 = vec2.fromValues(0, 0);
     public zoom: number = 1;
-    public rotation: number = 0;
+    public rotation: number = 0; // Radians, clockwise on screen; the world turns about the view center
     public size: vec2 = vec2.fromValues(800, 600); // Canvas size
-    public minZoom: number = 0.0001;
+    public minZoom: number = 0.0001; // Absolute floor, also without content bounds
+    public constraints: ViewConstraints = { ...DEFAULT_VIEW_CONSTRAINTS };
+    public contentBounds: WorldRect | null = null; // World rectangle the constraints refer to
 
     private uniformBuffer: GPUBuffer;
     private device: GPUDevice;
+    private animation: CameraAnimation | null = null;
+    private raw: { x: number, y: number, zoom: number } | null = null; // Unconstrained camera of a stretched gesture
 
     constructor(device: GPUDevice, width: number, height: number) {
         this.device = device;
@@ -36,20 +154,186 @@ export class Viewport {
     }
 
     setCenter(x: number, y: number) {
+        this.commit(x, y, this.working.zoom);
+    }
+
+    setZoom(z: number) {
+        const working = this.working;
+        this.commit(working.x, working.y, z);
+    }
+
+    move(dx: number, dy: number) {
+        const working = this.working;
+        this.commit(working.x + dx, working.y + dy, working.zoom);
+    }
+
+    /**
+     * Camera that gestures change: the unconstrained one while stretched, otherwise the one shown.
+     */
+    private get working(): { x: number, y: number, zoom: number } {
+        return this.raw ? { ...this.raw } : { x: this.center[0], y: this.center[1], zoom: this.zoom };
+    }
+
+    /**
+     * Applies a new center and zoom. While stretched, shows the rubber-banded version of it.
+     */
+    private commit(x: number, y: number, zoom: number) {
+        if (this.raw) {
+            this.raw = { x, y, zoom };
+            const shown = this.stretch(this.raw);
+            x = shown.x;
+            y = shown.y;
+            zoom = shown.zoom;
+        }
         this.center = vec2.fromValues(x, y);
+        this.zoom = zoom;
         this.update();
     }
 
-    setZoom(z: number) {
-        this.zoom = z;
+    /**
+     * Updates zoom and pan limits.
+     * @param constraints - Options not given keep their current value
+     */
+    setConstraints(constraints: Partial<ViewConstraints>) {
+        const merged = mergeViewConstraints(this.constraints, constraints);
+        this.constraints = merged;
+        if (!merged.rubberBand) this.raw = null;
         this.update();
     }
 
-    move(dx: number, dy: number) {
-        vec2.add(this.center, this.center, [dx, dy]);
+    /**
+     * Sets the world rectangle the constraints keep in view, usually the base image; null lifts them.
+     */
+    setContentBounds(rect: WorldRect | null) {
+        if (rect && !(rect.maxX > rect.minX && rect.maxY > rect.minY)) {
+            throw new Error("Content bounds must have maxX > minX and maxY > minY.");
+        }
+        this.contentBounds = rect ? { ...rect } : null;
+        this.update();
+    }
+
+    /**
+     * Starts a user gesture. With rubberBand, limits stretch until endInteraction.
+     */
+    beginInteraction() {
+        if (this.constraints.rubberBand && !this.raw) {
+            this.raw = { x: this.center[0], y: this.center[1], zoom: this.zoom };
+        }
+    }
+
+    /**
+     * Ends a user gesture; a stretched view springs back within the limits.
+     */
+    endInteraction() {
+        if (!this.raw) return;
+        this.raw = null;
+        const limited = this.constrainCamera(this.center[0], this.center[1], this.zoom, this.rotation);
+        if (limited.x !== this.center[0] || limited.y !== this.center[1] || limited.zoom !== this.zoom) {
+            this.flyTo({ center: { x: limited.x, y: limited.y }, zoom: limited.zoom }, SETTLE);
+        } else {
+            this.update();
+        }
+    }
+
+    /**
+     * Zoom range at a rotation: minZoomFit of the fit zoom up to maxMagnification.
+     */
+    private zoomLimits(rotation: number): { min: number, max: number } {
+        const fit = this.contentBounds ? this.fitZoom(this.contentBounds, rotation, 0) : null;
+        const min = Math.max(this.minZoom, fit !== null ? this.constraints.minZoomFit * fit : 0);
+        // Images smaller than the canvas can still be fitted
+        const max = Math.max(this.constraints.maxMagnification, fit ?? 0, min);
+        return { min, max };
+    }
+
+    /**
+     * Nearest camera within the zoom range whose view keeps minVisible pixels of the content.
+     */
+    private constrainCamera(x: number, y: number, zoom: number, rotation: number): { x: number, y: number, zoom: number } {
+        const limits = this.zoomLimits(rotation);
+        zoom = Math.min(limits.max, Math.max(limits.min, zoom));
+
+        const rect = this.contentBounds;
+        const minVisible = this.constraints.minVisible;
+        if (!rect || minVisible === null) return { x, y, zoom };
+
+        // Project the content and the center on the screen axes
+        const cos = Math.cos(rotation);
+        const sin = Math.sin(rotation);
+        const corners = [[rect.minX, rect.minY], [rect.maxX, rect.minY], [rect.minX, rect.maxY], [rect.maxX, rect.maxY]];
+        const sx = corners.map(([cx, cy]) => cos * cx - sin * cy);
+        const sy = corners.map(([cx, cy]) => sin * cx + cos * cy);
+        const px = clampAxis(cos * x - sin * y, Math.min(...sx), Math.max(...sx), this.size[0], zoom, minVisible);
+        const py = clampAxis(sin * x + cos * y, Math.min(...sy), Math.max(...sy), this.size[1], zoom, minVisible);
+
+        // Back to world axes
+        return { x: cos * px + sin * py, y: -sin * px + cos * py, zoom };
+    }
+
+    /**
+     * Shown camera for an unconstrained one: overshoot past the limits compressed, pan along the screen axes.
+     */
+    private stretch(raw: { x: number, y: number, zoom: number }): { x: number, y: number, zoom: number } {
+        const limited = this.constrainCamera(raw.x, raw.y, raw.zoom, this.rotation);
+        const zoom = limited.zoom * Math.exp(rubber(Math.log(raw.zoom / limited.zoom), RUBBER_ZOOM_STRETCH));
+
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        const dx = raw.x - limited.x;
+        const dy = raw.y - limited.y;
+        const sx = rubber((cos * dx - sin * dy) * zoom, RUBBER_PAN_STRETCH * this.size[0]) / zoom;
+        const sy = rubber((sin * dx + cos * dy) * zoom, RUBBER_PAN_STRETCH * this.size[1]) / zoom;
+        return { x: limited.x + cos * sx + sin * sy, y: limited.y - sin * sx + cos * sy, zoom };
+    }
+
+    /**
+     * Pans by a screen pixel offset: the content moves with the pointer whatever the rotation.
+     */
+    panBy(dx: number, dy: number) {
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        // Inverse rotation of the screen offset, scaled to world pixels
+        this.move(-(cos * dx + sin * dy) / this.zoom, -(-sin * dx + cos * dy) / this.zoom);
+    }
+
+    /**
+     * Sets the rotation about the view center.
+     * @param radians - Clockwise angle on screen; 0 shows the image rows horizontally
+     */
+    setRotation(radians: number) {
+        this.rotation = normalizeRotation(radians);
         this.update();
     }
 
+    /**
+     * Rotates by an angle about a screen point, which keeps showing the same world point.
+     * @param radians - Clockwise angle to add
+     * @param x - Screen x (canvas buffer pixels)
+     * @param y - Screen y
+     */
+    rotateAt(radians: number, x: number, y: number) {
+        const world = this.screenToWorld(x, y);
+        this.setRotation(this.rotation + radians);
+        this.anchor(world.x, world.y, x, y, this.working.zoom);
+    }
+
+    /**
+     * Moves the center so that a world point shows at a screen point at the given zoom.
+     */
+    private anchor(worldX: number, worldY: number, x: number, y: number, zoom: number) {
+        const offset = this.unrotate((x - this.size[0] / 2) / zoom, (y - this.size[1] / 2) / zoom);
+        this.commit(worldX - offset.x, worldY - offset.y, zoom);
+    }
+
+    /**
+     * Turns a screen-aligned offset into world axes (inverse of the view rotation).
+     */
+    private unrotate(x: number, y: number) {
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        return { x: cos * x + sin * y, y: -sin * x + cos * y };
+    }
+
     zoomAt(factor: number, x: number, y: number) {
         // x, y in screen coordinates
         // Transform screen to world, apply zoom, transform back... or just adjust center.
@@ -60,34 +344,245 @@ export class Viewport {
 
         // Let's define Center as the World coordinate at the center of the screen.
 
-        const worldX = (x - this.size[0] / 2) / this.zoom + this.center[0];
-        const worldY = (y - this.size[1] / 2) / this.zoom + this.center[1];
+        const world = this.screenToWorld(x, y);
 
-        this.zoom *= factor;
+        // Clamp before anchoring so the point under the cursor stays put at the limits;
+        // a stretched gesture goes past them and springs back later
+        let zoom = this.working.zoom * factor;
+        if (!this.raw) {
+            const limits = this.zoomLimits(this.rotation);
+            zoom = Math.min(limits.max, Math.max(limits.min, zoom));
+        }
 
-        // Limit zoom out?
-        // User suggested: not more than image size / width * 2?
-        // Current logic doesn't know image size here easily unless we pass it or store it.
-        // But we can limit to some reasonable very low value or handle it in InteractionHandler.
-        // Actually, let's just expose a minZoom property.
+        // NewCenter = World - R^-1 (Screen - Size/2) / NewZoom
+        this.anchor(world.x, world.y, x, y, zoom);
+    }
 
+    /**
+     * Converts screen pixels to world (full resolution image pixel) coordinates.
+     */
+    screenToWorld(x: number, y: number) {
+        const offset = this.unrotate((x - this.size[0] / 2) / this.zoom, (y - this.size[1] / 2) / this.zoom);
+        return {
+            x: offset.x + this.center[0],
+            y: offset.y + this.center[1]
+        };
+    }
 
-        // NewCenter = World - (Screen - Size/2) / NewZoom
-        this.center[0] = worldX - (x - this.size[0] / 2) / this.zoom;
-        this.center[1] = worldY - (y - this.size[1] / 2) / this.zoom;
+    /**
+     * Converts world (full resolution image pixel) coordinates to screen pixels.
+     */
+    worldToScreen(x: number, y: number) {
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        const dx = (x - this.center[0]) * this.zoom;
+        const dy = (y - this.center[1]) * this.zoom;
+        return {
+            x: cos * dx - sin * dy + this.size[0] / 2,
+            y: sin * dx + cos * dy + this.size[1] / 2
+        };
+    }
 
-        this.update();
+    /**
+     * Axis-aligned world bounds of the (possibly rotated) view.
+     */
+    getWorldBounds(): { minX: number, minY: number, maxX: number, maxY: number } {
+        const cos = Math.abs(Math.cos(this.rotation));
+        const sin = Math.abs(Math.sin(this.rotation));
+        const halfW = this.size[0] / 2 / this.zoom;
+        const halfH = this.size[1] / 2 / this.zoom;
+        const extentX = cos * halfW + sin * halfH;
+        const extentY = sin * halfW + cos * halfH;
+        return {
+            minX: this.center[0] - extentX,
+            minY: this.center[1] - extentY,
+            maxX: this.center[0] + extentX,
+            maxY: this.center[1] + extentY
+        };
+    }
+
+    /**
+     * Whether a world rectangle overlaps the view. Exact for rotated views, where the world
+     * bounds also cover areas off screen.
+     */
+    intersectsView(minX: number, minY: number, maxX: number, maxY: number): boolean {
+        if (this.rotation === 0) {
+            const bounds = this.getWorldBounds();
+            return maxX > bounds.minX && minX < bounds.maxX && maxY > bounds.minY && minY < bounds.maxY;
+        }
+        // Separating axes: those of the world rectangle are covered by the world bounds, so test the screen axes
+        const corners = [
+            this.worldToScreen(minX, minY), this.worldToScreen(maxX, minY),
+            this.worldToScreen(minX, maxY), this.worldToScreen(maxX, maxY)
+        ];
+        const xs = corners.map(c => c.x);
+        const ys = corners.map(c => c.y);
+        const bounds = this.getWorldBounds();
+        return Math.max(...xs) > 0 && Math.min(...xs) < this.size[0] &&
+            Math.max(...ys) > 0 && Math.min(...ys) < this.size[1] &&
+            maxX > bounds.minX && minX < bounds.maxX && maxY > bounds.minY && minY < bounds.maxY;
     }
 
+    /**
+     * Whether a flyTo animation is running.
+     */
+    get animating(): boolean {
+        return this.animation !== null;
+    }
+
+    /**
+     * Animates the camera to a target: center and rotation along the shortest path, zoom
+     * geometrically so every step feels the same. The renderer advances it in its render loop;
+     * pan, zoom and key input cancel it.
+     * @returns Resolves true when the target is reached, false when cancelled or replaced
+     */
+    flyTo(target: CameraTarget, options: Partial<FlyToOptions> = {}): Promise<boolean> {
+        const { durationMs, easing } = { ...DEFAULT_FLY_TO, ...options };
+        if (!(durationMs >= 0)) {
+            throw new Error("flyTo durationMs must be 0 or more.");
+        }
+        const ease = typeof easing === 'function' ? easing : EASINGS[easing];
+        if (!ease) {
+            throw new Error(`Unknown easing "${easing}". Available: ${Object.keys(EASINGS).join(', ')}.`);
+        }
+        const to = {
+            x: target.center ? target.center.x : this.center[0],
+            y: target.center ? target.center.y : this.center[1],
+            zoom: target.zoom !== undefined ? target.zoom : this.zoom,
+            rotation: target.rotation !== undefined ? target.rotation : this.rotation
+        };
+        if (![to.x, to.y, to.rotation].every(Number.isFinite) || !(to.zoom > 0 && Number.isFinite(to.zoom))) {
+            throw new Error("flyTo target must have a finite center and rotation and a positive zoom.");
+        }
+        Object.assign(to, this.constrainCamera(to.x, to.y, to.zoom, to.rotation));
+
+        this.cancelAnimation();
+        this.raw = null;
+        if (durationMs === 0) {
+            this.applyCamera(to);
+            return Promise.resolve(true);
+        }
+        // Turn the short way round
+        const from = { x: this.center[0], y: this.center[1], zoom: this.zoom, rotation: this.rotation };
+        let turn = (to.rotation - from.rotation) % (2 * Math.PI);
+        if (turn > Math.PI) turn -= 2 * Math.PI;
+        if (turn < -Math.PI) turn += 2 * Math.PI;
+        to.rotation = from.rotation + turn;
+
+        return new Promise(resolve => {
+            this.animation = { start: null, durationMs, easing: ease, from, to, resolve };
+        });
+    }
+
+    /**
+     * Stops a running flyTo where it is.
+     */
+    cancelAnimation() {
+        const animation = this.animation;
+        this.animation = null;
+        animation?.resolve(false);
+    }
+
+    /**
+     * Advances a running flyTo. Called once per frame by the render loop.
+     * @param now - Frame time in ms, e.g. performance.now()
+     */
+    tick(now: number) {
+        const animation = this.animation;
+        if (!animation) return;
+        if (animation.start === null) animation.start = now;
+        const t = Math.min(1, (now - animation.start) / animation.durationMs);
+        const p = animation.easing(t);
+        const { from, to } = animation;
+        this.applyCamera({
+            x: from.x + (to.x - from.x) * p,
+            y: from.y + (to.y - from.y) * p,
+            zoom: from.zoom * Math.pow(to.zoom / from.zoom, p),
+            rotation: from.rotation + (to.rotation - from.rotation) * p
+        });
+        if (t >= 1) {
+            this.animation = null;
+            animation.resolve(true);
+        }
+    }
+
+    private applyCamera(camera: { x: number, y: number, zoom: number, rotation: number }) {
+        this.center = vec2.fromValues(camera.x, camera.y);
+        this.zoom = camera.zoom;
+        this.setRotation(camera.rotation);
+    }
+
+    /**
+     * Zoom and center that show a world rectangle whole at the current rotation.
+     * @param padding - Canvas pixels kept free on every side
+     */
+    boundsTarget(rect: WorldRect, padding: number = 0): CameraTarget {
+        if (!(rect.maxX > rect.minX && rect.maxY > rect.minY)) {
+            throw new Error("Bounds must have maxX > minX and maxY > minY.");
+        }
+        if (!(padding >= 0) || this.size[0] - 2 * padding <= 0 || this.size[1] - 2 * padding <= 0) {
+            throw new Error("Padding must be 0 or more and leave room on the canvas.");
+        }
+        return {
+            center: { x: (rect.minX + rect.maxX) / 2, y: (rect.minY + rect.maxY) / 2 },
+            zoom: this.fitZoom(rect, this.rotation, padding)
+        };
+    }
+
+    /**
+     * Zoom at which a world rectangle, seen at a rotation, just fits inside the padded canvas.
+     */
+    private fitZoom(rect: WorldRect, rotation: number, padding: number): number {
+        const width = rect.maxX - rect.minX;
+        const height = rect.maxY - rect.minY;
+        // Bounding box of the rectangle as it appears on the rotated screen
+        const cos = Math.abs(Math.cos(rotation));
+        const sin = Math.abs(Math.sin(rotation));
+        const fitWidth = cos * width + sin * height;
+        const fitHeight = sin * width + cos * height;
+        return Math.min((this.size[0] - 2 * padding) / fitWidth, (this.size[1] - 2 * padding) / fitHeight);
+    }
+
+    /**
+     * Zooms and centers so a world rectangle fits the canvas.
+     * @param rect - World pixel bounds
+     * @param padding - Canvas pixels kept free on every side
+     * @param options - Animation; without it the view jumps
+     */
+    fitBounds(rect: WorldRect, padding: number = 0, options: Partial<FlyToOptions> = { durationMs: 0 }): Promise<boolean> {
+        return this.flyTo(this.boundsTarget(rect, padding), options);
+    }
+
+    /**
+     * Zooms about the canvas center to a resolution in world pixels per canvas pixel; 1 is 1:1.
+     * @param options - Animation; without it the view jumps
+     */
+    zoomToResolution(resolution: number, options: Partial<FlyToOptions> = { durationMs: 0 }): Promise<boolean> {
+        if (!(resolution > 0 && Number.isFinite(resolution))) {
+            throw new Error("Resolution must be positive.");
+        }
+        return this.flyTo({ zoom: 1 / resolution }, options);
+    }
+
+    /**
+     * Applies the constraints (unless a gesture stretches them or an animation runs toward a
+     * constrained target) and uploads the view to the GPU.
+     */
     update() {
+        if (!this.raw && !this.animation) {
+            const limited = this.constrainCamera(this.center[0], this.center[1], this.zoom, this.rotation);
+            this.center = vec2.fromValues(limited.x, limited.y);
+            this.zoom = limited.zoom;
+        }
+
         // Prepare data for GPU
         // We want to map World coordinates to Normalized Device Coordinates (-1 to 1).
 
-        // Screen = (World - Center) * Zoom + Size/2
+        // Screen = R (World - Center) * Zoom + Size/2, R rotating clockwise on screen (Y down)
         // NDC = (Screen / Size) * 2 - 1
         // NDC = (((World - Center) * Zoom + Size/2) / Size) * 2 - 1
         //     = ((World - Center) * Zoom * 2 / Size) + 1 - 1
-        //     = (World - Center) * (2 * Zoom / Size)
+        //     = R (World - Center) * (2 * Zoom / Size)
 
         const scaleX = 2 * this.zoom / this.size[0];
         const scaleY = -2 * this.zoom / this.size[1]; // Flip Y for WebGPU/NDC usually
@@ -95,8 +590,8 @@ export class Viewport {
         const data = new Float32Array([
             this.center[0], this.center[1], // Center
             scaleX, scaleY,                 // Scale
-            // Padding
-            0, 0, 0, 0
+            this.size[0], this.size[1],     // Size (for screen-space overlays)
+            Math.cos(this.rotation), Math.sin(this.rotation) // Rotation
         ]);
 
         this.device.queue.writeBuffer(this.uniformBuffer, 0, data);
@@ -1,8 +1,22 @@
-import { Viewport } from './Viewport';
-import { TileManager, ADRAOptions, BandMetadata } from './TileManager';
-import { InteractionHandler } from './InteractionHandler';
+import { CameraTarget, DEFAULT_VIEW_CONSTRAINTS, FlyToOptions, ViewConstraints, Viewport, WorldRect, mergeViewConstraints, normalizeRotation } from './Viewport';
+import { TileManager, ADRAOptions, BandMetadata, BandStatistics, GlobalRangeOptions, NoDataPolicy, LoadOptions } from './TileManager';
+import { WorkerPool } from './WorkerPool';
+import { InteractionHandler, InteractionOptions } from './InteractionHandler';
 import { ADRAAnalyzer } from './ADRAAnalyzer';
-import tileShaderSource from './shaders/tile.wgsl?raw';
+import { GeoInfo, Point } from './GeoTransform';
+import { GroundPoint, RPCCoefficients, RPCHeight } from './RPCModel';
+import { GCPFit, GCPMethod } from './GCPTransform';
+import { VectorRenderer } from './VectorRenderer';
+import { LabelRenderer } from './LabelRenderer';
+import { GeoJSON, VectorLayer, VectorLayerOptions, VectorStyle } from './VectorLayer';
+import { AnnotationManager } from './AnnotationManager';
+import { Colormap, ColormapLegend, ColormapOptions, ColormapStop } from './Colormap';
+import { BandExpression } from './BandExpression';
+import { DisplayRangeEvent, Stretch, StretchOptions } from './Stretch';
+import { Histogram } from './Histogram';
+import { ImageLayer, ImageLayerOptions, ImageSource, LayerContext, PixelValues } from './ImageLayer';
+import { CompareController, CompareOptions } from './CompareController';
+import { PixelInspector, PixelInspectorOptions } from './PixelInspector';
 
 /**
  * WebGPURenderer handles rendering of Cloud Optimized GeoTIFF (COG) imagery using WebGPU.
@@ -12,37 +26,197 @@ import tileShaderSource from './shaders/tile.wgsl?raw';
  * - Interactive pan/zoom
  * - Optional ADRA (Automatic Dynamic Range Adjustment) for enhanced visualization
  * - Float32 texture support for high dynamic range imagery
+ * - A stack of image layers with opacity and blend modes
+ *
+ * The single-image methods (load, setBands, setStretch, ...) act on the base layer.
  */
 export class WebGPURenderer {
     canvas: HTMLCanvasElement;
     device: GPUDevice | null = null;
     context: GPUCanvasContext | null = null;
-    pipeline: GPURenderPipeline | null = null;
     viewport: Viewport;
-    tileManager: TileManager | null = null;
+    workerPool: WorkerPool | null = null; // Shared by all layers
     interactionHandler: InteractionHandler | null = null;
-
-    settingsBuffer: GPUBuffer | null = null;
-    autoRangeEnabled: boolean = false;
-    adraAnalyzer: ADRAAnalyzer | null = null;
-
-    // Cached bind groups for performance
-    private cachedViewportBindGroup: GPUBindGroup | null = null;
-    private lastSettingsSignature: string = '';
-    private pendingBandsCallback: ((bands: BandMetadata[], suggestedBands: number[]) => void) | null = null;
+    pixelInspector: PixelInspector | null = null;
+
+    vectorRenderer: VectorRenderer | null = null;
+    labelRenderer: LabelRenderer | null = null;
+    labelFont: string = 'sans-serif'; // Locally available font family for labels, read at init
+    annotations: AnnotationManager | null = null;
+    compare: CompareController | null = null;
+
+    readonly baseLayer: ImageLayer = new ImageLayer();
+    private layers: ImageLayer[] = [this.baseLayer];
+    private layerContext: LayerContext | null = null;
+    private presentationFormat: GPUTextureFormat = 'bgra8unorm';
+
+    // Copy of the layers below a 'difference' layer
+    private backdropLayout: GPUBindGroupLayout | null = null;
+    private backdropTexture: GPUTexture | null = null;
+    private backdropBindGroup: GPUBindGroup | null = null;
+
+    private pendingVectorLayers: VectorLayer[] = [];
+    private viewConstraints: ViewConstraints = { ...DEFAULT_VIEW_CONSTRAINTS }; // Kept until init creates the viewport
+    private initialRotation: number = 0; // Rotation set before init creates the viewport
     public onLoadProgress: ((count: number) => void) | null = null;
+    public onRPC: ((rpc: RPCCoefficients) => void) | null = null; // RPCs from a sidecar, which arrive after the image shows
 
     constructor(canvas: HTMLCanvasElement) {
         this.canvas = canvas;
         this.viewport = null as any;
+        this.baseLayer.onInitComplete = this.onTileManagerInit.bind(this);
+        this.baseLayer.onRPC = this.onTileManagerRPC.bind(this);
     }
 
+    // Base layer state, kept on the renderer for single-image use
+    get tileManager(): TileManager | null { return this.baseLayer.tileManager; }
+    get adraAnalyzer(): ADRAAnalyzer | null { return this.baseLayer.adraAnalyzer; }
+    get autoRangeEnabled(): boolean { return this.baseLayer.autoRangeEnabled; }
+    get colormap(): Colormap | null { return this.baseLayer.colormap; }
+    get stretch(): Stretch { return this.baseLayer.stretch; }
+    get expression(): BandExpression | null { return this.baseLayer.expression; }
+
+    get onDisplayRangeChange(): ((event: DisplayRangeEvent) => void) | null { return this.baseLayer.onDisplayRangeChange; }
+    set onDisplayRangeChange(callback: ((event: DisplayRangeEvent) => void) | null) { this.baseLayer.onDisplayRangeChange = callback; }
+
+    // Keeps the analysis running without ADRA
+    get onHistogramChange(): ((histogram: Histogram) => void) | null { return this.baseLayer.onHistogramChange; }
+    set onHistogramChange(callback: ((histogram: Histogram) => void) | null) { this.baseLayer.onHistogramChange = callback; }
+
+    get onStatistics(): ((statistics: BandStatistics[]) => void) | null { return this.baseLayer.onStatistics; }
+    set onStatistics(callback: ((statistics: BandStatistics[]) => void) | null) { this.baseLayer.onStatistics = callback; }
+
     /**
-     * Enables mouse/touch interactions for pan and zoom.
+     * Enables mouse, touch, pen and keyboard interactions: pan, pinch and wheel zoom, twist and Shift-drag rotation,
+     * and key bindings while the canvas has focus (arrows/WASD pan, +/- zoom, 0 fit, 1 one-to-one, R reset rotation).
+     * Calling it again replaces the handler with one using the new options.
+     * @param options - Inertia, smooth zoom and double-click zoom, all on by default
      */
-    enableInteractions() {
+    enableInteractions(options: Partial<InteractionOptions> = {}) {
         if (!this.viewport) return;
-        this.interactionHandler = new InteractionHandler(this.canvas, this.viewport);
+        this.interactionHandler?.disconnect();
+        this.interactionHandler = new InteractionHandler(this.canvas, this.viewport, options);
+        this.interactionHandler.registerKeyAction('fit', () => this.fitToImage());
+        this.interactionHandler.registerKeyAction('actualSize', () => this.zoomToResolution(1));
+        this.updateInteractionTool();
+    }
+
+    /**
+     * Removes the pointer and wheel listeners added by enableInteractions.
+     */
+    disableInteractions() {
+        this.interactionHandler?.disconnect();
+        this.interactionHandler = null;
+    }
+
+    /**
+     * Reads the raw values of every band of the base layer under a canvas point, at full resolution.
+     * @param sx - Canvas x in buffer pixels
+     * @param sy - Canvas y in buffer pixels
+     * @returns Values with pixel and CRS coordinates, or null outside the image
+     */
+    getPixelValues(sx: number, sy: number): Promise<PixelValues | null> {
+        if (!this.viewport) return Promise.resolve(null);
+        const world = this.viewport.screenToWorld(sx, sy);
+        return this.baseLayer.getPixelValues(world.x, world.y);
+    }
+
+    /**
+     * Calls back with the band values under the pointer while it hovers the canvas, for a live readout.
+     * Calling it again replaces the previous callback and options.
+     * @param onPixel - Receives the values, or null when the pointer leaves the canvas or the image
+     * @param options - throttleMs, the shortest time between two reads (default 100)
+     */
+    enablePixelInspector(onPixel: (values: PixelValues | null) => void, options: Partial<PixelInspectorOptions> = {}) {
+        this.pixelInspector?.disconnect();
+        this.pixelInspector = new PixelInspector(this.canvas, (x, y) => this.getPixelValues(x, y), options);
+        this.pixelInspector.onPixel = onPixel;
+    }
+
+    /**
+     * Removes the hover listeners added by enablePixelInspector.
+     */
+    disablePixelInspector() {
+        this.pixelInspector?.disconnect();
+        this.pixelInspector = null;
+    }
+
+    /**
+     * The compare divider sees pointer input first and passes the rest on to the annotation tools.
+     */
+    private updateInteractionTool() {
+        if (this.compare) {
+            this.compare.next = this.annotations;
+        }
+        if (this.interactionHandler) {
+            this.interactionHandler.tool = this.compare || this.annotations;
+        }
+    }
+
+    /**
+     * Compares a layer with the layers below it, e.g. after/before imagery. The layer shows on the
+     * right of (below) a draggable swipe divider, or inside a spy-glass circle that follows the cursor.
+     * Both keep their own bands and stretch and share the viewport.
+     * @param layer - Layer to reveal, usually one from addLayer, or null to end compare mode
+     * @param options - Mode ('swipe' or 'spyglass'), divider orientation and position, spy-glass radius
+     * @returns The controller, whose setOptions and onChange follow the divider
+     */
+    setCompare(layer: ImageLayer | null, options: Partial<CompareOptions> = {}): CompareController | null {
+        if (layer && !this.layers.includes(layer)) {
+            throw new Error("The compared layer must be in the layer stack. Add it with addLayer() first.");
+        }
+        if (this.compare) {
+            this.compare.layer.clipCircle = null;
+            this.vectorRenderer?.removeLayer(this.compare.overlay);
+        }
+        this.compare = layer ? new CompareController(this.canvas, layer, options) : null;
+        if (this.compare) {
+            this.vectorRenderer?.addLayer(this.compare.overlay);
+        }
+        this.updateInteractionTool();
+        return this.compare;
+    }
+
+    /**
+     * Adds an image layer on top of the stack. It shares the viewport and the worker pool with the other layers.
+     * @param source - File object, URL string, or a list of them for a mosaic
+     * @param options - Bands, stretch, visibility, opacity, blend mode and z-index (default: above all layers)
+     * @param loadOptions - Optional sidecar files and the mosaic overlap rule
+     * @returns Layer handle with the per-image methods (setBands, setStretch, setColormap, ...)
+     */
+    addLayer(source: ImageSource, options: Partial<ImageLayerOptions> = {}, loadOptions: LoadOptions = {}): ImageLayer {
+        const zIndex = options.zIndex ?? Math.max(...this.layers.map(l => l.zIndex)) + 1;
+        const layer = new ImageLayer({ ...options, zIndex });
+        this.layers.push(layer);
+        if (this.layerContext) {
+            layer.attach(this.layerContext);
+        }
+        layer.load(source, loadOptions);
+        return layer;
+    }
+
+    /**
+     * Removes a layer added with addLayer and frees its tiles and GPU resources.
+     */
+    removeLayer(layer: ImageLayer) {
+        if (layer === this.baseLayer) {
+            throw new Error("The base layer cannot be removed. Use load() to replace its image.");
+        }
+        const index = this.layers.indexOf(layer);
+        if (index === -1) return;
+        if (this.compare?.layer === layer) {
+            this.setCompare(null);
+        }
+        this.layers.splice(index, 1);
+        layer.destroy();
+    }
+
+    /**
+     * Gets all image layers, including the base layer, in drawing order (bottom first).
+     */
+    getLayers(): ImageLayer[] {
+        // Stable sort: equal z-indices keep the order layers were added
+        return this.layers.slice().sort((a, b) => a.zIndex - b.zIndex);
     }
 
     /**
@@ -50,7 +224,7 @@ export class WebGPURenderer {
      * @param enabled - Whether to enable ADRA
      */
     setAutoRange(enabled: boolean) {
-        this.autoRangeEnabled = enabled;
+        this.baseLayer.setAutoRange(enabled);
     }
 
     /**
@@ -58,9 +232,64 @@ export class WebGPURenderer {
      * @param options - Partial ADRA options to update
      */
     setADRAOptions(options: Partial<ADRAOptions>) {
-        if (this.adraAnalyzer) {
-            this.adraAnalyzer.setOptions(options);
-        }
+        this.baseLayer.setADRAOptions(options);
+    }
+
+    /**
+     * Sets a fixed display range that overrides ADRA and the global range.
+     * @param range - Per-channel min and max (one value applies to all channels), or null to go back to automatic
+     */
+    setDisplayRange(range: { min: number[] | number, max: number[] | number } | null) {
+        this.baseLayer.setDisplayRange(range);
+    }
+
+    /**
+     * Gets the range drawn in the last frame and where it came from.
+     */
+    getDisplayRange(): DisplayRangeEvent {
+        return this.baseLayer.getDisplayRange();
+    }
+
+    /**
+     * Freezes the current ADRA range so panning and zooming no longer change it.
+     * A manual range still takes priority over the locked one.
+     * @param locked - True to lock the current range, false to follow the view again
+     */
+    setADRALocked(locked: boolean) {
+        this.baseLayer.setADRALocked(locked);
+    }
+
+    /**
+     * Whether the ADRA range is locked.
+     */
+    isADRALocked(): boolean {
+        return this.baseLayer.isADRALocked();
+    }
+
+    /**
+     * Gets the per-channel histogram of the last ADRA analysis (bins, counts, min, max, mean, stdDev).
+     * The analysis runs while ADRA is enabled, the stretch needs it, or onHistogramChange is set.
+     * @returns The histogram, or null before the first analysis
+     */
+    getHistogram(): Histogram | null {
+        return this.baseLayer.getHistogram();
+    }
+
+    /**
+     * Configures the range used without ADRA: whole-image band min/max, or whole-image percentiles.
+     * Until the statistics job finishes (and for band-math expressions) the min/max of loaded tiles is used.
+     * @param options - Partial options to update
+     */
+    setGlobalRangeOptions(options: Partial<GlobalRangeOptions>) {
+        this.baseLayer.setGlobalRangeOptions(options);
+    }
+
+    /**
+     * Gets the whole-image per-band statistics (min, max, mean, stdDev, percentiles).
+     * @returns Statistics, or null until the job started by load() finishes
+     */
+    getStatistics(): BandStatistics[] | null {
+        return this.baseLayer.getStatistics();
     }
 
     /**
@@ -68,7 +297,7 @@ export class WebGPURenderer {
      * @returns Array of band metadata or empty array if not initialized
      */
     getBandMetadata(): BandMetadata[] {
-        return this.tileManager?.bandMetadata || [];
+        return this.baseLayer.getBandMetadata();
     }
 
     /**
@@ -76,9 +305,24 @@ export class WebGPURenderer {
      * @param bandIndices - Array of band indices (0-based). For RGB: [redIdx, greenIdx, blueIdx]. For grayscale: [bandIdx]
      */
     setBands(bandIndices: number[]) {
-        if (this.tileManager) {
-            this.tileManager.setBands(bandIndices);
-        }
+        this.baseLayer.setBands(bandIndices);
+    }
+
+    /**
+     * Gets the active nodata policy together with the values it resolves to.
+     * @returns The nodata mode, per-band values and optional threshold
+     */
+    getNoDataPolicy(): NoDataPolicy {
+        return this.baseLayer.getNoDataPolicy();
+    }
+
+    /**
+     * Overrides how nodata pixels are detected. Tiles are decoded again.
+     * @param policy - Partial policy. Use mode 'custom' with `values` to replace the file nodata,
+     * or set `threshold` to hide near-black edges of lossy JPEG imagery.
+     */
+    setNoDataPolicy(policy: Partial<NoDataPolicy>) {
+        this.baseLayer.setNoDataPolicy(policy);
     }
 
     /**
@@ -86,7 +330,7 @@ export class WebGPURenderer {
      * @returns Array of selected band indices
      */
     getSelectedBands(): number[] {
-        return this.tileManager?.selectedBands || [];
+        return this.baseLayer.getSelectedBands();
     }
 
     /**
@@ -94,13 +338,186 @@ export class WebGPURenderer {
      * @param callback - Function to call with band metadata and suggested bands
      */
     onBandsInitialized(callback: (bands: BandMetadata[], suggestedBands: number[]) => void) {
+        this.baseLayer.onBandsInitialized = callback;
+    }
+
+    /**
+     * Gets the georeferencing parsed from the loaded image.
+     * @returns Geotransform, EPSG code and raw GeoKeys, or null if no image is loaded
+     */
+    getGeoInfo(): GeoInfo | null {
+        return this.baseLayer.geoInfo;
+    }
+
+    /**
+     * Converts full resolution image pixel coordinates to CRS coordinates.
+     * @returns CRS coordinates, or null if the image is not georeferenced
+     */
+    pixelToCrs(x: number, y: number): Point | null {
+        const transform = this.baseLayer.pixelTransform;
+        return transform ? transform.pixelToCrs(x, y) : null;
+    }
+
+    /**
+     * Converts CRS coordinates to full resolution image pixel coordinates.
+     * @returns Pixel coordinates, or null if the image is not georeferenced
+     */
+    crsToPixel(x: number, y: number): Point | null {
+        const transform = this.baseLayer.pixelTransform;
+        return transform ? transform.crsToPixel(x, y) : null;
+    }
+
+    /**
+     * Converts canvas buffer coordinates to CRS coordinates.
+     * @returns CRS coordinates, or null if the image is not georeferenced
+     */
+    screenToCrs(sx: number, sy: number): Point | null {
+        if (!this.tileManager) return null;
+        const world = this.tileManager.screenToWorld(sx, sy, this.viewport);
+        return this.pixelToCrs(world.x, world.y);
+    }
+
+    /**
+     * Chooses how ground control points (tie points or four-corner metadata) are fitted.
+     * @param method - 'affine', 'polynomial1', 'polynomial2', 'tps' (thin-plate spline) or 'auto'
+     */
+    setGCPMethod(method: GCPMethod) {
         if (this.tileManager) {
-            this.tileManager.onBandsInitialized = callback;
+            this.tileManager.setGCPMethod(method);
+            this.vectorRenderer?.invalidate();
+            this.annotations?.invalidate();
+        }
+    }
+
+    /**
+     * Gets the residuals of the current GCP fit so users can judge its accuracy.
+     * @returns Per-GCP residuals and RMS, or null if the image has no GCPs
+     */
+    getGCPFit(): GCPFit | null {
+        return this.tileManager?.gcpTransform?.fit || null;
+    }
+
+    /**
+     * Gets the RPC coefficients read from tag 50844 or a sidecar.
+     * @returns Coefficients, or null if the image has no RPCs
+     */
+    getRPC(): RPCCoefficients | null {
+        return this.tileManager?.rpcModel?.rpc || null;
+    }
+
+    /**
+     * Sets the height used by the RPC model: a constant in meters above the ellipsoid,
+     * or a DEM lookup `(lon, lat) => height`. Defaults to the RPC height offset.
+     */
+    setRPCHeight(height: RPCHeight) {
+        if (this.tileManager?.rpcModel) {
+            this.tileManager.rpcModel.height = height;
+            this.vectorRenderer?.invalidate();
+            this.annotations?.invalidate();
+        }
+    }
+
+    /**
+     * Projects WGS84 lon/lat onto the raw image pixel grid using the RPC model.
+     * @param height - Optional height override in meters
+     * @returns Full resolution pixel coordinates, or null if the image has no RPCs
+     */
+    groundToImage(lon: number, lat: number, height?: number): Point | null {
+        const model = this.tileManager?.rpcModel;
+        if (!model) return null;
+        if (height === undefined) return model.crsToPixel(lon, lat);
+        return model.groundToImage(lon, lat, height);
+    }
+
+    /**
+     * Converts a full resolution pixel to WGS84 lon/lat using the RPC model.
+     * @param height - Optional height override, constant or DEM lookup
+     * @returns Ground point, or null if the image has no RPCs
+     */
+    imageToGround(x: number, y: number, height?: RPCHeight): GroundPoint | null {
+        const model = this.tileManager?.rpcModel;
+        return model ? model.imageToGround(x, y, height) : null;
+    }
+
+    /**
+     * Sets the transfer function from the display range to screen intensity.
+     * Options not given keep their current value; brightness and contrast apply after the stretch.
+     * @param options - Mode ('linear', 'gamma', 'log', 'sigmoid', 'stddev', 'equalize', 'clahe') and its parameters
+     */
+    setStretch(options: Partial<StretchOptions>) {
+        this.baseLayer.setStretch(options);
+    }
+
+    /**
+     * Gets the current stretch options.
+     */
+    getStretch(): StretchOptions {
+        return this.baseLayer.getStretch();
+    }
+
+    /**
+     * Applies a color ramp to the stretched value of the first channel (single-band imagery).
+     * @param colormap - Built-in name ('viridis', 'magma', 'terrain', 'jet', 'RdYlGn'), custom stops
+     *                   with values 0-1 along the display range, or null for grayscale/RGB
+     * @param options - 'continuous' or 'discrete' mode, class count and reversal
+     */
+    setColormap(colormap: string | ColormapStop[] | null, options: Partial<ColormapOptions> = {}) {
+        this.baseLayer.setColormap(colormap, options);
+    }
+
+    /**
+     * Gets legend data for the active colormap in data values of the current display range.
+     * @returns Stops and discrete classes, or null without a colormap
+     */
+    getColormapLegend(): ColormapLegend | null {
+        return this.baseLayer.getColormapLegend();
+    }
+
+    /**
+     * Renders a band-math expression instead of the selected bands, e.g. NDVI `(b8 - b4) / (b8 + b4)`.
+     * Bands are 1-based. One expression gives a single channel that the stretch and colormap apply to;
+     * three give R, G and B.
+     * @param expression - Expression(s), or null to go back to the selected bands
+     * @throws ExpressionError describing the problem and its position
+     */
+    setExpression(expression: string | string[] | null) {
+        this.baseLayer.setExpression(expression);
+    }
+
+    /**
+     * Gets the active band-math expression(s), or null when showing the selected bands.
+     */
+    getExpression(): string[] | null {
+        return this.baseLayer.getExpression();
+    }
+
+    /**
+     * Adds a GeoJSON overlay drawn above the image.
+     * @param geojson - FeatureCollection, Feature or bare geometry
+     * @param style - Stroke, fill, width and opacity
+     * @param options - Coordinate space ('pixel' or 'crs'), per-feature style overrides and label text/priority
+     * @returns Layer handle for updating data, style and visibility
+     */
+    addVectorLayer(geojson: GeoJSON, style: Partial<VectorStyle> = {}, options: Partial<VectorLayerOptions> = {}): VectorLayer {
+        const layer = new VectorLayer(geojson, style, options);
+        if (this.vectorRenderer) {
+            // Annotations stay on top of data overlays
+            this.vectorRenderer.addLayer(layer, this.annotations?.layer);
         } else {
-            this.pendingBandsCallback = callback;
+            this.pendingVectorLayers.push(layer);
         }
+        return layer;
+    }
+
+    /**
+     * Removes an overlay layer and frees its GPU buffers.
+     */
+    removeVectorLayer(layer: VectorLayer) {
+        this.pendingVectorLayers = this.pendingVectorLayers.filter(l => l !== layer);
+        this.vectorRenderer?.removeLayer(layer);
     }
 
+
     /**
      * Initialize the renderer.
      * @param workerFactory - Factory function to create workers
@@ -129,29 +546,21 @@ export class WebGPURenderer {
         }
 
         const presentationFormat = navigator.gpu.getPreferredCanvasFormat();
-        this.context.configure({
-            device: this.device,
-            format: presentationFormat,
-            alphaMode: 'premultiplied',
-        });
+        this.presentationFormat = presentationFormat;
+        this.configureContext();
 
         this.viewport = new Viewport(this.device, this.canvas.width, this.canvas.height);
-
-        // Settings Buffer
-        this.settingsBuffer = this.device.createBuffer({
-            size: 32,
-            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-        });
-
-        const shaderModule = this.device.createShaderModule({
-            code: tileShaderSource,
-        });
+        this.viewport.setConstraints(this.viewConstraints);
+        this.viewport.setRotation(this.initialRotation);
+        this.workerPool = new WorkerPool(workerFactory);
 
         // Define Explicit Bind Group Layouts to ensure compatibility between pipelines
         const group0Layout = this.device.createBindGroupLayout({
             entries: [
                 { binding: 0, visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } }, // Viewport
-                { binding: 1, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } } // Settings
+                { binding: 1, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } }, // Settings
+                { binding: 2, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: 'float', viewDimension: '1d' } }, // Colormap
+                { binding: 3, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'read-only-storage' } } // Equalization LUTs
             ]
         });
 
@@ -163,104 +572,153 @@ export class WebGPURenderer {
             ]
         });
 
-        const pipelineLayout = this.device.createPipelineLayout({
-            bindGroupLayouts: [group0Layout, group1Layout]
-        });
-
-        // Main Pipeline
-        this.pipeline = this.device.createRenderPipeline({
-            layout: pipelineLayout,
-            vertex: {
-                module: shaderModule,
-                entryPoint: 'vert_main',
-            },
-            fragment: {
-                module: shaderModule,
-                entryPoint: 'frag_main',
-                targets: [
-                    {
-                        format: presentationFormat,
-                        blend: {
-                            color: {
-                                srcFactor: 'src-alpha',
-                                dstFactor: 'one-minus-src-alpha',
-                                operation: 'add',
-                            },
-                            alpha: {
-                                srcFactor: 'one',
-                                dstFactor: 'one-minus-src-alpha',
-                                operation: 'add',
-                            },
-                        }
-                    },
-                ],
-            },
-            primitive: {
-                topology: 'triangle-list',
-            },
+        this.backdropLayout = this.device.createBindGroupLayout({
+            entries: [
+                { binding: 0, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: 'float' } } // Layers below
+            ]
         });
 
-        // Initialize ADRA Analyzer
-        this.adraAnalyzer = new ADRAAnalyzer(
-            this.device,
-            shaderModule,
-            pipelineLayout,
-            {
-                clipLow: 1,
-                clipHigh: 99,
-                padLow: 50,
-                padHigh: 20
-            }
-        );
-
-        this.tileManager = new TileManager(this.device, this.pipeline, workerFactory);
-        // We might need to give tileManager access to analysisPipeline layout if it differs?
-        // Or just assume compatibility.
-
-        this.tileManager.onInitComplete = this.onTileManagerInit.bind(this);
+        // Every layer builds its pipelines on these layouts
+        this.layerContext = {
+            device: this.device,
+            viewport: this.viewport,
+            workerPool: this.workerPool,
+            pipelineLayout: this.device.createPipelineLayout({
+                bindGroupLayouts: [group0Layout, group1Layout]
+            }),
+            backdropLayout: this.device.createPipelineLayout({
+                bindGroupLayouts: [group0Layout, group1Layout, this.backdropLayout]
+            }),
+            presentationFormat
+        };
+        for (const layer of this.layers) {
+            layer.attach(this.layerContext);
+        }
 
-        if (this.pendingBandsCallback) {
-            this.tileManager.onBandsInitialized = this.pendingBandsCallback;
-            this.pendingBandsCallback = null;
+        // Vector overlays
+        this.vectorRenderer = new VectorRenderer(this.device, presentationFormat, this.viewport);
+        this.vectorRenderer.getTransform = () => this.baseLayer.pixelTransform;
+        for (const layer of this.pendingVectorLayers) {
+            this.vectorRenderer.addLayer(layer);
+        }
+        this.pendingVectorLayers = [];
+
+        // Annotation tools, drawn above the other overlays
+        this.annotations = new AnnotationManager(this.viewport);
+        this.annotations.getTransform = () => this.baseLayer.pixelTransform;
+        this.vectorRenderer.addLayer(this.annotations.layer);
+        this.vectorRenderer.addLayer(this.annotations.editLayer);
+        if (this.compare) {
+            this.vectorRenderer.addLayer(this.compare.overlay);
         }
+        this.updateInteractionTool();
+
+        this.labelRenderer = new LabelRenderer(this.device, presentationFormat, this.viewport, this.vectorRenderer, this.labelFont);
 
         // Start render loop
         requestAnimationFrame(this.render.bind(this));
     }
 
+    private configureContext() {
+        this.context!.configure({
+            device: this.device!,
+            format: this.presentationFormat,
+            alphaMode: 'premultiplied',
+            // 'difference' layers copy the layers below out of the canvas
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
+        });
+    }
+
     /**
-     * Loads a COG file from a File object or URL.
-     * @param source - File object or URL string
+     * Loads a COG file from a File object or URL into the base layer.
+     * A list of adjacent georeferenced COGs loads as one mosaic with a shared stretch.
+     * @param source - File object, URL string, or a list of them for a mosaic
+     * @param options - Optional sidecar files and the mosaic overlap rule ('first', 'last', 'highest-resolution')
      */
-    load(source: File | string) {
-        if (this.tileManager) {
-            this.tileManager.init(source);
-        }
+    load(source: ImageSource, options: LoadOptions = {}) {
+        this.baseLayer.load(source, options);
     }
 
     /**
-     * Callback when TileManager completes initialization.
+     * Callback when the base layer completes initialization.
      * Automatically fits the image to the viewport.
      */
     onTileManagerInit(width: number, height: number) {
-        // Calculate fit
-        const canvasAspect = this.canvas.width / this.canvas.height;
-        const imageAspect = width / height;
-
-        let zoom = 1;
-        if (canvasAspect > imageAspect) {
-            // Canvas is wider than image (relative to height) -> Fit Height
-            zoom = this.canvas.height / height;
-        } else {
-            // Canvas is taller -> Fit Width
-            zoom = this.canvas.width / width;
-        }
+        // Zoom and pan limits refer to the base image
+        this.viewport.setContentBounds({ minX: 0, minY: 0, maxX: width, maxY: height });
+        this.fitToImage();
+
+        // CRS overlays depend on the georeference of the new image
+        this.vectorRenderer?.invalidate();
+        this.annotations?.invalidate();
+    }
+
+    private onTileManagerRPC(rpc: RPCCoefficients) {
+        // Overlays may switch from a GCP fit to the RPC model
+        this.vectorRenderer?.invalidate();
+        this.annotations?.invalidate();
+        this.onRPC?.(rpc);
+    }
+
+    /**
+     * Zooms and centers the view so the whole base image fits the canvas at the current rotation.
+     * @param options - Animation; without it the view jumps
+     */
+    fitToImage(options?: Partial<FlyToOptions>): Promise<boolean> {
+        const width = this.baseLayer.width;
+        const height = this.baseLayer.height;
+        if (!this.viewport || !width || !height) return Promise.resolve(false);
 
         // Apply a small padding
-        zoom *= 0.95;
+        const padding = 0.025 * Math.min(this.canvas.width, this.canvas.height);
+        return this.viewport.fitBounds({ minX: 0, minY: 0, maxX: width, maxY: height }, padding, options);
+    }
+
+    /**
+     * Zooms and centers so a rectangle of world (image) pixels fits the canvas.
+     * @param rect - Pixel bounds, e.g. from an annotation or a converted CRS extent
+     * @param padding - Canvas pixels kept free on every side
+     * @param options - Animation; without it the view jumps
+     * @returns Resolves true when the view arrives, false if user input cancelled the animation or init() has not run
+     */
+    fitBounds(rect: WorldRect, padding: number = 0, options?: Partial<FlyToOptions>): Promise<boolean> {
+        if (!this.viewport) return Promise.resolve(false);
+        return this.viewport.fitBounds(rect, padding, options);
+    }
+
+    /**
+     * Animates the view to a center, zoom and/or rotation. Pan, zoom or key input cancels it.
+     * @param target - World pixel center, zoom (canvas pixels per image pixel) and rotation (radians)
+     * @param options - Duration (default 500 ms) and easing ('linear', 'easeIn', 'easeOut', 'easeInOut' or a function)
+     * @returns Resolves true when the view arrives, false when cancelled or before init()
+     */
+    flyTo(target: CameraTarget, options: Partial<FlyToOptions> = {}): Promise<boolean> {
+        if (!this.viewport) return Promise.resolve(false);
+        return this.viewport.flyTo(target, options);
+    }
+
+    /**
+     * Zooms about the canvas center to a resolution in image pixels per canvas pixel; 1 shows pixels 1:1.
+     * @param options - Animation; without it the view jumps
+     */
+    zoomToResolution(resolution: number, options?: Partial<FlyToOptions>): Promise<boolean> {
+        if (!this.viewport) return Promise.resolve(false);
+        return this.viewport.zoomToResolution(resolution, options);
+    }
+
+    /**
+     * Sets zoom and pan limits, applied to gestures, keys and programmatic camera calls alike.
+     * @param constraints - minZoomFit (fraction of the fit-to-image zoom), maxMagnification
+     *   (canvas pixels per image pixel), minVisible (canvas pixels of image kept on screen, null
+     *   for free panning) and rubberBand (gestures stretch past the limits and spring back)
+     */
+    setViewConstraints(constraints: Partial<ViewConstraints>) {
+        this.viewConstraints = mergeViewConstraints(this.viewConstraints, constraints);
+        this.viewport?.setConstraints(this.viewConstraints);
+    }
 
-        this.viewport.setZoom(zoom);
-        this.viewport.setCenter(width / 2, height / 2);
+    getViewConstraints(): ViewConstraints {
+        return { ...this.viewConstraints };
     }
 
     /**
@@ -272,113 +730,141 @@ export class WebGPURenderer {
         if (!this.device || !this.context) return;
         this.canvas.width = width;
         this.canvas.height = height;
-        this.context.configure({
-            device: this.device,
-            format: navigator.gpu.getPreferredCanvasFormat(),
-            alphaMode: 'premultiplied',
-        });
+        this.configureContext();
         this.viewport.resize(width, height);
     }
 
     /**
-     * Main render loop. Renders visible tiles with optional ADRA.
+     * Rotates the view about the canvas center, e.g. to show SAR imagery in look direction.
+     * Shift-drag and a two-finger twist rotate interactively. A rotation set before init() applies once it runs.
+     * @param radians - Clockwise angle on screen; 0 shows image rows horizontally
      */
-    render() {
-        requestAnimationFrame(this.render.bind(this));
+    setRotation(radians: number) {
+        if (this.viewport) {
+            this.viewport.setRotation(radians);
+        } else {
+            this.initialRotation = normalizeRotation(radians);
+        }
+    }
 
-        if (!this.device || !this.context || !this.pipeline || !this.tileManager || !this.settingsBuffer) return;
+    /**
+     * Gets the view rotation in radians, clockwise, normalized to (-PI, PI].
+     */
+    getRotation(): number {
+        return this.viewport ? this.viewport.rotation : this.initialRotation;
+    }
 
-        const commandEncoder = this.device.createCommandEncoder();
-        const textureView = this.context.getCurrentTexture().createView();
+    /**
+     * Rotates by an angle about a canvas point, which stays over the same image pixel.
+     * @param radians - Clockwise angle to add
+     * @param x - Canvas x in buffer pixels
+     * @param y - Canvas y in buffer pixels
+     */
+    rotateAt(radians: number, x: number, y: number) {
+        // Before init there is no view to anchor the point in
+        if (!this.viewport) {
+            this.setRotation(this.initialRotation + radians);
+            return;
+        }
+        this.viewport.rotateAt(radians, x, y);
+    }
 
-        const renderPassDescriptor: GPURenderPassDescriptor = {
+    private beginPass(commandEncoder: GPUCommandEncoder, view: GPUTextureView, loadOp: GPULoadOp): GPURenderPassEncoder {
+        return commandEncoder.beginRenderPass({
             colorAttachments: [
                 {
-                    view: textureView,
+                    view,
                     clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 1.0 },
-                    loadOp: 'clear',
+                    loadOp,
                     storeOp: 'store',
                 },
             ],
-        };
+        });
+    }
 
-        const passEncoder = commandEncoder.beginRenderPass(renderPassDescriptor);
-        passEncoder.setPipeline(this.pipeline);
+    /**
+     * Copies what has been drawn so far into the backdrop texture read by 'difference' layers.
+     * @returns Bind group 2 for the difference pipeline
+     */
+    private copyBackdrop(commandEncoder: GPUCommandEncoder, canvasTexture: GPUTexture): GPUBindGroup {
+        const { width, height } = canvasTexture;
+        if (!this.backdropTexture || this.backdropTexture.width !== width || this.backdropTexture.height !== height) {
+            this.backdropTexture?.destroy();
+            this.backdropTexture = this.device!.createTexture({
+                size: [width, height, 1],
+                format: this.presentationFormat,
+                usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+            });
+            this.backdropBindGroup = this.device!.createBindGroup({
+                layout: this.backdropLayout!,
+                entries: [{ binding: 0, resource: this.backdropTexture.createView() }],
+            });
+        }
+        commandEncoder.copyTextureToTexture({ texture: canvasTexture }, { texture: this.backdropTexture }, [width, height, 1]);
+        return this.backdropBindGroup!;
+    }
 
-        const visibleTiles = this.tileManager.getVisibleTiles(this.viewport);
+    /**
+     * Main render loop. Renders the visible layers bottom to top, then the overlays.
+     */
+    render() {
+        requestAnimationFrame(this.render.bind(this));
 
-        if (this.onLoadProgress) {
-            this.onLoadProgress(this.tileManager.pendingRequests);
-        }
+        if (!this.device || !this.context || !this.workerPool) return;
 
-        let min = [0, 0, 0];
-        let max = [1, 1, 1];
-
-        if (this.autoRangeEnabled && this.adraAnalyzer) {
-            // Update ADRA statistics
-            const metrics = this.adraAnalyzer.update(
-                visibleTiles,
-                this.viewport,
-                this.settingsBuffer,
-                this.tileManager.version,
-                this.tileManager.globalMax
-            );
-
-            // Log performance metrics (optional)
-            // if (metrics.updated && metrics.timeMs > 0) {
-            //    console.debug(`ADRA updated in ${metrics.timeMs.toFixed(2)}ms`);
-            // }
-
-            min = this.adraAnalyzer.currentStats.min;
-            max = this.adraAnalyzer.currentStats.max;
-        } else {
-            // Use Global Stats
-            const gMin = this.tileManager.globalMin;
-            let gMax = this.tileManager.globalMax;
-            // Prevent zero range
-            if (gMax <= gMin) gMax = gMin + 1;
-
-            min = [gMin, gMin, gMin];
-            max = [gMax, gMax, gMax];
-        }
+        this.viewport.tick(performance.now());
 
-        // Update settings buffer
-        const settingsData = new Float32Array([
-            min[0], min[1], min[2], 0,
-            max[0], max[1], max[2], 0
-        ]);
-        this.device.queue.writeBuffer(this.settingsBuffer, 0, settingsData);
-
-        // Cache bind group if settings haven't changed
-        const settingsSignature = `${min.map(n => n.toFixed(4)).join(',')}-${max.map(n => n.toFixed(4)).join(',')}`;
-        if (settingsSignature !== this.lastSettingsSignature || !this.cachedViewportBindGroup) {
-            this.cachedViewportBindGroup = this.device.createBindGroup({
-                layout: this.pipeline.getBindGroupLayout(0),
-                entries: [
-                    {
-                        binding: 0,
-                        resource: {
-                            buffer: this.viewport.getBuffer(),
-                        },
-                    },
-                    {
-                        binding: 1,
-                        resource: {
-                            buffer: this.settingsBuffer,
-                        },
-                    },
-                ],
-            });
-            this.lastSettingsSignature = settingsSignature;
+        const commandEncoder = this.device.createCommandEncoder();
+        const canvasTexture = this.context.getCurrentTexture();
+        const textureView = canvasTexture.createView();
+
+        let passEncoder = this.beginPass(commandEncoder, textureView, 'clear');
+
+        const compare = this.compare;
+        if (compare) {
+            compare.layer.clipCircle = compare.clipCircle();
+            compare.updateOverlay(this.viewport);
         }
 
-        passEncoder.setBindGroup(0, this.cachedViewportBindGroup);
+        // Only the lowest layer draws the gray placeholder under its image
+        let background = true;
+        for (const layer of this.getLayers()) {
+            if (!layer.visible || !layer.attached) continue;
+
+            // A compared layer only draws on its side of the divider or inside the spy-glass
+            const clip = compare?.layer === layer ? compare.clipRect() : null;
+            if (compare?.layer === layer && !clip) continue;
+
+            const visibleTiles = layer.update();
+
+            let backdrop: GPUBindGroup | null = null;
+            if (layer.blendMode === 'difference') {
+                // Snapshot the layers drawn so far and continue on top of them
+                passEncoder.end();
+                backdrop = this.copyBackdrop(commandEncoder, canvasTexture);
+                passEncoder = this.beginPass(commandEncoder, textureView, 'load');
+            }
 
-        for (const tile of visibleTiles) {
-            if (tile.bindGroup) {
-                passEncoder.setBindGroup(1, tile.bindGroup);
-                passEncoder.draw(6, 1, 0, 0);
+            if (clip) {
+                passEncoder.setScissorRect(clip.x, clip.y, clip.width, clip.height);
+            }
+            layer.draw(passEncoder, visibleTiles, background, backdrop);
+            if (clip) {
+                passEncoder.setScissorRect(0, 0, canvasTexture.width, canvasTexture.height);
             }
+            background = false;
+        }
+
+        if (this.onLoadProgress) {
+            this.onLoadProgress(this.workerPool.pendingCount);
+        }
+
+        // Overlays composite over the tiles
+        if (this.vectorRenderer) {
+            this.vectorRenderer.draw(passEncoder);
+        }
+        if (this.labelRenderer) {
+            this.labelRenderer.draw(passEncoder);
         }
 
         passEncoder.end();
@@ -1,3 +1,21 @@
 export * from './WebGPURenderer';
 export * from './Viewport';
 export * from './TileManager';
+export * from './ImageLayer';
+export * from './Mosaic';
+export * from './CompareController';
+export * from './TimeStack';
+export * from './GeoTransform';
+export * from './RPCModel';
+export * from './GCPTransform';
+export * from './VectorLayer';
+export * from './VectorRenderer';
+export * from './GlyphAtlas';
+export * from './LabelRenderer';
+export * from './InteractionHandler';
+export * from './PixelInspector';
+export * from './AnnotationManager';
+export * from './Colormap';
+export * from './BandExpression';
+export * from './Stretch';
+export * from './Histogram';
@@ -0,0 +1,79 @@
+// Contrast Limited Adaptive Histogram Equalization over the visible area.
+// One workgroup per (region, channel) builds a clipped histogram and writes its CDF as a 256 entry LUT,
+// laid out as luts[(region * 3 + channel) * 256 + bin]. frag_main in tile.wgsl interpolates between regions.
+
+struct Params {
+    min: vec4<f32>,
+    max: vec4<f32>,
+    grid: vec4<f32>, // x, y: region count, z: clip limit (multiple of the mean bin count)
+};
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var source: texture_2d<f32>; // Raw values of the visible area, alpha = valid
+@group(0) @binding(2) var<storage, read_write> luts: array<f32>;
+
+const BINS: u32 = 256u;
+
+var<workgroup> histogram: array<atomic<u32>, 256>;
+
+@compute @workgroup_size(256)
+fn build_luts(
+    @builtin(workgroup_id) group: vec3<u32>,
+    @builtin(local_invocation_index) local: u32
+) {
+    let grid = vec2<u32>(params.grid.xy);
+    let region = group.x;
+    let channel = group.y;
+    atomicStore(&histogram[local], 0u);
+    workgroupBarrier();
+
+    // Pixel bounds of this region
+    let size = textureDimensions(source);
+    let cell = vec2<u32>(region % grid.x, region / grid.x);
+    let start = cell * size / grid;
+    let end = (cell + vec2<u32>(1u, 1u)) * size / grid;
+    let dims = end - start;
+    let count = dims.x * dims.y;
+
+    let lo = params.min[channel];
+    let range = max(params.max[channel] - lo, 0.00001);
+    for (var i = local; i < count; i = i + BINS) {
+        let texel = textureLoad(source, start + vec2<u32>(i % dims.x, i / dims.x), 0);
+        if (texel.a > 0.5) {
+            let t = clamp((texel[channel] - lo) / range, 0.0, 1.0);
+            atomicAdd(&histogram[min(u32(t * f32(BINS)), BINS - 1u)], 1u);
+        }
+    }
+    workgroupBarrier();
+
+    if (local != 0u) {
+        return;
+    }
+
+    let base = (region * 3u + channel) * BINS;
+    var total = 0u;
+    for (var b = 0u; b < BINS; b = b + 1u) {
+        total = total + atomicLoad(&histogram[b]);
+    }
+    if (total == 0u) {
+        // No valid pixels: identity mapping
+        for (var b = 0u; b < BINS; b = b + 1u) {
+            luts[base + b] = (f32(b) + 0.5) / f32(BINS);
+        }
+        return;
+    }
+
+    // Clip bins at the limit and spread the excess evenly
+    let limit = max(1.0, params.grid.z * f32(total) / f32(BINS));
+    var excess = 0.0;
+    for (var b = 0u; b < BINS; b = b + 1u) {
+        excess = excess + max(0.0, f32(atomicLoad(&histogram[b])) - limit);
+    }
+    let spread = excess / f32(BINS);
+
+    var sum = 0.0;
+    for (var b = 0u; b < BINS; b = b + 1u) {
+        sum = sum + min(f32(atomicLoad(&histogram[b])), limit) + spread;
+        luts[base + b] = sum / f32(total);
+    }
+}
@@ -0,0 +1,113 @@
+// ADRA histogram over the analysis render (raw values, alpha = valid). Two dispatches over 16x16 blocks:
+// reduce_range finds the per-channel min/max, then bin_values fills BINS bins per channel between them
+// and writes per-workgroup sums (relative to the min) for the mean and standard deviation.
+
+const BINS: u32 = 256u;
+
+@group(0) @binding(0) var source: texture_2d<f32>;
+@group(0) @binding(1) var<storage, read_write> range: array<atomic<u32>, 6>; // Ordered float bits: min R, G, B, max R, G, B
+@group(0) @binding(2) var<storage, read_write> bins: array<atomic<u32>>;      // bins[channel * BINS + bin]
+@group(0) @binding(3) var<storage, read_write> partials: array<vec4<f32>>;    // Per workgroup: (sum R, G, B, count), (sum² R, G, B, 0)
+
+var<workgroup> localMin: array<atomic<u32>, 3>;
+var<workgroup> localMax: array<atomic<u32>, 3>;
+var<workgroup> localBins: array<atomic<u32>, 768>;
+var<workgroup> sums: array<vec4<f32>, 256>;
+var<workgroup> squares: array<vec4<f32>, 256>;
+
+// Maps float bits to u32 so that unsigned order matches float order
+fn ordered(v: f32) -> u32 {
+    let b = bitcast<u32>(v);
+    return select(b | 0x80000000u, ~b, (b & 0x80000000u) != 0u);
+}
+
+fn from_ordered(u: u32) -> f32 {
+    return bitcast<f32>(select(~u, u & 0x7fffffffu, (u & 0x80000000u) != 0u));
+}
+
+fn load_valid(id: vec2<u32>) -> vec4<f32> {
+    let size = textureDimensions(source);
+    if (id.x >= size.x || id.y >= size.y) {
+        return vec4<f32>(0.0);
+    }
+    return textureLoad(source, id, 0);
+}
+
+@compute @workgroup_size(16, 16)
+fn reduce_range(
+    @builtin(global_invocation_id) id: vec3<u32>,
+    @builtin(local_invocation_index) local: u32
+) {
+    if (local < 3u) {
+        atomicStore(&localMin[local], 0xffffffffu);
+        atomicStore(&localMax[local], 0u);
+    }
+    workgroupBarrier();
+
+    let texel = load_valid(id.xy);
+    if (texel.a > 0.5) {
+        for (var c = 0u; c < 3u; c = c + 1u) {
+            atomicMin(&localMin[c], ordered(texel[c]));
+            atomicMax(&localMax[c], ordered(texel[c]));
+        }
+    }
+    workgroupBarrier();
+
+    if (local < 3u) {
+        atomicMin(&range[local], atomicLoad(&localMin[local]));
+        atomicMax(&range[3u + local], atomicLoad(&localMax[local]));
+    }
+}
+
+@compute @workgroup_size(16, 16)
+fn bin_values(
+    @builtin(global_invocation_id) id: vec3<u32>,
+    @builtin(local_invocation_index) local: u32,
+    @builtin(workgroup_id) group: vec3<u32>,
+    @builtin(num_workgroups) groups: vec3<u32>
+) {
+    for (var i = local; i < 3u * BINS; i = i + 256u) {
+        atomicStore(&localBins[i], 0u);
+    }
+    workgroupBarrier();
+
+    let texel = load_valid(id.xy);
+    var offset = vec3<f32>(0.0);
+    var valid = 0.0;
+    if (texel.a > 0.5) {
+        valid = 1.0;
+        for (var c = 0u; c < 3u; c = c + 1u) {
+            let lo = from_ordered(atomicLoad(&range[c]));
+            let width = from_ordered(atomicLoad(&range[3u + c])) - lo;
+            let d = texel[c] - lo;
+            let t = select(0.0, d / width, width > 0.0);
+            atomicAdd(&localBins[c * BINS + min(u32(max(t, 0.0) * f32(BINS)), BINS - 1u)], 1u);
+            offset[c] = d;
+        }
+    }
+    sums[local] = vec4<f32>(offset, valid);
+    squares[local] = vec4<f32>(offset * offset, 0.0);
+    workgroupBarrier();
+
+    // Tree reduction of the sums
+    for (var stride = 128u; stride > 0u; stride = stride >> 1u) {
+        if (local < stride) {
+            sums[local] = sums[local] + sums[local + stride];
+            squares[local] = squares[local] + squares[local + stride];
+        }
+        workgroupBarrier();
+    }
+
+    if (local == 0u) {
+        let index = (group.y * groups.x + group.x) * 2u;
+        partials[index] = sums[0];
+        partials[index + 1u] = squares[0];
+    }
+
+    for (var i = local; i < 3u * BINS; i = i + 256u) {
+        let count = atomicLoad(&localBins[i]);
+        if (count > 0u) {
+            atomicAdd(&bins[i], count);
+        }
+    }
+}
@@ -0,0 +1,73 @@
+struct Viewport {
+    center: vec2<f32>,
+    scale: vec2<f32>,
+    size: vec2<f32>,
+    rotation: vec2<f32>, // cos, sin of the clockwise view rotation
+};
+
+@group(0) @binding(0) var<uniform> viewport: Viewport;
+@group(1) @binding(0) var atlasTexture: texture_2d<f32>;
+@group(1) @binding(1) var atlasSampler: sampler;
+
+struct VertexOutput {
+    @builtin(position) Position : vec4<f32>,
+    @location(0) uv : vec2<f32>,
+    @location(1) color : vec4<f32>,
+    @location(2) halo : vec4<f32>,
+    @location(3) haloEdge : f32,
+};
+
+// One instance per glyph; rect is in screen pixels (x, y, width, height)
+@vertex
+fn vert_main(
+    @builtin(vertex_index) VertexIndex : u32,
+    @location(0) rect: vec4<f32>,
+    @location(1) uvRect: vec4<f32>,
+    @location(2) color: vec4<f32>,
+    @location(3) halo: vec4<f32>,
+    @location(4) haloEdge: f32
+) -> VertexOutput {
+    var corners = array<vec2<f32>, 6>(
+        vec2<f32>(0.0, 0.0),
+        vec2<f32>(1.0, 0.0),
+        vec2<f32>(0.0, 1.0),
+        vec2<f32>(0.0, 1.0),
+        vec2<f32>(1.0, 0.0),
+        vec2<f32>(1.0, 1.0)
+    );
+    let corner = corners[VertexIndex];
+    let px = rect.xy + corner * rect.zw;
+
+    // Screen pixels (Y down) to NDC
+    let ndc = px / viewport.size * vec2<f32>(2.0, -2.0) + vec2<f32>(-1.0, 1.0);
+
+    var output : VertexOutput;
+    output.Position = vec4<f32>(ndc, 0.0, 1.0);
+    output.uv = uvRect.xy + corner * uvRect.zw;
+    output.color = color;
+    output.halo = halo;
+    output.haloEdge = haloEdge;
+    return output;
+}
+
+@fragment
+fn frag_main(input: VertexOutput) -> @location(0) vec4<f32> {
+    // Glyph edge sits at 0.75 in the SDF (see GlyphAtlas)
+    let dist = textureSample(atlasTexture, atlasSampler, input.uv).r;
+    let aa = max(fwidth(dist), 0.001) * 0.7;
+
+    let fill = smoothstep(0.75 - aa, 0.75 + aa, dist);
+    let outline = smoothstep(input.haloEdge - aa, input.haloEdge + aa, dist);
+
+    // A halo edge at the glyph edge means no halo
+    let hasHalo = input.haloEdge < 0.749;
+    let haloColor = select(input.color, input.halo, hasHalo);
+    let haloAlpha = select(0.0, haloColor.a * outline, hasHalo);
+
+    let rgb = mix(haloColor.rgb, input.color.rgb, fill);
+    let alpha = mix(haloAlpha, input.color.a, fill);
+    if (alpha <= 0.0) {
+        discard;
+    }
+    return vec4<f32>(rgb, alpha);
+}
@@ -0,0 +1,4 @@
+// Default pixel read for the tile shader: the decoded RGB(A) texture as-is
+fn read_pixel(uv: vec2<f32>) -> vec4<f32> {
+    return textureSample(myTexture, mySampler, uv);
+}
@@ -1,11 +1,19 @@
 struct Viewport {
     center: vec2<f32>,
     scale: vec2<f32>,
+    size: vec2<f32>,
+    rotation: vec2<f32>, // cos, sin of the clockwise view rotation
 };
 
 struct Settings {
     min: vec4<f32>,
     max: vec4<f32>,
+    colormap: vec4<f32>, // x: 1 when a colormap is active
+    stretch: vec4<f32>,  // x: mode (0 linear, 1 gamma, 2 log, 3 sigmoid), y: log scale, z: sigmoid contrast, w: sigmoid midpoint
+    gamma: vec4<f32>,    // Per-channel gamma
+    adjust: vec4<f32>,   // x: brightness, y: contrast
+    lut: vec4<f32>,      // xy: equalization LUT regions per side (1 for the global CDF)
+    layer: vec4<f32>,    // x: opacity, yz: spy-glass center and w: radius in canvas pixels (0 = no mask)
 };
 
 struct TileUniforms {
@@ -15,16 +23,26 @@ struct TileUniforms {
 
 @group(0) @binding(0) var<uniform> viewport: Viewport;
 @group(0) @binding(1) var<uniform> settings: Settings;
+@group(0) @binding(2) var colormapTexture: texture_1d<f32>; // RGBA lookup table, see Colormap.ts
+@group(0) @binding(3) var<storage, read> luts: array<f32>;    // Equalization CDFs, see ClaheProcessor.ts
 
 @group(1) @binding(0) var myTexture: texture_2d<f32>;
 @group(1) @binding(1) var mySampler: sampler;
 @group(1) @binding(2) var<uniform> tile: TileUniforms;
 
+@group(2) @binding(0) var backdrop: texture_2d<f32>; // Layers below, for the 'difference' blend mode
+
 struct VertexOutput {
     @builtin(position) Position : vec4<f32>,
     @location(0) uv : vec2<f32>,
 };
 
+// World offset to screen axes: rotation clockwise on screen (Y down)
+fn rotate_view(d: vec2<f32>) -> vec2<f32> {
+    let r = viewport.rotation;
+    return vec2<f32>(r.x * d.x - r.y * d.y, r.y * d.x + r.x * d.y);
+}
+
 @vertex
 fn vert_main(@builtin(vertex_index) VertexIndex : u32) -> VertexOutput {
     var pos = array<vec2<f32>, 6>(
@@ -42,8 +60,8 @@ fn vert_main(@builtin(vertex_index) VertexIndex : u32) -> VertexOutput {
     var worldPos = tile.position + xy * tile.size;
     
     // Viewport Transform
-    // NDC = (World - Center) * Scale
-    var ndc = (worldPos - viewport.center) * viewport.scale;
+    // NDC = R (World - Center) * Scale
+    var ndc = rotate_view(worldPos - viewport.center) * viewport.scale;
     
     var output : VertexOutput;
     output.Position = vec4<f32>(ndc, 0.0, 1.0);
@@ -51,9 +69,52 @@ fn vert_main(@builtin(vertex_index) VertexIndex : u32) -> VertexOutput {
     return output;
 }
 
-@fragment
-fn frag_main(@location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
-    var color = textureSample(myTexture, mySampler, uv);
+// Equalized value of t, interpolated between the CDFs of the four nearest regions (screen = 0-1 across the view)
+fn equalize(t: vec3<f32>, screen: vec2<f32>) -> vec3<f32> {
+    let grid = vec2<i32>(settings.lut.xy);
+    let cell = clamp(screen * vec2<f32>(grid) - 0.5, vec2<f32>(0.0), vec2<f32>(grid - vec2<i32>(1, 1)));
+    let c0 = vec2<i32>(floor(cell));
+    let c1 = min(c0 + vec2<i32>(1, 1), grid - vec2<i32>(1, 1));
+    let f = cell - vec2<f32>(c0);
+    let bins = min(vec3<u32>(t * 256.0), vec3<u32>(255u));
+    var result = vec3<f32>(0.0);
+    for (var channel = 0; channel < 3; channel = channel + 1) {
+        let bin = bins[channel];
+        let v00 = luts[(u32(c0.y * grid.x + c0.x) * 3u + u32(channel)) * 256u + bin];
+        let v10 = luts[(u32(c0.y * grid.x + c1.x) * 3u + u32(channel)) * 256u + bin];
+        let v01 = luts[(u32(c1.y * grid.x + c0.x) * 3u + u32(channel)) * 256u + bin];
+        let v11 = luts[(u32(c1.y * grid.x + c1.x) * 3u + u32(channel)) * 256u + bin];
+        result[channel] = mix(mix(v00, v10, f.x), mix(v01, v11, f.x), f.y);
+    }
+    return result;
+}
+
+// Transfer function from the display range (t in 0-1) to intensity, mirrored by Stretch.ts
+fn apply_stretch(t: vec3<f32>, screen: vec2<f32>) -> vec3<f32> {
+    let mode = i32(settings.stretch.x + 0.5);
+    var s = t;
+    if (mode == 1) {
+        s = pow(t, 1.0 / settings.gamma.rgb);
+    } else if (mode == 2) {
+        let k = settings.stretch.y;
+        s = log(vec3<f32>(1.0) + k * t) / log(1.0 + k);
+    } else if (mode == 3) {
+        let beta = settings.stretch.z;
+        let alpha = settings.stretch.w;
+        let lo = 1.0 / (1.0 + exp(beta * alpha));
+        let hi = 1.0 / (1.0 + exp(beta * (alpha - 1.0)));
+        s = (vec3<f32>(1.0) / (vec3<f32>(1.0) + exp(beta * (vec3<f32>(alpha) - t))) - lo) / (hi - lo);
+    } else if (mode == 4) {
+        s = equalize(t, screen);
+    }
+    // Brightness and contrast act on the stretched intensity
+    return (s - 0.5) * settings.adjust.y + 0.5 + settings.adjust.x;
+}
+
+// Display color of the pixel at uv; alpha is 0 for nodata and 1 otherwise
+fn shade(position: vec4<f32>, uv: vec2<f32>) -> vec4<f32> {
+    // read_pixel is appended to this module: shaders/pixel.wgsl, or a band-math expression (BandExpression.ts)
+    var color = read_pixel(uv);
     
     // Check for transparency (NoData)
     if (color.a <= 0.0) {
@@ -69,16 +130,55 @@ fn frag_main(@location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
     let range = max(maxVal - minVal, vec4<f32>(0.00001));
     
     color = (color - minVal) / range;
+    let screen = position.xy / viewport.size;
+    color = vec4<f32>(apply_stretch(clamp(color.rgb, vec3<f32>(0.0), vec3<f32>(1.0)), screen), color.a);
+
+    // Colormap the first channel through the lookup table
+    if (settings.colormap.x > 0.5) {
+        let size = textureDimensions(colormapTexture);
+        let index = min(u32(clamp(color.r, 0.0, 1.0) * f32(size)), size - 1u);
+        color = textureLoad(colormapTexture, index, 0);
+    }
     
     // Force alpha to 1.0 for valid pixels
     color.a = 1.0;
     
-    return color;
+    return clamp(color, vec4<f32>(0.0), vec4<f32>(1.0));
+}
+
+// Outside the spy-glass circle of a compared layer
+fn masked(screen: vec2<f32>) -> bool {
+    return settings.layer.w > 0.0 && distance(screen, settings.layer.yz) > settings.layer.w;
+}
+
+// Premultiplied by the layer opacity; the pipeline blend state implements normal, multiply and screen
+@fragment
+fn frag_main(@builtin(position) position: vec4<f32>, @location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
+    if (masked(position.xy)) {
+        discard;
+    }
+    let color = shade(position, uv);
+    let alpha = color.a * settings.layer.x;
+    return vec4<f32>(color.rgb * alpha, alpha);
+}
+
+// |layer - backdrop|, drawn without blending over a copy of the layers below
+@fragment
+fn frag_difference(@builtin(position) position: vec4<f32>, @location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
+    if (masked(position.xy)) {
+        discard;
+    }
+    let below = textureLoad(backdrop, vec2<i32>(position.xy), 0);
+    let color = shade(position, uv);
+    if (color.a <= 0.0) {
+        return below;
+    }
+    return vec4<f32>(mix(below.rgb, abs(color.rgb - below.rgb), settings.layer.x), below.a);
 }
 
 @fragment
 fn frag_analysis(@location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
-    let c = textureSample(myTexture, mySampler, uv);
+    let c = read_pixel(uv);
     // Return RGB values for analysis
     return vec4<f32>(c.r, c.g, c.b, c.a);
 }
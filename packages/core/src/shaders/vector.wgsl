@@ -0,0 +1,165 @@
+struct Viewport {
+    center: vec2<f32>,
+    scale: vec2<f32>,
+    size: vec2<f32>,
+    rotation: vec2<f32>, // cos, sin of the clockwise view rotation
+};
+
+struct LayerUniforms {
+    opacity: f32,
+};
+
+@group(0) @binding(0) var<uniform> viewport: Viewport;
+@group(1) @binding(0) var<uniform> overlay: LayerUniforms;
+
+// World offset to screen axes: rotation clockwise on screen (Y down)
+fn rotate_view(d: vec2<f32>) -> vec2<f32> {
+    let r = viewport.rotation;
+    return vec2<f32>(r.x * d.x - r.y * d.y, r.y * d.x + r.x * d.y);
+}
+
+// NDC = R (World - Center) * Scale
+fn world_to_ndc(p: vec2<f32>) -> vec2<f32> {
+    return rotate_view(p - viewport.center) * viewport.scale;
+}
+
+// Screen-space pixel offsets to NDC (scale carries the Y flip)
+fn px_to_ndc(px: vec2<f32>) -> vec2<f32> {
+    return px * 2.0 / viewport.size * vec2<f32>(1.0, -1.0);
+}
+
+// ---------- Polygon fill ----------
+
+struct FillOutput {
+    @builtin(position) Position : vec4<f32>,
+    @location(0) color : vec4<f32>,
+};
+
+@vertex
+fn vert_fill(@location(0) position: vec2<f32>, @location(1) color: vec4<f32>) -> FillOutput {
+    var output : FillOutput;
+    output.Position = vec4<f32>(world_to_ndc(position), 0.0, 1.0);
+    output.color = color;
+    return output;
+}
+
+@fragment
+fn frag_fill(@location(0) color: vec4<f32>) -> @location(0) vec4<f32> {
+    return vec4<f32>(color.rgb, color.a * overlay.opacity);
+}
+
+// ---------- Lines (one instance per segment) ----------
+
+struct LineOutput {
+    @builtin(position) Position : vec4<f32>,
+    @location(0) color : vec4<f32>,
+};
+
+@vertex
+fn vert_line(
+    @builtin(vertex_index) VertexIndex : u32,
+    @location(0) p0: vec2<f32>,
+    @location(1) p1: vec2<f32>,
+    @location(2) color: vec4<f32>,
+    @location(3) width: f32
+) -> LineOutput {
+    // (t along segment, side of centerline)
+    var corners = array<vec2<f32>, 6>(
+        vec2<f32>(0.0, -1.0),
+        vec2<f32>(1.0, -1.0),
+        vec2<f32>(0.0, 1.0),
+        vec2<f32>(0.0, 1.0),
+        vec2<f32>(1.0, -1.0),
+        vec2<f32>(1.0, 1.0)
+    );
+    let corner = corners[VertexIndex];
+
+    // Work in screen pixels so width is independent of zoom
+    let a = world_to_ndc(p0);
+    let b = world_to_ndc(p1);
+    let pxA = a * viewport.size * 0.5 * vec2<f32>(1.0, -1.0);
+    let pxB = b * viewport.size * 0.5 * vec2<f32>(1.0, -1.0);
+
+    var dir = pxB - pxA;
+    let len = length(dir);
+    if (len > 0.0) {
+        dir = dir / len;
+    } else {
+        dir = vec2<f32>(1.0, 0.0);
+    }
+    let normal = vec2<f32>(-dir.y, dir.x);
+    let halfWidth = width * 0.5;
+
+    // Square caps: extend each end by half the width so segments overlap at joins
+    let along = dir * (corner.x * 2.0 - 1.0) * halfWidth;
+    let offset = normal * corner.y * halfWidth + along;
+    let base = mix(a, b, corner.x);
+
+    var output : LineOutput;
+    output.Position = vec4<f32>(base + px_to_ndc(offset), 0.0, 1.0);
+    output.color = color;
+    return output;
+}
+
+@fragment
+fn frag_line(@location(0) color: vec4<f32>) -> @location(0) vec4<f32> {
+    return vec4<f32>(color.rgb, color.a * overlay.opacity);
+}
+
+// ---------- Point markers (one instance per point) ----------
+
+struct PointOutput {
+    @builtin(position) Position : vec4<f32>,
+    @location(0) offsetPx : vec2<f32>,
+    @location(1) fill : vec4<f32>,
+    @location(2) stroke : vec4<f32>,
+    @location(3) radius : f32,
+    @location(4) strokeWidth : f32,
+};
+
+@vertex
+fn vert_point(
+    @builtin(vertex_index) VertexIndex : u32,
+    @location(0) center: vec2<f32>,
+    @location(1) fill: vec4<f32>,
+    @location(2) stroke: vec4<f32>,
+    @location(3) radius: f32,
+    @location(4) strokeWidth: f32
+) -> PointOutput {
+    var corners = array<vec2<f32>, 6>(
+        vec2<f32>(-1.0, -1.0),
+        vec2<f32>(1.0, -1.0),
+        vec2<f32>(-1.0, 1.0),
+        vec2<f32>(-1.0, 1.0),
+        vec2<f32>(1.0, -1.0),
+        vec2<f32>(1.0, 1.0)
+    );
+    // One extra pixel for antialiasing
+    let extent = radius + strokeWidth + 1.0;
+    let offsetPx = corners[VertexIndex] * extent;
+
+    var output : PointOutput;
+    output.Position = vec4<f32>(world_to_ndc(center) + px_to_ndc(offsetPx), 0.0, 1.0);
+    output.offsetPx = offsetPx;
+    output.fill = fill;
+    output.stroke = stroke;
+    output.radius = radius;
+    output.strokeWidth = strokeWidth;
+    return output;
+}
+
+@fragment
+fn frag_point(input: PointOutput) -> @location(0) vec4<f32> {
+    let d = length(input.offsetPx);
+    let outer = input.radius + input.strokeWidth;
+    if (d > outer + 1.0) {
+        discard;
+    }
+
+    var color = input.fill;
+    if (input.strokeWidth > 0.0) {
+        color = mix(input.fill, input.stroke, smoothstep(input.radius - 0.5, input.radius + 0.5, d));
+    }
+    let edge = 1.0 - smoothstep(outer - 0.5, outer + 0.5, d);
+    return vec4<f32>(color.rgb, color.a * edge * overlay.opacity);
+}
@@ -1,17 +1,304 @@
-import { fromUrl, fromBlob } from 'geotiff';
+import { fromUrl, fromBlob, globals } from 'geotiff';
+import { parseRPCTag, parseRPCText, RPCCoefficients } from '../RPCModel';
+import { CompiledExpression, compileExpressionFunction } from '../BandExpression';
+
+// geotiff.js drops tags it does not know by name
+(globals.fieldTagNames as Record<number, string>)[50844] = 'RPCCoefficientTag';
+
+// Open files by source id; several layers share this worker. Decodes await the pending open
+const tiffs: Map<string, Promise<any>> = new Map();
+
+function openTiff(sourceId: string): Promise<any> {
+    const tiff = tiffs.get(sourceId);
+    if (!tiff) throw new Error(`Source ${sourceId} is not open.`);
+    return tiff;
+}
+
+/**
+ * Parses a GDAL nodata string (e.g. "0", "-9999", "nan", "-inf").
+ * Returns null when the string does not hold a usable value.
+ */
+function parseNoData(value: any): number | null {
+    if (value === undefined || value === null) return null;
+    const str = String(value).replace(/\0/g, '').trim().toLowerCase();
+    if (!str) return null;
+    if (str === 'nan') return NaN;
+    if (str === 'inf' || str === '+inf') return Number.POSITIVE_INFINITY;
+    if (str === '-inf') return Number.NEGATIVE_INFINITY;
+    const num = Number(str);
+    return isNaN(num) ? null : num;
+}
+
+/**
+ * Checks a sample against a nodata value.
+ * Float rasters store nodata at 32-bit precision, so compare against the rounded value too.
+ */
+function matchesNoData(val: number, noData: number | null | undefined): boolean {
+    if (noData === null || noData === undefined) return false;
+    if (isNaN(noData)) return isNaN(val);
+    return val === noData || val === Math.fround(noData);
+}
+
+/**
+ * Builds a GDAL style geotransform from ModelTransformation or a single ModelTiepoint + ModelPixelScale,
+ * and reads the CRS and raster type from the GeoKeys.
+ */
+function parseGeoInfo(image: any) {
+    const fd = image.fileDirectory || {};
+    const geoKeys = (typeof image.getGeoKeys === 'function' ? image.getGeoKeys() : null) || {};
+
+    const rasterType: 'area' | 'point' = geoKeys.GTRasterTypeGeoKey === 2 ? 'point' : 'area';
+
+    let epsg: number | null = null;
+    const code = geoKeys.ProjectedCSTypeGeoKey ?? geoKeys.GeographicTypeGeoKey;
+    if (typeof code === 'number' && code > 0 && code !== 32767) epsg = code;
+
+    let geoTransform: number[] | null = null;
+    const m = fd.ModelTransformation;
+    const tiepoint = fd.ModelTiepoint;
+    const scale = fd.ModelPixelScale;
+
+    if (m && m.length >= 16) {
+        geoTransform = [m[3], m[0], m[1], m[7], m[4], m[5]];
+    } else if (tiepoint && tiepoint.length === 6 && scale && scale.length >= 2) {
+        const [i, j, , x, y] = tiepoint;
+        geoTransform = [x - i * scale[0], scale[0], 0, y + j * scale[1], 0, -scale[1]];
+    }
+
+    // PixelIsPoint references pixel centers; shift to the corner convention used in world space
+    if (geoTransform && rasterType === 'point') {
+        geoTransform[0] -= 0.5 * geoTransform[1] + 0.5 * geoTransform[2];
+        geoTransform[3] -= 0.5 * geoTransform[4] + 0.5 * geoTransform[5];
+    }
+
+    // Several tie points without an affine transform are ground control points
+    const gcps: any[] = [];
+    if (!geoTransform && tiepoint && tiepoint.length > 6) {
+        for (let k = 0; k + 5 < tiepoint.length; k += 6) {
+            gcps.push({ pixelX: tiepoint[k], pixelY: tiepoint[k + 1], x: tiepoint[k + 3], y: tiepoint[k + 4], z: tiepoint[k + 5] });
+        }
+    }
+
+    return { geoTransform, epsg, rasterType, geoKeys: { ...geoKeys }, gcps, gcpEpsg: gcps.length ? epsg : null };
+}
+
+/**
+ * Reads four-corner lat/lon from GDAL metadata (e.g. CORNER_UL_LAT, UL_LON, UPPER_LEFT_LATITUDE).
+ * Corners are the outer corners of the image.
+ */
+function parseCornerGCPs(metadata: any, width: number, height: number) {
+    if (!metadata) return [];
+    const corners: { [key: string]: { pixelX: number, pixelY: number, x?: number, y?: number } } = {
+        UL: { pixelX: 0, pixelY: 0 },
+        UR: { pixelX: width, pixelY: 0 },
+        LR: { pixelX: width, pixelY: height },
+        LL: { pixelX: 0, pixelY: height }
+    };
+    const aliases: { [key: string]: string } = {
+        UPPER_LEFT: 'UL', UPPER_RIGHT: 'UR', LOWER_RIGHT: 'LR', LOWER_LEFT: 'LL'
+    };
+    const regex = /(?:^|_)(UL|UR|LR|LL|UPPER_LEFT|UPPER_RIGHT|LOWER_RIGHT|LOWER_LEFT)_(LAT|LATITUDE|LON|LONG|LONGITUDE)(?:_|$)/;
+
+    for (const key of Object.keys(metadata)) {
+        const match = regex.exec(key.toUpperCase());
+        if (!match) continue;
+        const value = Number(metadata[key]);
+        if (isNaN(value)) continue;
+        const corner = corners[aliases[match[1]] || match[1]];
+        if (match[2].startsWith('LAT')) corner.y = value;
+        else corner.x = value;
+    }
+
+    const gcps = Object.values(corners).filter(c => c.x !== undefined && c.y !== undefined);
+    return gcps.length === 4 ? gcps : [];
+}
+
+/**
+ * Reads RPCs from TIFF tag 50844.
+ */
+function readRPCTag(image: any): RPCCoefficients | null {
+    const tag = image.fileDirectory?.RPCCoefficientTag;
+    return tag ? parseRPCTag(tag) : null;
+}
+
+/**
+ * Reads RPCs from an explicit sidecar, or with 'auto' from `<name>_RPC.TXT` / `<name>.RPB`
+ * next to a URL source. Guessed names that do not exist are skipped.
+ */
+async function readRPCSidecar(source: File | string, sidecar: File | string): Promise<RPCCoefficients | null> {
+    if (sidecar !== 'auto') {
+        const text = sidecar instanceof Blob ? await sidecar.text() : await fetchText(sidecar);
+        const rpc = parseRPCText(text);
+        if (!rpc) {
+            throw new Error("The RPC sidecar holds no RPC00B coefficients.");
+        }
+        return rpc;
+    }
+    if (typeof source !== 'string') return null;
+
+    // Signed URLs do not carry over to other files, so the guesses go without the query
+    const base = source.split(/[?#]/)[0].replace(/\.tiff?$/i, '');
+    for (const candidate of [`${base}_RPC.TXT`, `${base}.RPB`]) {
+        const response = await fetch(candidate).catch(() => null); // Unreachable counts as missing
+        if (!response || !response.ok) continue;
+        const rpc = parseRPCText(await response.text());
+        if (rpc) return rpc;
+    }
+    return null;
+}
+
+async function fetchText(url: string): Promise<string> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Could not fetch ${url}: HTTP ${response.status}.`);
+    }
+    return response.text();
+}
+
+const STATISTICS_MAX_SIZE = 1024; // Longest side sampled for statistics
+const PERCENTILE_STEPS = 100;
+
+/**
+ * Per-band statistics of a whole image level, sampled to at most STATISTICS_MAX_SIZE per side.
+ * GDAL STATISTICS_* metadata of the full resolution image replaces min, max, mean and stddev when present.
+ */
+async function computeStatistics(tiff: any, data: any) {
+    const { index, maskIndex } = data;
+    const noData: (number | null)[] = data.noData || [];
+    const threshold: number | null = data.noDataThreshold ?? null;
+
+    const img = await tiff.getImage(index || 0);
+    const scale = Math.min(1, STATISTICS_MAX_SIZE / Math.max(img.getWidth(), img.getHeight()));
+    const width = Math.max(1, Math.round(img.getWidth() * scale));
+    const height = Math.max(1, Math.round(img.getHeight() * scale));
+    const area = width * height;
+
+    const rasters = await img.readRasters({ interleave: true, width, height, resampleMethod: 'nearest' });
+    let mask: any = null;
+    if (maskIndex !== undefined && maskIndex !== null) {
+        try {
+            const maskImg = await tiff.getImage(maskIndex);
+            mask = (await maskImg.readRasters({ samples: [0], width, height, resampleMethod: 'nearest' }))[0];
+        } catch (maskError) {
+            mask = null;
+        }
+    }
+
+    const samplesPerPixel = img.getSamplesPerPixel();
+    const isYCbCr = img.fileDirectory.PhotometricInterpretation === 6 && samplesPerPixel >= 3;
+    const values = new Float32Array(area);
+
+    const firstImage = await tiff.getImage(0);
+    const statistics = [];
+    for (let band = 0; band < samplesPerPixel; band++) {
+        let count = 0;
+        let sum = 0;
+        for (let i = 0; i < area; i++) {
+            if (mask && !mask[i]) continue;
+            let val = rasters[i * samplesPerPixel + band];
+            if (isYCbCr && band < 3) {
+                const Y = rasters[i * samplesPerPixel];
+                const Cb = rasters[i * samplesPerPixel + 1];
+                const Cr = rasters[i * samplesPerPixel + 2];
+                if (Y === 0 && Cb === 0 && Cr === 0) continue; // Padding
+                const rgb = [
+                    Y + 1.402 * (Cr - 128),
+                    Y - 0.344136 * (Cb - 128) - 0.714136 * (Cr - 128),
+                    Y + 1.772 * (Cb - 128)
+                ];
+                val = Math.max(0, Math.min(255, rgb[band]));
+            }
+            if (!isFinite(val) || matchesNoData(val, noData[band]) || (threshold !== null && val < threshold)) continue;
+            values[count++] = val;
+            sum += val;
+        }
 
-let tiff: any;
+        const sorted = values.subarray(0, count).sort();
+        const mean = count ? sum / count : 0;
+        let squares = 0;
+        for (let i = 0; i < count; i++) squares += (sorted[i] - mean) * (sorted[i] - mean);
+
+        const percentiles: number[] = [];
+        for (let p = 0; p <= PERCENTILE_STEPS; p++) {
+            const position = p / PERCENTILE_STEPS * (count - 1);
+            const lo = Math.floor(position);
+            const hi = Math.min(count - 1, lo + 1);
+            percentiles.push(count ? sorted[lo] + (sorted[hi] - sorted[lo]) * (position - lo) : 0);
+        }
+
+        const result = {
+            band,
+            min: count ? sorted[0] : 0,
+            max: count ? sorted[count - 1] : 0,
+            mean,
+            stdDev: count ? Math.sqrt(squares / count) : 0,
+            percentiles,
+            validCount: count,
+            source: 'overview'
+        };
+
+        let bandMeta: any = null;
+        try {
+            if (typeof firstImage.getGDALMetadata === 'function') {
+                bandMeta = firstImage.getGDALMetadata(band);
+            }
+        } catch (e) { }
+        const fromMetadata = ['MINIMUM', 'MAXIMUM', 'MEAN', 'STDDEV'].map(key => Number(bandMeta?.[`STATISTICS_${key}`]));
+        if (!isYCbCr && bandMeta && fromMetadata.every(isFinite)) {
+            [result.min, result.max, result.mean, result.stdDev] = fromMetadata;
+            result.source = 'metadata';
+        }
+        statistics.push(result);
+    }
+    return statistics;
+}
+
+/**
+ * Raw values of every band at one full resolution pixel. YCbCr JPEG data is converted to RGB as for tiles.
+ * The pixel is invalid when masked, or when every band holds its nodata value or lies below the threshold.
+ */
+async function samplePixel(tiff: any, data: any) {
+    const { x, y, index, maskIndex } = data;
+    const noData: (number | null)[] = data.noData || [];
+    const threshold: number | null = data.noDataThreshold ?? null;
+
+    const img = await tiff.getImage(index || 0);
+    const window = [x, y, x + 1, y + 1];
+    const raster = await img.readRasters({ window, interleave: true });
+    const values: number[] = Array.from(raster as ArrayLike<number>, Number);
+
+    let valid = !values.every((val, band) => isNaN(val) || matchesNoData(val, noData[band])) &&
+        !(threshold !== null && values.every(val => val < threshold));
+    if (maskIndex !== undefined && maskIndex !== null) {
+        try {
+            const maskImg = await tiff.getImage(maskIndex);
+            const mask = (await maskImg.readRasters({ window, samples: [0] }))[0];
+            if (!mask[0]) valid = false;
+        } catch (maskError) { }
+    }
+
+    if (img.fileDirectory.PhotometricInterpretation === 6 && values.length >= 3) {
+        const [Y, Cb, Cr] = values;
+        const rgb = [
+            Y + 1.402 * (Cr - 128),
+            Y - 0.344136 * (Cb - 128) - 0.714136 * (Cr - 128),
+            Y + 1.772 * (Cb - 128)
+        ];
+        for (let band = 0; band < 3; band++) values[band] = Math.max(0, Math.min(255, rgb[band]));
+    }
+    return { values, valid };
+}
 
 self.onmessage = async (e: MessageEvent) => {
-    const { type, id, source } = e.data;
+    const { type, id, source, sourceId } = e.data;
 
     try {
         if (type === 'init') {
-            if (source instanceof Blob) {
-                tiff = await fromBlob(source);
-            } else {
-                tiff = await fromUrl(source);
+            // The broadcast opens the file; the metadata request reuses it
+            if (!id || !tiffs.has(sourceId)) {
+                tiffs.set(sourceId, source instanceof Blob ? fromBlob(source) : fromUrl(source));
             }
+            const tiff = await openTiff(sourceId);
             const imageCount = await tiff.getImageCount();
             const levels: any[] = [];
 
@@ -163,6 +450,33 @@ self.onmessage = async (e: MessageEvent) => {
                 }
             }
 
+            // NoData: Tag 42113 (GDAL_NODATA) applies to all bands,
+            // per-band values from GDAL metadata (NODATA_VALUES or sample items) take precedence
+            const datasetNoData = parseNoData(firstImage.fileDirectory?.GDAL_NODATA);
+            const noData: (number | null)[] = new Array(samplesPerPixel).fill(datasetNoData);
+
+            if (gdalMetadata && gdalMetadata['NODATA_VALUES']) {
+                const values = String(gdalMetadata['NODATA_VALUES']).trim().split(/[\s,]+/);
+                values.forEach((v, i) => {
+                    const parsed = parseNoData(v);
+                    if (i < samplesPerPixel && parsed !== null) noData[i] = parsed;
+                });
+            }
+
+            for (let bandIdx = 0; bandIdx < samplesPerPixel; bandIdx++) {
+                let bandMeta: any = null;
+                try {
+                    if (typeof firstImage.getGDALMetadata === 'function') {
+                        bandMeta = firstImage.getGDALMetadata(bandIdx);
+                    }
+                } catch (e) { }
+                if (!bandMeta) continue;
+
+                const raw = bandMeta['NODATA'] ?? bandMeta['NoData'] ?? bandMeta['_FillValue'];
+                const parsed = parseNoData(raw);
+                if (parsed !== null) noData[bandIdx] = parsed;
+            }
+
             // Auto-detect RGB bands
             let suggestedBands: number[] = [];
             if (samplesPerPixel === 1) {
@@ -176,21 +490,52 @@ self.onmessage = async (e: MessageEvent) => {
                 else suggestedBands = [0, 1, 2];
             }
 
+            // Split IFDs into resolution levels and internal transparency masks (NewSubfileType bit 4)
+            const masks: { ifdIndex: number, width: number, height: number }[] = [];
             for (let i = 0; i < imageCount; i++) {
                 const img = await tiff.getImage(i);
+                const subfileType = img.fileDirectory.NewSubfileType || 0;
+                if (subfileType & 4) {
+                    masks.push({ ifdIndex: i, width: img.getWidth(), height: img.getHeight() });
+                    continue;
+                }
                 levels.push({
                     width: img.getWidth(),
                     height: img.getHeight(),
                     tileWidth: img.getTileWidth(),
                     tileHeight: img.getTileHeight(),
                     samplesPerPixel: img.getSamplesPerPixel(),
-                    index: i
+                    index: levels.length,
+                    ifdIndex: i,
+                    maskIndex: null
                 });
             }
 
-            self.postMessage({ type: 'init-complete', id, levels, bandMetadata, suggestedBands });
+            // Pair each mask with the image level of the same dimensions
+            for (const mask of masks) {
+                const level = levels.find(l => l.maskIndex === null && l.width === mask.width && l.height === mask.height);
+                if (level) level.maskIndex = mask.ifdIndex;
+            }
+
+            const geoInfo = parseGeoInfo(firstImage);
+            if (!geoInfo.geoTransform && !geoInfo.gcps.length) {
+                const cornerGCPs = parseCornerGCPs(gdalMetadata, firstImage.getWidth(), firstImage.getHeight());
+                if (cornerGCPs.length) {
+                    geoInfo.gcps = cornerGCPs;
+                    geoInfo.gcpEpsg = 4326;
+                }
+            }
+
+            // Sidecars are read by a separate 'rpc' request, after the image shows
+            const rpc = readRPCTag(firstImage);
+
+            self.postMessage({ type: 'init-complete', id, levels, bandMetadata, suggestedBands, noData, geoInfo, rpc });
         } else if (type === 'decode') {
-            const { tileX, tileY, index, bandIndices } = e.data;
+            const tiff = await openTiff(sourceId);
+            const { tileX, tileY, index, bandIndices, maskIndex } = e.data;
+            const noData: (number | null)[] = e.data.noData || [];
+            const threshold: number | null = e.data.noDataThreshold ?? null;
+            const expression: CompiledExpression | null = e.data.expression || null;
             const img = await tiff.getImage(index || 0);
             const tileSize = e.data.tileSize;
 
@@ -213,28 +558,102 @@ self.onmessage = async (e: MessageEvent) => {
                 return;
             }
 
+            // Internal mask IFD: non-zero bits mark valid pixels
+            let mask: any = null;
+            if (maskIndex !== undefined && maskIndex !== null) {
+                try {
+                    const maskImg = await tiff.getImage(maskIndex);
+                    const maskRasters = await maskImg.readRasters({
+                        window: [tileX, tileY, tileX + tileSize, tileY + tileSize],
+                        samples: [0],
+                        width: tileSize,
+                        height: tileSize,
+                        fillValue: 0
+                    });
+                    mask = maskRasters[0];
+                } catch (maskError) {
+                    mask = null;
+                }
+            }
+
             const samplesPerPixel = img.getSamplesPerPixel();
             const tileArea = tileSize * tileSize;
-            const floatData = new Float32Array(tileArea * 4);
+
+            // Pixels outside the image are padding (fillValue), never data
+            const validW = Math.min(tileSize, img.getWidth() - tileX);
+            const validH = Math.min(tileSize, img.getHeight() - tileY);
 
             let min = Number.POSITIVE_INFINITY;
             let max = Number.NEGATIVE_INFINITY;
 
             const bands = bandIndices || (samplesPerPixel >= 3 ? [0, 1, 2] : [0]);
 
+            if (expression) {
+                // Band math: raw values of every referenced band, laid out as blocks of four slots
+                // side by side (slot 0 = validity), see BandExpression.toWGSL
+                const exprBands = expression.bands;
+                const blocks = Math.ceil((exprBands.length + 1) / 4);
+                const rowWidth = tileSize * blocks;
+                const stacked = new Float32Array(tileArea * 4 * blocks);
+                const outputs = expression.nodes.map(compileExpressionFunction);
+                const values = new Float64Array(samplesPerPixel);
+
+                for (let i = 0; i < tileArea; i++) {
+                    const px = i % tileSize;
+                    const py = (i - px) / tileSize;
+                    let valid = px < validW && py < validH && !(mask && !mask[i]);
+
+                    for (let b = 0; b < exprBands.length; b++) {
+                        const band = exprBands[b];
+                        const val = data[i * samplesPerPixel + band];
+                        values[band] = val;
+                        if (isNaN(val) || matchesNoData(val, noData[band])) valid = false;
+
+                        const slot = b + 1;
+                        stacked[(py * rowWidth + (slot >> 2) * tileSize + px) * 4 + (slot & 3)] = val;
+                    }
+                    if (threshold !== null && exprBands.every(band => values[band] < threshold)) valid = false;
+                    stacked[(py * rowWidth + px) * 4] = valid ? 1.0 : 0.0;
+
+                    if (valid) {
+                        for (const output of outputs) {
+                            const v = output(values);
+                            if (!isFinite(v)) continue;
+                            if (v < min) min = v;
+                            if (v > max) max = v;
+                        }
+                    }
+                }
+
+                (self as any).postMessage({ type: 'tile-decoded', id, data: stacked, width: rowWidth, height: tileSize, min, max }, [stacked.buffer]);
+                return;
+            }
+
+            const floatData = new Float32Array(tileArea * 4);
+
             if (bands.length === 1) {
                 const bandIdx = bands[0];
-                const THRESHOLD = 5;
+                const bandNoData = noData[bandIdx];
                 for (let i = 0; i < tileArea; i++) {
                     const val = data[i * samplesPerPixel + bandIdx];
                     floatData[i * 4] = val;
                     floatData[i * 4 + 1] = val;
                     floatData[i * 4 + 2] = val;
-                    // Treat near 0 as NoData/Transparent
-                    floatData[i * 4 + 3] = (val < THRESHOLD) ? 0.0 : 1.0;
 
-                    if (val < min && val >= THRESHOLD) min = val;
-                    if (val > max && val >= THRESHOLD) max = val;
+                    const px = i % tileSize;
+                    const py = (i - px) / tileSize;
+                    const valid = px < validW && py < validH &&
+                        !(mask && !mask[i]) &&
+                        !isNaN(val) &&
+                        !matchesNoData(val, bandNoData) &&
+                        !(threshold !== null && val < threshold);
+
+                    floatData[i * 4 + 3] = valid ? 1.0 : 0.0;
+
+                    if (valid) {
+                        if (val < min) min = val;
+                        if (val > max) max = val;
+                    }
                 }
             } else if (bands.length >= 3) {
                 const rBand = bands[0];
@@ -242,14 +661,26 @@ self.onmessage = async (e: MessageEvent) => {
                 const bBand = bands[2];
                 let alpha = 1.0;
 
-                const THRESHOLD = 5; // Tolerance for JPEG artifacts
-
                 for (let i = 0; i < tileArea; i++) {
                     let r = data[i * samplesPerPixel + rBand];
                     let g = data[i * samplesPerPixel + gBand];
                     let b = data[i * samplesPerPixel + bBand];
                     alpha = 1.0;
 
+                    const px = i % tileSize;
+                    const py = (i - px) / tileSize;
+                    if (px >= validW || py >= validH || (mask && !mask[i])) {
+                        alpha = 0.0;
+                    }
+
+                    // A pixel is nodata when every selected band holds its nodata value
+                    if (matchesNoData(r, noData[rBand]) && matchesNoData(g, noData[gBand]) && matchesNoData(b, noData[bBand])) {
+                        alpha = 0.0;
+                    }
+                    if (isNaN(r) || isNaN(g) || isNaN(b)) {
+                        alpha = 0.0;
+                    }
+
                     if (isYCbCr) {
                         const Y = data[i * samplesPerPixel + 0];
                         const Cb = data[i * samplesPerPixel + 1];
@@ -268,9 +699,8 @@ self.onmessage = async (e: MessageEvent) => {
                         }
                     }
 
-                    // Threshold check for noisy black (JPEG artifacts)
-                    // Also handles standard RGB precise 0
-                    if (r < THRESHOLD && g < THRESHOLD && b < THRESHOLD) {
+                    // Opt-in threshold for noisy black edges (lossy JPEG artifacts)
+                    if (threshold !== null && r < threshold && g < threshold && b < threshold) {
                         alpha = 0.0;
                     }
 
@@ -291,6 +721,19 @@ self.onmessage = async (e: MessageEvent) => {
             }
 
             (self as any).postMessage({ type: 'tile-decoded', id, data: floatData, min, max }, [floatData.buffer]);
+        } else if (type === 'statistics') {
+            const statistics = await computeStatistics(await openTiff(sourceId), e.data);
+            self.postMessage({ type: 'statistics', id, statistics });
+        } else if (type === 'rpc') {
+            const rpc = await readRPCSidecar(source, e.data.sidecar);
+            self.postMessage({ type: 'rpc', id, rpc });
+        } else if (type === 'sample') {
+            const { values, valid } = await samplePixel(await openTiff(sourceId), e.data);
+            self.postMessage({ type: 'sample', id, values, valid });
+        } else if (type === 'close') {
+            const tiff = tiffs.get(sourceId);
+            tiffs.delete(sourceId);
+            (await tiff)?.close?.();
         }
     } catch (err) {
         console.error("Worker error:", err);
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { AnnotationManager } from '../src/AnnotationManager';
+import { AffineTransform } from '../src/GeoTransform';
+import { Viewport } from '../src/Viewport';
+
+// Importing and exporting never draws, so the manager only needs the zoom
+const viewport = { zoom: 1 } as Viewport;
+
+function createManager() {
+    const manager = new AnnotationManager(viewport);
+    manager.add('point', [{ x: 10, y: 20 }], { name: 'well' });
+    manager.add('polyline', [{ x: 0, y: 0 }, { x: 50, y: 10 }, { x: 80, y: 60 }]);
+    manager.add('rectangle', [{ x: 5, y: 5 }, { x: 25, y: 5 }, { x: 25, y: 15 }, { x: 5, y: 15 }]);
+    manager.add('polygon', [{ x: 100, y: 100 }, { x: 140, y: 100 }, { x: 120, y: 130 }]);
+    manager.add('circle', [{ x: 200, y: 200 }, { x: 230, y: 200 }]);
+    return manager;
+}
+
+function shapes(manager: AnnotationManager) {
+    return manager.getAnnotations().map(({ id, type, pixel, properties }) => ({ id, type, pixel, properties }));
+}
+
+describe('AnnotationManager', () => {
+    it('round-trips every shape type through GeoJSON, keeping ids', () => {
+        const manager = createManager();
+        const before = shapes(manager);
+
+        const imported = manager.fromGeoJSON(manager.toGeoJSON());
+        expect(imported.map(a => a.id)).toEqual(before.map(a => a.id));
+        const after = shapes(manager);
+        expect(after).toHaveLength(before.length);
+        after.forEach((annotation, i) => {
+            expect(annotation.id).toBe(before[i].id);
+            expect(annotation.type).toBe(before[i].type);
+            expect(annotation.properties).toEqual(before[i].properties);
+            annotation.pixel.forEach((p, j) => {
+                expect(p.x).toBeCloseTo(before[i].pixel[j].x, 6);
+                expect(p.y).toBeCloseTo(before[i].pixel[j].y, 6);
+            });
+        });
+    });
+
+    it('round-trips through CRS coordinates', () => {
+        const manager = createManager();
+        manager.getTransform = () => new AffineTransform([500000, 0.5, 0, 4200000, 0, -0.5]);
+        const before = shapes(manager);
+
+        const geojson = manager.toGeoJSON('crs');
+        const point = geojson.features[0].geometry;
+        expect(point.type === 'Point' && point.coordinates).toEqual([500005, 4199990]);
+
+        manager.fromGeoJSON(geojson, 'crs');
+        shapes(manager).forEach((annotation, i) => {
+            expect(annotation.id).toBe(before[i].id);
+            annotation.pixel.forEach((p, j) => {
+                expect(p.x).toBeCloseTo(before[i].pixel[j].x, 6);
+                expect(p.y).toBeCloseTo(before[i].pixel[j].y, 6);
+            });
+        });
+    });
+
+    it('gives appended features new ids when theirs are taken', () => {
+        const manager = createManager();
+        const geojson = manager.toGeoJSON();
+        const ids = manager.getAnnotations().map(a => a.id);
+
+        const imported = manager.fromGeoJSON(geojson, 'pixel', false);
+        expect(manager.getAnnotations()).toHaveLength(2 * ids.length);
+        for (const annotation of imported) expect(ids).not.toContain(annotation.id);
+        expect(new Set(manager.getAnnotations().map(a => a.id)).size).toBe(2 * ids.length);
+    });
+
+    it('keeps ids unique within one import', () => {
+        const manager = new AnnotationManager(viewport);
+        const imported = manager.fromGeoJSON({
+            type: 'Feature',
+            id: 'site',
+            geometry: { type: 'MultiPoint', coordinates: [[1, 2], [3, 4]] },
+            properties: null
+        });
+        expect(imported[0].id).toBe('site');
+        expect(imported[1].id).not.toBe('site');
+    });
+
+    it('undoes a replacing import', () => {
+        const manager = createManager();
+        const before = shapes(manager);
+        manager.fromGeoJSON({ type: 'Point', coordinates: [1, 1] });
+        expect(manager.getAnnotations()).toHaveLength(1);
+        manager.undo();
+        expect(shapes(manager)).toEqual(before);
+    });
+});
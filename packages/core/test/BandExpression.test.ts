@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { BandExpression, ExpressionError, compileExpressionFunction } from '../src/BandExpression';
+
+/**
+ * Evaluates each output channel of an expression for one pixel (0-based band values).
+ */
+function evaluate(expression: BandExpression, bands: number[]): number[] {
+    return expression.nodes.map(node => compileExpressionFunction(node)(bands));
+}
+
+function parseError(expression: string | string[], bandCount = 0): ExpressionError {
+    try {
+        new BandExpression(expression, bandCount);
+    } catch (e) {
+        expect(e).toBeInstanceOf(ExpressionError);
+        return e as ExpressionError;
+    }
+    throw new Error(`Expected '${expression}' to be rejected.`);
+}
+
+describe('BandExpression', () => {
+    it('computes NDVI from the bands it reads', () => {
+        const ndvi = new BandExpression('(b8 - b4) / (b8 + b4)', 12);
+        expect(ndvi.bands).toEqual([3, 7]);
+        expect(ndvi.nodes).toHaveLength(1);
+        expect(ndvi.toJSON()).toEqual({ bands: [3, 7], nodes: ndvi.nodes });
+
+        const bands = new Array(12).fill(0);
+        bands[3] = 0.1;
+        bands[7] = 0.5;
+        expect(evaluate(ndvi, bands)[0]).toBeCloseTo(0.4 / 0.6, 10);
+    });
+
+    it('follows operator precedence', () => {
+        const cases: [string, number][] = [
+            ['1 + 2 * 3', 7],
+            ['(1 + 2) * 3', 9],
+            ['-2 ^ 2', -4],
+            ['2 ^ 3 ^ 2', 512],
+            ['2 ^ -1', 0.5],
+            ['10 - 4 - 3', 3],
+            ['clamp(b1 * 2, 0, 5) + log10(100)', 7],
+            ['max(b1, b2) - min(b1, b2)', 1.5],
+            ['1.5e2 + .5', 150.5]
+        ];
+        for (const [source, expected] of cases) {
+            expect(evaluate(new BandExpression(source, 2), [4, 2.5])[0]).toBeCloseTo(expected, 10);
+        }
+    });
+
+    it('accepts three expressions as R, G, B', () => {
+        const rgb = new BandExpression(['b4 * 2', 'b3', 'B2 + b4'], 4);
+        expect(rgb.bands).toEqual([1, 2, 3]);
+        expect(evaluate(rgb, [0, 10, 20, 30])).toEqual([60, 20, 40]);
+        expect(() => new BandExpression(['b1', 'b2'])).toThrow(ExpressionError);
+    });
+
+    it('names the channel of a failing RGB expression', () => {
+        const error = parseError(['b1', 'b2 +', 'b3'], 3);
+        expect(error.message).toMatch(/^Green expression: /);
+        expect(error.position).toBe(4);
+    });
+
+    it('rejects unknown bands with their position', () => {
+        const error = parseError('b1 + b5', 4);
+        expect(error.position).toBe(5);
+        expect(error.message).toContain('b1-b4');
+        expect(parseError('b0').position).toBe(0);
+        // Without a band count, any band from b1 up is accepted
+        expect(new BandExpression('b99').bands).toEqual([98]);
+    });
+
+    it('reports the position of syntax errors', () => {
+        const cases: [string, number][] = [
+            ['', 0],
+            ['b1 +', 4],
+            ['(b1 + b2', 8],
+            ['b1 b2', 3],
+            ['b1 # 2', 3],
+            ['ndvi(b1)', 0],
+            ['sqrt(b1, b2)', 0],
+            ['clamp(b1)', 0],
+            ['b1 + )', 5]
+        ];
+        for (const [source, position] of cases) {
+            const error = parseError(source, 4);
+            expect(error.position).toBe(position);
+            if (source) expect(error.message).toContain(`position ${position + 1}`);
+        }
+    });
+
+    it('compiles to a JS function that divides by zero as 0', () => {
+        const ratio = compileExpressionFunction(new BandExpression('b1 / b2').nodes[0]);
+        expect(ratio([6, 3])).toBe(2);
+        expect(ratio([6, 0])).toBe(0);
+        expect(ratio([0, 0])).toBe(0);
+
+        const ndvi = compileExpressionFunction(new BandExpression('(b2 - b1) / (b2 + b1)').nodes[0]);
+        expect(ndvi([0, 0])).toBe(0);
+        expect(ndvi(new Float32Array([0.25, 0.75]))).toBeCloseTo(0.5, 6);
+    });
+
+    it('generates read_pixel in WGSL', () => {
+        const wgsl = new BandExpression('(b8 - b4) / (b8 + b4) + 1', 8).toWGSL();
+        expect(wgsl).toContain('fn safe_div(a: f32, b: f32) -> f32');
+        expect(wgsl).toContain('fn read_pixel(uv: vec2<f32>) -> vec4<f32>');
+        // Validity and two bands fit one block of four slots
+        expect(wgsl).toContain('let dim = vec2<i32>(size.x / 1, size.y);');
+        expect(wgsl).toContain('let b4 = t0.y;');
+        expect(wgsl).toContain('let b8 = t0.z;');
+        expect(wgsl).toContain('let v0 = (safe_div((b8 - b4), (b8 + b4)) + 1.0);');
+        expect(wgsl).toContain('return vec4<f32>(v0, v0, v0, 1.0);');
+    });
+
+    it('spreads many bands over texture blocks in WGSL', () => {
+        const rgb = new BandExpression(['b1 ^ 2 * b3', 'log10(b5)', '-b7'], 7);
+        // Validity and four bands take two blocks
+        expect(rgb.blockCount).toBe(2);
+        const wgsl = rgb.toWGSL();
+        expect(wgsl).toContain('let t1 = textureLoad(myTexture, px + vec2<i32>(dim.x * 1, 0), 0);');
+        expect(wgsl).toContain('let b1 = t0.y;');
+        expect(wgsl).toContain('let b3 = t0.z;');
+        expect(wgsl).toContain('let b7 = t1.x;');
+        expect(wgsl).toContain('let v0 = (pow(b1, 2.0) * b3);');
+        expect(wgsl).toContain('let v1 = (log(b5) / log(10.0));');
+        expect(wgsl).toContain('let v2 = (-b7);');
+        expect(wgsl).toContain('return vec4<f32>(v0, v1, v2, 1.0);');
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { GCP, GCPTransform } from '../src/GCPTransform';
+import { Point } from '../src/GeoTransform';
+
+// Slightly rotated 0.5 m grid in a UTM-like CRS
+const GEO_TRANSFORM = [500000, 0.5, 0.1, 4200000, 0.08, -0.5];
+
+function affine(u: number, v: number): Point {
+    const [x0, a, b, y0, d, e] = GEO_TRANSFORM;
+    return { x: x0 + a * u + b * v, y: y0 + d * u + e * v };
+}
+
+// Affine plus smooth curvature, as from terrain or lens distortion
+function quadratic(u: number, v: number): Point {
+    const p = affine(u, v);
+    return { x: p.x + 4e-7 * u * u - 2e-7 * u * v, y: p.y + 6e-7 * v * v + 2e-7 * u * v };
+}
+
+/**
+ * GCPs on an n x n grid over a 4000 x 3000 pixel image.
+ */
+function gridGCPs(n: number, mapping: (u: number, v: number) => Point): GCP[] {
+    const gcps: GCP[] = [];
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            const pixelX = 4000 * i / (n - 1);
+            const pixelY = 3000 * j / (n - 1);
+            gcps.push({ pixelX, pixelY, ...mapping(pixelX, pixelY) });
+        }
+    }
+    return gcps;
+}
+
+/**
+ * Shifts each GCP's CRS position by ±offset in a fixed pattern.
+ */
+function perturb(gcps: GCP[], offset: number): GCP[] {
+    return gcps.map((g, i) => ({ ...g, x: g.x + (i % 2 ? offset : -offset), y: g.y + (i % 3 ? offset : -offset) }));
+}
+
+function expectPoint(actual: Point, expected: Point, digits: number) {
+    expect(actual.x).toBeCloseTo(expected.x, digits);
+    expect(actual.y).toBeCloseTo(expected.y, digits);
+}
+
+describe('GCPTransform', () => {
+    it('recovers an affine geotransform exactly', () => {
+        const transform = new GCPTransform(gridGCPs(3, affine), 'affine');
+        transform.affine!.coefficients.forEach((c, i) => expect(c).toBeCloseTo(GEO_TRANSFORM[i], 6));
+        expect(transform.fit.method).toBe('affine');
+        expect(transform.fit.rms).toBeLessThan(1e-6);
+        expect(transform.fit.pixelRms).toBeLessThan(1e-6);
+
+        expectPoint(transform.pixelToCrs(1234.5, 678.9), affine(1234.5, 678.9), 6);
+        expectPoint(transform.crsToPixel(affine(1234.5, 678.9).x, affine(1234.5, 678.9).y), { x: 1234.5, y: 678.9 }, 6);
+    });
+
+    it('fits a first-order polynomial to affine GCPs', () => {
+        const transform = new GCPTransform(gridGCPs(2, affine), 'polynomial1');
+        expect(transform.affine).toBeNull();
+        expect(transform.fit.rms).toBeLessThan(1e-6);
+        expectPoint(transform.pixelToCrs(2500, 100), affine(2500, 100), 6);
+        expectPoint(transform.crsToPixel(affine(2500, 100).x, affine(2500, 100).y), { x: 2500, y: 100 }, 6);
+    });
+
+    it('reports the RMS of the residuals of a least-squares fit', () => {
+        const offset = 0.2;
+        const transform = new GCPTransform(perturb(gridGCPs(4, affine), offset), 'affine');
+        const { residuals, rms, pixelRms } = transform.fit;
+        expect(residuals).toHaveLength(16);
+        expect(rms).toBeGreaterThan(0);
+        expect(rms).toBeLessThanOrEqual(offset * Math.SQRT2);
+        expect(rms).toBeCloseTo(Math.sqrt(residuals.reduce((s, r) => s + r.dx * r.dx + r.dy * r.dy, 0) / residuals.length), 10);
+        expect(pixelRms).toBeCloseTo(Math.sqrt(residuals.reduce((s, r) => s + r.pixelDx ** 2 + r.pixelDy ** 2, 0) / residuals.length), 10);
+        // Least squares: the residuals balance out
+        expect(residuals.reduce((s, r) => s + r.dx, 0)).toBeCloseTo(0, 6);
+        expect(residuals.reduce((s, r) => s + r.dy, 0)).toBeCloseTo(0, 6);
+    });
+
+    it('fits curvature with a second-order polynomial', () => {
+        const gcps = gridGCPs(4, quadratic);
+        const first = new GCPTransform(gcps, 'polynomial1');
+        const second = new GCPTransform(gcps, 'polynomial2');
+        expect(first.fit.rms).toBeGreaterThan(0.5);
+        expect(second.fit.rms).toBeLessThan(1e-6);
+        expectPoint(second.pixelToCrs(1500, 2200), quadratic(1500, 2200), 5);
+
+        // The inverse of a quadratic is only close to quadratic
+        expect(second.fit.pixelRms).toBeLessThan(0.01);
+        expect(second.fit.pixelRms).toBeLessThan(first.fit.pixelRms / 10);
+    });
+
+    it('interpolates GCPs exactly with a thin-plate spline', () => {
+        const gcps = perturb(gridGCPs(4, quadratic), 0.3);
+        const transform = new GCPTransform(gcps, 'tps');
+        expect(transform.fit.rms).toBeLessThan(1e-6);
+        expect(transform.fit.pixelRms).toBeLessThan(1e-6);
+        for (const g of gcps) expectPoint(transform.pixelToCrs(g.pixelX, g.pixelY), g, 6);
+
+        // Affine GCPs need no bending, so points between them follow the affine too
+        const flat = new GCPTransform(gridGCPs(3, affine), 'tps');
+        expectPoint(flat.pixelToCrs(1234.5, 678.9), affine(1234.5, 678.9), 5);
+    });
+
+    it('picks the polynomial order from the GCP count', () => {
+        expect(new GCPTransform(gridGCPs(2, affine)).fit.method).toBe('polynomial1');
+        expect(new GCPTransform(gridGCPs(3, quadratic)).fit.method).toBe('polynomial2');
+        expect(new GCPTransform(gridGCPs(3, quadratic)).fit.rms).toBeLessThan(1e-6);
+    });
+
+    it('rejects too few or degenerate GCPs', () => {
+        const gcps = gridGCPs(2, affine);
+        expect(() => new GCPTransform(gcps.slice(0, 2))).toThrow(/At least 3/);
+        expect(() => new GCPTransform(gcps.slice(0, 4).concat(gcps[0]), 'polynomial2')).toThrow(/at least 6/);
+        const collinear = [0, 1, 2, 3].map(i => ({ pixelX: i * 100, pixelY: i * 100, ...affine(i * 100, i * 100) }));
+        expect(() => new GCPTransform(collinear, 'affine')).toThrow(/degenerate/);
+    });
+});
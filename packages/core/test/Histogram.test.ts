@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { Histogram, histogramFraction, histogramPercentile } from '../src/Histogram';
+
+/**
+ * One channel over [min, max) with the given bin counts.
+ */
+function histogram(counts: number[], min = 0, max = counts.length): Histogram {
+    const total = counts.reduce((sum, c) => sum + c, 0);
+    return { bins: counts.length, counts: [counts], min: [min], max: [max], mean: [0], stdDev: [0], total };
+}
+
+describe('histogramPercentile', () => {
+    it('interpolates within a bin', () => {
+        const h = histogram([10, 10, 10, 10], 0, 100);
+        expect(histogramPercentile(h, 0, 0.5)).toBeCloseTo(50, 10);
+        expect(histogramPercentile(h, 0, 0.1)).toBeCloseTo(10, 10);
+        expect(histogramPercentile(h, 0, 0.875)).toBeCloseTo(87.5, 10);
+    });
+
+    it('returns the data edges at p = 0 and p = 1, past empty end bins', () => {
+        const h = histogram([0, 0, 4, 4, 0], 0, 50);
+        expect(histogramPercentile(h, 0, 0)).toBe(20);
+        expect(histogramPercentile(h, 0, 1)).toBe(40);
+        // Out of range fractions are clamped
+        expect(histogramPercentile(h, 0, -0.5)).toBe(20);
+        expect(histogramPercentile(h, 0, 2)).toBe(40);
+    });
+
+    it('does not land in empty bins between data', () => {
+        const h = histogram([5, 0, 0, 5]);
+        expect(histogramPercentile(h, 0, 0.5)).toBe(1);
+        expect(histogramPercentile(h, 0, 0.6)).toBeCloseTo(3.2, 10);
+    });
+
+    it('returns the maximum without samples', () => {
+        expect(histogramPercentile(histogram([0, 0, 0], 5, 8), 0, 0.5)).toBe(8);
+    });
+
+    it('returns the single value of a zero-width histogram', () => {
+        const h = histogram([7], 3, 3);
+        expect(histogramPercentile(h, 0, 0)).toBe(3);
+        expect(histogramPercentile(h, 0, 0.5)).toBe(3);
+        expect(histogramPercentile(h, 0, 1)).toBe(3);
+    });
+
+    it('reads the requested channel', () => {
+        const h: Histogram = {
+            bins: 2, counts: [[1, 0], [0, 1]], min: [0, 10], max: [2, 20], mean: [0, 0], stdDev: [0, 0], total: 1
+        };
+        expect(histogramPercentile(h, 0, 1)).toBe(1);
+        expect(histogramPercentile(h, 1, 1)).toBe(20);
+    });
+});
+
+describe('histogramFraction', () => {
+    it('interpolates within a bin', () => {
+        const h = histogram([10, 10, 10, 10], 0, 100);
+        expect(histogramFraction(h, 0, 50)).toBeCloseTo(0.5, 10);
+        expect(histogramFraction(h, 0, 10)).toBeCloseTo(0.1, 10);
+    });
+
+    it('clamps to 0 below the minimum and 1 from the maximum', () => {
+        const h = histogram([1, 2, 3], 0, 3);
+        expect(histogramFraction(h, 0, -1)).toBe(0);
+        expect(histogramFraction(h, 0, 0)).toBe(0);
+        expect(histogramFraction(h, 0, 3)).toBe(1);
+        expect(histogramFraction(h, 0, 10)).toBe(1);
+    });
+
+    it('stays flat across empty bins', () => {
+        const h = histogram([5, 0, 0, 5]);
+        expect(histogramFraction(h, 0, 1)).toBe(0.5);
+        expect(histogramFraction(h, 0, 2.5)).toBe(0.5);
+        expect(histogramFraction(h, 0, 3)).toBe(0.5);
+    });
+
+    it('is 0 without samples', () => {
+        expect(histogramFraction(histogram([0, 0]), 0, 1)).toBe(0);
+    });
+
+    it('steps from 0 to 1 at the value of a zero-width histogram', () => {
+        const h = histogram([7], 3, 3);
+        expect(histogramFraction(h, 0, 2.9)).toBe(0);
+        expect(histogramFraction(h, 0, 3)).toBe(1);
+    });
+
+    it('inverts histogramPercentile', () => {
+        const h = histogram([3, 1, 0, 6, 2, 8], -1, 2);
+        for (const p of [0.1, 0.25, 0.5, 0.75, 0.9]) {
+            expect(histogramFraction(h, 0, histogramPercentile(h, 0, p))).toBeCloseTo(p, 10);
+        }
+    });
+});
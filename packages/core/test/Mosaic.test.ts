@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { computeMosaicLayout, mergeStatistics, mosaicDrawOrder } from '../src/Mosaic';
+import { GeoInfo } from '../src/GeoTransform';
+import type { BandStatistics } from '../src/TileManager';
+
+function image(geoTransform: number[] | null, width: number, height: number, epsg: number | null = 32633) {
+    const geoInfo: GeoInfo = { geoTransform, epsg, rasterType: 'area', geoKeys: {}, gcps: [], gcpEpsg: null };
+    return { geoInfo, width, height };
+}
+
+/**
+ * Statistics of one band as the worker computes them: population standard deviation.
+ */
+function statistics(samples: number[], band = 0, source: BandStatistics['source'] = 'overview'): BandStatistics {
+    const mean = samples.reduce((s, v) => s + v, 0) / samples.length;
+    const variance = samples.reduce((s, v) => s + (v - mean) ** 2, 0) / samples.length;
+    const sorted = samples.slice().sort((a, b) => a - b);
+    return {
+        band,
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        mean,
+        stdDev: Math.sqrt(variance),
+        percentiles: [sorted[0], sorted[sorted.length - 1]],
+        validCount: samples.length,
+        source
+    };
+}
+
+describe('computeMosaicLayout', () => {
+    it('places files of mixed resolution on the finest grid', () => {
+        const layout = computeMosaicLayout([
+            image([501000, 4, 0, 4200000, 0, -4], 250, 250),      // 1 km to the east at 4 m
+            image([500000, 1, 0, 4200000, 0, -1], 1000, 1000),    // 1 m
+            image([500500, 2, 0, 4199000, 0, -2], 500, 250)       // Below, 500 m wide at 2 m
+        ]);
+        expect(layout.geoTransform).toEqual([500000, 1, 0, 4200000, 0, -1]);
+        expect(layout.width).toBe(2000);
+        expect(layout.height).toBe(1500);
+        // Offsets along the flipped y axis come out as -0 at the origin
+        expect(layout.placements.map(p => ({ ...p, y: p.y + 0 }))).toEqual([
+            { x: 1000, y: 0, scaleX: 4, scaleY: 4 },
+            { x: 0, y: 0, scaleX: 1, scaleY: 1 },
+            { x: 500, y: 1000, scaleX: 2, scaleY: 2 }
+        ]);
+    });
+
+    it('covers overlapping files', () => {
+        const layout = computeMosaicLayout([
+            image([10, 0.5, 0, 50, 0, -0.5], 100, 100),
+            image([30, 0.5, 0, 40, 0, -0.5], 100, 100)
+        ]);
+        expect(layout.geoTransform).toEqual([10, 0.5, 0, 50, 0, -0.5]);
+        expect(layout.width).toBe(140);
+        expect(layout.height).toBe(120);
+        expect(layout.placements[1]).toEqual({ x: 40, y: 20, scaleX: 1, scaleY: 1 });
+    });
+
+    it('rejects files without a geotransform or in another CRS', () => {
+        expect(() => computeMosaicLayout([])).toThrow();
+        expect(() => computeMosaicLayout([image([0, 1, 0, 0, 0, -1], 10, 10), image(null, 10, 10)]))
+            .toThrow(/file 2 has no geotransform/);
+        expect(() => computeMosaicLayout([image([0, 1, 0, 0, 0, -1], 10, 10), image([10, 1, 0, 0, 0, -1], 10, 10, 32634)]))
+            .toThrow(/EPSG:32634/);
+    });
+
+    it('rejects rotated files', () => {
+        expect(() => computeMosaicLayout([image([0, 1, 0, 0, 0, -1], 10, 10), image([10, 1, 0.1, 0, 0, -1], 10, 10)]))
+            .toThrow(/file 2 is rotated/);
+        expect(() => computeMosaicLayout([image([0, 1, 0, 0, 0.2, -1], 10, 10)]))
+            .toThrow(/file 1 is rotated/);
+    });
+
+    it('rejects flipped files', () => {
+        expect(() => computeMosaicLayout([image([0, 1, 0, 0, 0, -1], 10, 10), image([10, 1, 0, -10, 0, 1], 10, 10)]))
+            .toThrow(/file 2 is flipped/);
+        expect(() => computeMosaicLayout([image([0, 1, 0, 0, 0, -1], 10, 10), image([20, -2, 0, 0, 0, -2], 10, 10)]))
+            .toThrow(/file 2 is flipped/);
+    });
+});
+
+describe('mosaicDrawOrder', () => {
+    const placements = [
+        { x: 0, y: 0, scaleX: 2, scaleY: 2 },
+        { x: 0, y: 0, scaleX: 1, scaleY: 1 },
+        { x: 0, y: 0, scaleX: 4, scaleY: 4 },
+        { x: 0, y: 0, scaleX: 1, scaleY: 1 }
+    ];
+
+    it('draws the winning file last', () => {
+        expect(mosaicDrawOrder('last', placements)).toEqual([0, 1, 2, 3]);
+        expect(mosaicDrawOrder('first', placements)).toEqual([3, 2, 1, 0]);
+    });
+
+    it('draws coarse files first, keeping source order for ties', () => {
+        expect(mosaicDrawOrder('highest-resolution', placements)).toEqual([2, 0, 1, 3]);
+    });
+});
+
+describe('mergeStatistics', () => {
+    it('pools means and variances exactly', () => {
+        const a = [1, 2, 3, 4, 4, 6];
+        const b = [10, 20];
+        const c = [-3, 0, 5];
+        const merged = mergeStatistics([[statistics(a)], [statistics(b)], [statistics(c)]]);
+        const all = statistics([...a, ...b, ...c]);
+
+        expect(merged).toHaveLength(1);
+        expect(merged[0].mean).toBeCloseTo(all.mean, 12);
+        expect(merged[0].stdDev).toBeCloseTo(all.stdDev, 12);
+        expect(merged[0].min).toBe(-3);
+        expect(merged[0].max).toBe(20);
+        expect(merged[0].validCount).toBe(11);
+        // Percentiles are weighted by sample count
+        expect(merged[0].percentiles[0]).toBeCloseTo((6 * 1 + 2 * 10 + 3 * -3) / 11, 12);
+    });
+
+    it('skips files without valid samples', () => {
+        const empty: BandStatistics = { ...statistics([0]), min: 0, max: 0, validCount: 0 };
+        const merged = mergeStatistics([[empty], [statistics([5, 7])]]);
+        expect(merged[0].min).toBe(5);
+        expect(merged[0].mean).toBe(6);
+        expect(merged[0].stdDev).toBe(1);
+
+        const none = mergeStatistics([[empty], [empty]]);
+        expect(none[0]).toEqual(empty);
+    });
+
+    it('keeps the bands all files have and reports where values come from', () => {
+        const merged = mergeStatistics([
+            [statistics([1, 2], 0, 'metadata'), statistics([3, 4], 1, 'metadata')],
+            [statistics([5, 6], 0, 'metadata')]
+        ]);
+        expect(merged).toHaveLength(1);
+        expect(merged[0].source).toBe('metadata');
+        expect(mergeStatistics([[statistics([1], 0, 'metadata')], [statistics([2])]])[0].source).toBe('overview');
+    });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { RPCModel, parseRPCText } from '../src/RPCModel';
+
+// RPC00B sample in .RPB form. The coefficients describe a pushbroom-like scene with
+// relief displacement and mild curvature; the reference below evaluates the same
+// rational functions written out term by term, so expected pixels are known exactly.
+const SAMPLE_RPB = `satId = "SAMPLE";
+bandId = "P";
+SpecId = "RPC00B";
+BEGIN_GROUP = IMAGE
+\terrBias = 1.0;
+\terrRand = 0.5;
+\tlineOffset = 5000;
+\tsampOffset = 4000;
+\tlatOffset = 39.87;
+\tlongOffset = 125.65;
+\theightOffset = 50;
+\tlineScale = 5000;
+\tsampScale = 4000;
+\tlatScale = 0.06;
+\tlongScale = 0.08;
+\theightScale = 500;
+\tlineNumCoef = (
+\t\t\t-2.0E-03, 1.5E-02, -1.0E+00, 1.0E-02, 0.0E+00,
+\t\t\t0.0E+00, 2.0E-03, 0.0E+00, -3.0E-03, 4.0E-04,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00);
+\tlineDenCoef = (
+\t\t\t1.0E+00, 1.0E-03, -5.0E-04, 0.0E+00, 0.0E+00,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00);
+\tsampNumCoef = (
+\t\t\t1.0E-03, 1.0E+00, -2.0E-02, 3.0E-02, 5.0E-03,
+\t\t\t0.0E+00, 0.0E+00, 2.0E-03, 0.0E+00, 0.0E+00,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00);
+\tsampDenCoef = (
+\t\t\t1.0E+00, 1.0E-03, -5.0E-04, 0.0E+00, 0.0E+00,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00,
+\t\t\t0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00, 0.0E+00);
+END_GROUP = IMAGE
+END;
+`;
+
+/**
+ * The sample's rational functions evaluated directly, in corner based pixels like RPCModel.
+ */
+function reference(lon: number, lat: number, height: number) {
+    const L = (lon - 125.65) / 0.08;
+    const P = (lat - 39.87) / 0.06;
+    const H = (height - 50) / 500;
+    const den = 1 + 0.001 * L - 0.0005 * P;
+    const samp = (0.001 + L - 0.02 * P + 0.03 * H + 0.005 * L * P + 0.002 * L * L) / den;
+    const line = (-0.002 + 0.015 * L - P + 0.01 * H + 0.002 * P * H - 0.003 * P * P + 0.0004 * H * H) / den;
+    return { x: samp * 4000 + 4000 + 0.5, y: line * 5000 + 5000 + 0.5 };
+}
+
+// Smooth terrain of a few hundred meters over the scene
+const dem = (lon: number, lat: number) => 300 + 2000 * (lon - 125.65) - 1500 * (lat - 39.87);
+
+const GROUND = [
+    { lon: 125.65, lat: 39.87 },
+    { lon: 125.60, lat: 39.90 },
+    { lon: 125.71, lat: 39.83 },
+    { lon: 125.58, lat: 39.82 },
+    { lon: 125.72, lat: 39.92 }
+];
+
+const PIXEL_TOLERANCE = 0.01; // Sub-pixel
+const DEGREE_TOLERANCE = 1e-7; // About 1 cm
+
+function loadSample() {
+    const rpc = parseRPCText(SAMPLE_RPB);
+    expect(rpc).not.toBeNull();
+    return rpc!;
+}
+
+describe('RPCModel', () => {
+    it('parses the RPC00B sample', () => {
+        const rpc = loadSample();
+        expect(rpc.lineOff).toBe(5000);
+        expect(rpc.longScale).toBe(0.08);
+        expect(rpc.sampNumCoeff[1]).toBe(1);
+        expect(rpc.lineDenCoeff).toHaveLength(20);
+    });
+
+    it('projects ground points to known image pixels', () => {
+        const model = new RPCModel(loadSample());
+        // Scene center: all normalized coordinates are 0, leaving the constant terms
+        const center = model.groundToImage(125.65, 39.87, 50);
+        expect(center.x).toBeCloseTo(4004.5, 6);
+        expect(center.y).toBeCloseTo(4990.5, 6);
+
+        for (const { lon, lat } of GROUND) {
+            for (const height of [-100, 50, 800]) {
+                const pixel = model.groundToImage(lon, lat, height);
+                const expected = reference(lon, lat, height);
+                expect(Math.abs(pixel.x - expected.x)).toBeLessThan(1e-6);
+                expect(Math.abs(pixel.y - expected.y)).toBeLessThan(1e-6);
+            }
+        }
+    });
+
+    it('intersects lines of sight with a constant height', () => {
+        const height = 250;
+        const model = new RPCModel(loadSample(), height);
+        for (const { lon, lat } of GROUND) {
+            const { x, y } = reference(lon, lat, height);
+            const ground = model.imageToGround(x, y);
+            expect(ground.height).toBe(height);
+            expect(Math.abs(ground.lon - lon)).toBeLessThan(DEGREE_TOLERANCE);
+            expect(Math.abs(ground.lat - lat)).toBeLessThan(DEGREE_TOLERANCE);
+        }
+    });
+
+    it('intersects lines of sight with a DEM', () => {
+        const model = new RPCModel(loadSample(), dem);
+        for (const { lon, lat } of GROUND) {
+            const { x, y } = reference(lon, lat, dem(lon, lat));
+            const ground = model.imageToGround(x, y);
+            expect(Math.abs(ground.height - dem(lon, lat))).toBeLessThan(0.05);
+            expect(Math.abs(ground.lon - lon)).toBeLessThan(1e-6);
+            expect(Math.abs(ground.lat - lat)).toBeLessThan(1e-6);
+
+            const reprojected = model.groundToImage(ground.lon, ground.lat, ground.height);
+            expect(Math.abs(reprojected.x - x)).toBeLessThan(PIXEL_TOLERANCE);
+            expect(Math.abs(reprojected.y - y)).toBeLessThan(PIXEL_TOLERANCE);
+        }
+    });
+
+    it('round-trips imageToGround(groundToImage(p))', () => {
+        const model = new RPCModel(loadSample());
+        for (const { lon, lat } of GROUND) {
+            for (const height of [-100, 50, 800]) {
+                const pixel = model.groundToImage(lon, lat, height);
+                const ground = model.imageToGround(pixel.x, pixel.y, height);
+                expect(Math.abs(ground.lon - lon)).toBeLessThan(DEGREE_TOLERANCE);
+                expect(Math.abs(ground.lat - lat)).toBeLessThan(DEGREE_TOLERANCE);
+                expect(ground.height).toBe(height);
+            }
+        }
+    });
+
+    it('converts through the PixelTransform interface at the model height', () => {
+        const model = new RPCModel(loadSample(), dem);
+        const { lon, lat } = GROUND[2];
+        const pixel = model.crsToPixel(lon, lat);
+        const expected = reference(lon, lat, dem(lon, lat));
+        expect(Math.abs(pixel.x - expected.x)).toBeLessThan(1e-6);
+        expect(Math.abs(pixel.y - expected.y)).toBeLessThan(1e-6);
+
+        const crs = model.pixelToCrs(pixel.x, pixel.y);
+        expect(Math.abs(crs.x - lon)).toBeLessThan(1e-6);
+        expect(Math.abs(crs.y - lat)).toBeLessThan(1e-6);
+    });
+});
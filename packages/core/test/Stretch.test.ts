@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Stretch, StretchOptions } from '../src/Stretch';
+
+const POSITIONS = [0, 0.01, 0.1, 0.25, 0.5, 0.75, 0.9, 0.99, 1];
+
+function roundTrip(options: Partial<StretchOptions>, channel = 0) {
+    const stretch = new Stretch(options);
+    for (const t of POSITIONS) {
+        expect(stretch.invert(stretch.apply(t, channel), channel)).toBeCloseTo(t, 6);
+    }
+}
+
+describe('Stretch', () => {
+    it('expands every gamma shape to three channels', () => {
+        for (const gamma of [2, [2], [0.5, 1, 2]]) {
+            const stretch = new Stretch({ mode: 'gamma', gamma });
+            expect(stretch.gamma).toHaveLength(3);
+            expect(stretch.toUniforms()).toHaveLength(16);
+        }
+        expect(new Stretch({ gamma: [2] }).gamma).toEqual([2, 2, 2]);
+        expect(new Stretch({ gamma: [0.5, 1, 2] }).gamma).toEqual([0.5, 1, 2]);
+    });
+
+    it('rejects gamma that is not one or three positive values', () => {
+        expect(() => new Stretch({ gamma: [1, 2] })).toThrow();
+        expect(() => new Stretch({ gamma: 0 })).toThrow();
+    });
+
+    it('lays out the Settings uniform fields', () => {
+        const stretch = new Stretch({
+            mode: 'sigmoid', gamma: [0.5, 1, 2], logScale: 50, sigmoidContrast: 8, sigmoidMidpoint: 0.4,
+            brightness: 0.1, contrast: 1.5
+        });
+        expect(stretch.toUniforms()).toEqual([
+            3, 50, 8, 0.4,
+            0.5, 1, 2, 1,
+            0.1, 1.5, 0, 0,
+            1, 1, 0, 0
+        ]);
+        const clahe = new Stretch({ mode: 'clahe', claheTiles: 4 }).toUniforms();
+        expect(clahe[0]).toBe(4);
+        expect(clahe.slice(12, 14)).toEqual([4, 4]);
+    });
+
+    it('inverts the gamma curve per channel', () => {
+        roundTrip({ mode: 'gamma', gamma: 2.2 });
+        for (const channel of [0, 1, 2]) {
+            roundTrip({ mode: 'gamma', gamma: [0.5, 1, 2] }, channel);
+        }
+        // Gamma > 1 brightens midtones
+        expect(new Stretch({ mode: 'gamma', gamma: 2 }).apply(0.25)).toBeCloseTo(0.5, 10);
+    });
+
+    it('inverts the log curve', () => {
+        roundTrip({ mode: 'log', logScale: 100 });
+        roundTrip({ mode: 'log', logScale: 0.5 });
+        const stretch = new Stretch({ mode: 'log', logScale: 100 });
+        expect(stretch.apply(0)).toBeCloseTo(0, 10);
+        expect(stretch.apply(1)).toBeCloseTo(1, 10);
+    });
+
+    it('inverts the sigmoid curve', () => {
+        roundTrip({ mode: 'sigmoid', sigmoidContrast: 10, sigmoidMidpoint: 0.5 });
+        roundTrip({ mode: 'sigmoid', sigmoidContrast: 4, sigmoidMidpoint: 0.3 });
+        const stretch = new Stretch({ mode: 'sigmoid', sigmoidContrast: 10, sigmoidMidpoint: 0.5 });
+        expect(stretch.apply(0)).toBeCloseTo(0, 10);
+        expect(stretch.apply(0.5)).toBeCloseTo(0.5, 10);
+        expect(stretch.apply(1)).toBeCloseTo(1, 10);
+    });
+
+    it('inverts brightness and contrast', () => {
+        roundTrip({ mode: 'gamma', gamma: 1.8, brightness: 0.05, contrast: 0.8 });
+    });
+});